@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS daily_stats;
+DROP TABLE IF EXISTS positions;
+DROP TABLE IF EXISTS aircraft;
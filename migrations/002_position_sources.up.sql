@@ -0,0 +1,2 @@
+-- Track which data source(s) reported each position
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS sources TEXT[];
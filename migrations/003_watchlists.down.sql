@@ -0,0 +1,3 @@
+ALTER TABLE positions DROP COLUMN IF EXISTS watchlist_ids;
+ALTER TABLE aircraft DROP COLUMN IF EXISTS watchlist_ids;
+DROP TABLE IF EXISTS watchlists;
@@ -0,0 +1,22 @@
+CREATE TABLE IF NOT EXISTS watchlists (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) UNIQUE NOT NULL,
+  description TEXT,
+  enabled BOOLEAN DEFAULT TRUE,
+  hex_ranges JSONB NOT NULL DEFAULT '[]',
+  hex_codes TEXT[] NOT NULL DEFAULT '{}',
+  callsign_patterns TEXT[] NOT NULL DEFAULT '{}',
+  aircraft_types TEXT[] NOT NULL DEFAULT '{}',
+  registration_prefixes TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Seed the Russian ICAO block (140000-157FFF) on a fresh database
+INSERT INTO watchlists (name, description, hex_ranges, registration_prefixes)
+SELECT 'Russia', 'Aircraft registered in Russia', '[{"from": "140000", "to": "157fff"}]', '{RA-,RF-}'
+WHERE NOT EXISTS (SELECT 1 FROM watchlists);
+
+-- Record which watchlist(s) matched each aircraft and position
+ALTER TABLE aircraft ADD COLUMN IF NOT EXISTS watchlist_ids INTEGER[] DEFAULT '{}';
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS watchlist_ids INTEGER[] DEFAULT '{}';
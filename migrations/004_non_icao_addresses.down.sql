@@ -0,0 +1,3 @@
+-- Fails while non-ICAO (`~`-prefixed) aircraft are stored
+ALTER TABLE positions ALTER COLUMN icao24 TYPE VARCHAR(6);
+ALTER TABLE aircraft ALTER COLUMN icao24 TYPE VARCHAR(6);
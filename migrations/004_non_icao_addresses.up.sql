@@ -0,0 +1,3 @@
+-- Widen icao24 to fit readsb's `~`-prefixed non-ICAO addresses
+ALTER TABLE aircraft ALTER COLUMN icao24 TYPE VARCHAR(7);
+ALTER TABLE positions ALTER COLUMN icao24 TYPE VARCHAR(7);
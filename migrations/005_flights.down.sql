@@ -0,0 +1,3 @@
+ALTER TABLE positions DROP COLUMN IF EXISTS segmented;
+ALTER TABLE positions DROP COLUMN IF EXISTS flight_id;
+DROP TABLE IF EXISTS flights;
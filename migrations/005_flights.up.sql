@@ -0,0 +1,26 @@
+-- Positions segmented into discrete sorties
+CREATE TABLE IF NOT EXISTS flights (
+  id SERIAL PRIMARY KEY,
+  icao24 VARCHAR(7) NOT NULL,
+  callsign VARCHAR(20),
+  status VARCHAR(20) NOT NULL DEFAULT 'active',
+  end_reason VARCHAR(20),
+  start_time TIMESTAMP NOT NULL,
+  end_time TIMESTAMP NOT NULL,
+  first_latitude DECIMAL(10, 6),
+  first_longitude DECIMAL(10, 6),
+  last_latitude DECIMAL(10, 6),
+  last_longitude DECIMAL(10, 6),
+  max_altitude DECIMAL(10, 2),
+  distance_km DECIMAL(10, 2) DEFAULT 0,
+  position_count INTEGER DEFAULT 0,
+  FOREIGN KEY (icao24) REFERENCES aircraft(icao24) ON DELETE CASCADE
+);
+
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS flight_id INTEGER REFERENCES flights(id) ON DELETE SET NULL;
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS segmented BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_positions_flight_id ON positions(flight_id);
+CREATE INDEX IF NOT EXISTS idx_positions_unsegmented ON positions(icao24, timestamp) WHERE segmented = FALSE;
+CREATE INDEX IF NOT EXISTS idx_flights_icao24 ON flights(icao24);
+CREATE INDEX IF NOT EXISTS idx_flights_start_time ON flights(start_time);
@@ -0,0 +1,4 @@
+ALTER TABLE flights DROP COLUMN IF EXISTS arrival_airport;
+ALTER TABLE flights DROP COLUMN IF EXISTS departure_airport;
+ALTER TABLE flights DROP COLUMN IF EXISTS last_altitude;
+ALTER TABLE flights DROP COLUMN IF EXISTS first_altitude;
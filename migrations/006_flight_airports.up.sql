@@ -0,0 +1,7 @@
+-- Departure/arrival inference needs the altitude at both ends of a flight
+ALTER TABLE flights ADD COLUMN IF NOT EXISTS first_altitude DECIMAL(10, 2);
+ALTER TABLE flights ADD COLUMN IF NOT EXISTS last_altitude DECIMAL(10, 2);
+ALTER TABLE flights ADD COLUMN IF NOT EXISTS departure_airport VARCHAR(10);
+ALTER TABLE flights ADD COLUMN IF NOT EXISTS arrival_airport VARCHAR(10);
+
+CREATE INDEX IF NOT EXISTS idx_flights_airports ON flights(departure_airport, arrival_airport);
@@ -0,0 +1,38 @@
+CREATE TABLE IF NOT EXISTS geofences (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) UNIQUE NOT NULL,
+  description TEXT,
+  enabled BOOLEAN DEFAULT TRUE,
+  shape VARCHAR(10) NOT NULL,
+  coordinates JSONB,
+  center_latitude DECIMAL(10, 6),
+  center_longitude DECIMAL(10, 6),
+  radius_km DECIMAL(10, 2),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Entry/exit transitions
+CREATE TABLE IF NOT EXISTS geofence_events (
+  id SERIAL PRIMARY KEY,
+  geofence_id INTEGER NOT NULL REFERENCES geofences(id) ON DELETE CASCADE,
+  icao24 VARCHAR(7) NOT NULL,
+  callsign VARCHAR(20),
+  event_type VARCHAR(10) NOT NULL,
+  latitude DECIMAL(10, 6),
+  longitude DECIMAL(10, 6),
+  altitude DECIMAL(10, 2),
+  timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Which aircraft are currently inside which geofence
+CREATE TABLE IF NOT EXISTS geofence_presence (
+  geofence_id INTEGER NOT NULL REFERENCES geofences(id) ON DELETE CASCADE,
+  icao24 VARCHAR(7) NOT NULL,
+  entered_at TIMESTAMP NOT NULL,
+  last_seen TIMESTAMP NOT NULL,
+  PRIMARY KEY (geofence_id, icao24)
+);
+
+CREATE INDEX IF NOT EXISTS idx_geofence_events_geofence ON geofence_events(geofence_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_geofence_events_icao24 ON geofence_events(icao24, timestamp);
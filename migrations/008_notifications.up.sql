@@ -0,0 +1,27 @@
+-- Subscriptions and the persistent delivery queue
+CREATE TABLE IF NOT EXISTS notification_subscriptions (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  event_type VARCHAR(50) NOT NULL,
+  target_type VARCHAR(20) NOT NULL,
+  target TEXT NOT NULL,
+  secret VARCHAR(128),
+  enabled BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id SERIAL PRIMARY KEY,
+  subscription_id INTEGER NOT NULL REFERENCES notification_subscriptions(id) ON DELETE CASCADE,
+  event_type VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts INTEGER DEFAULT 0,
+  next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_error TEXT,
+  response_status INTEGER,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  delivered_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_queue ON notification_deliveries(next_attempt_at) WHERE status IN ('pending', 'sending');
@@ -0,0 +1,8 @@
+ALTER TABLE positions DROP COLUMN IF EXISTS seen_pos;
+ALTER TABLE positions DROP COLUMN IF EXISTS message_type;
+ALTER TABLE positions DROP COLUMN IF EXISTS rssi;
+ALTER TABLE positions DROP COLUMN IF EXISTS nac_p;
+ALTER TABLE positions DROP COLUMN IF EXISTS nic;
+ALTER TABLE positions DROP COLUMN IF EXISTS category;
+ALTER TABLE positions DROP COLUMN IF EXISTS emergency;
+ALTER TABLE positions DROP COLUMN IF EXISTS squawk;
@@ -0,0 +1,12 @@
+-- Squawk, emergency and ADS-B quality fields reported by the sources
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS squawk VARCHAR(4);
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS emergency VARCHAR(20);
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS category VARCHAR(4);
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS nic SMALLINT;
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS nac_p SMALLINT;
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS rssi DECIMAL(6, 1);
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS message_type VARCHAR(20);
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS seen_pos DECIMAL(8, 1);
+
+CREATE INDEX IF NOT EXISTS idx_positions_emergency ON positions(timestamp)
+  WHERE squawk IN ('7500', '7600', '7700') OR emergency IS NOT NULL;
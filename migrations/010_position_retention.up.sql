@@ -0,0 +1,4 @@
+-- Set once a position has been through the downsampling tier of the retention policy
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS downsampled BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_positions_full_resolution ON positions(timestamp) WHERE downsampled = FALSE;
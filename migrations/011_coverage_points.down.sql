@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS coverage_point_sightings;
+DROP TABLE IF EXISTS coverage_points;
@@ -0,0 +1,42 @@
+-- ADSBone coverage points, managed through /api/admin/coverage
+CREATE TABLE IF NOT EXISTS coverage_points (
+  id SERIAL PRIMARY KEY,
+  label VARCHAR(100) UNIQUE NOT NULL,
+  latitude DECIMAL(10, 6) NOT NULL,
+  longitude DECIMAL(10, 6) NOT NULL,
+  radius_nm INTEGER NOT NULL DEFAULT 250,
+  enabled BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Seed the original coverage points on a fresh database, tuned for the
+-- Russia → Gulf of Finland → Kaliningrad corridor
+INSERT INTO coverage_points (label, latitude, longitude, radius_nm)
+SELECT * FROM (VALUES
+  ('Helsinki/Gulf of Finland', 60.17, 24.94, 250),
+  ('Tallinn/Northern Estonia', 59.45, 24.75, 250),
+  ('Baltic Sea (Latvia coast)', 57.50, 21.00, 250),
+  ('Kaliningrad Oblast', 54.70, 20.50, 250),
+  ('Lithuania', 55.20, 23.50, 250),
+  ('Gdansk/Polish coast', 54.35, 18.65, 250),
+  ('St. Petersburg', 59.93, 30.31, 250),
+  ('Moscow', 55.75, 37.62, 250),
+  ('Nizhny Novgorod', 56.0, 44.0, 250),
+  ('Arkhangelsk', 64.0, 40.0, 250),
+  ('Murmansk/Arctic', 68.0, 33.0, 250),
+  ('Novosibirsk/Siberia', 55.0, 82.0, 250),
+  ('Far East Russia', 48.0, 135.0, 250)
+) AS seed(label, latitude, longitude, radius_nm)
+WHERE NOT EXISTS (SELECT 1 FROM coverage_points);
+
+-- Which coverage point reported which aircraft, per hour, for the coverage report
+CREATE TABLE IF NOT EXISTS coverage_point_sightings (
+  point_id INTEGER NOT NULL REFERENCES coverage_points(id) ON DELETE CASCADE,
+  icao24 VARCHAR(7) NOT NULL,
+  hour TIMESTAMP NOT NULL,
+  tracked BOOLEAN NOT NULL DEFAULT FALSE,
+  PRIMARY KEY (point_id, icao24, hour)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coverage_point_sightings_hour ON coverage_point_sightings(hour);
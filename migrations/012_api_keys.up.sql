@@ -0,0 +1,28 @@
+-- API keys are stored as SHA-256 hashes; key_prefix identifies a key in listings and logs
+CREATE TABLE IF NOT EXISTS api_keys (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  key_prefix VARCHAR(16) NOT NULL,
+  key_hash VARCHAR(64) UNIQUE NOT NULL,
+  role VARCHAR(20) NOT NULL,
+  rate_limit_per_minute INTEGER,
+  enabled BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TIMESTAMP
+);
+
+-- Who called which mutating endpoint, and when
+CREATE TABLE IF NOT EXISTS audit_log (
+  id SERIAL PRIMARY KEY,
+  api_key_id INTEGER REFERENCES api_keys(id) ON DELETE SET NULL,
+  key_name VARCHAR(100),
+  role VARCHAR(20),
+  method VARCHAR(10) NOT NULL,
+  path TEXT NOT NULL,
+  status INTEGER NOT NULL,
+  ip VARCHAR(64),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_api_key ON audit_log(api_key_id, created_at);
@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_aircraft_is_military;
+ALTER TABLE aircraft DROP COLUMN IF EXISTS is_military;
+DROP TABLE IF EXISTS military_registry;
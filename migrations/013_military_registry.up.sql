@@ -0,0 +1,15 @@
+-- Military aircraft addresses, imported or added by hand; source and added_by record provenance
+CREATE TABLE IF NOT EXISTS military_registry (
+  hex VARCHAR(7) PRIMARY KEY,
+  operator VARCHAR(100),
+  branch VARCHAR(100),
+  aircraft_type VARCHAR(50),
+  source VARCHAR(100) NOT NULL,
+  added_by VARCHAR(100),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Classification is stored with the aircraft instead of being looked up per response
+ALTER TABLE aircraft ADD COLUMN IF NOT EXISTS is_military BOOLEAN NOT NULL DEFAULT FALSE;
+CREATE INDEX IF NOT EXISTS idx_aircraft_is_military ON aircraft(is_military) WHERE is_military;
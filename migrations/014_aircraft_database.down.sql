@@ -0,0 +1,9 @@
+ALTER TABLE aircraft
+  DROP COLUMN IF EXISTS type_code,
+  DROP COLUMN IF EXISTS model,
+  DROP COLUMN IF EXISTS operator,
+  DROP COLUMN IF EXISTS owner,
+  DROP COLUMN IF EXISTS year_built,
+  DROP COLUMN IF EXISTS enrichment_source,
+  DROP COLUMN IF EXISTS enriched_at;
+DROP TABLE IF EXISTS aircraft_database;
@@ -0,0 +1,22 @@
+-- Offline aircraft database (e.g. OpenSky or tar1090 dumps), keyed by ICAO address
+CREATE TABLE IF NOT EXISTS aircraft_database (
+  icao24 VARCHAR(7) PRIMARY KEY,
+  registration VARCHAR(20),
+  type_code VARCHAR(10),
+  model VARCHAR(100),
+  operator VARCHAR(100),
+  owner VARCHAR(100),
+  year_built SMALLINT,
+  source VARCHAR(100) NOT NULL,
+  imported_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Enriched details on tracked aircraft, with where and when they came from
+ALTER TABLE aircraft
+  ADD COLUMN IF NOT EXISTS type_code VARCHAR(10),
+  ADD COLUMN IF NOT EXISTS model VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS operator VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS owner VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS year_built SMALLINT,
+  ADD COLUMN IF NOT EXISTS enrichment_source VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS enriched_at TIMESTAMP;
@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS interference_events;
+DROP TABLE IF EXISTS interference_cells;
@@ -0,0 +1,30 @@
+-- GNSS integrity of every aircraft reported, summed per grid cell and time bucket.
+-- Cells are identified by their south-west corner at INTERFERENCE_GRID_DEGREES.
+CREATE TABLE IF NOT EXISTS interference_cells (
+  bucket TIMESTAMP NOT NULL,
+  cell_lat DECIMAL(7, 3) NOT NULL,
+  cell_lon DECIMAL(7, 3) NOT NULL,
+  samples INTEGER NOT NULL DEFAULT 0,
+  degraded INTEGER NOT NULL DEFAULT 0,
+  min_nic INTEGER,
+  min_nac_p INTEGER,
+  PRIMARY KEY (bucket, cell_lat, cell_lon)
+);
+
+-- Detected interference: cells where many aircraft lose integrity at once
+-- (integrity_loss), and single aircraft whose position jumps impossibly far (position_jump)
+CREATE TABLE IF NOT EXISTS interference_events (
+  id SERIAL PRIMARY KEY,
+  event_type VARCHAR(20) NOT NULL,
+  cell_lat DECIMAL(7, 3) NOT NULL,
+  cell_lon DECIMAL(7, 3) NOT NULL,
+  icao24 VARCHAR(7),
+  started_at TIMESTAMP NOT NULL,
+  last_seen_at TIMESTAMP NOT NULL,
+  peak_aircraft INTEGER NOT NULL DEFAULT 0,
+  peak_degraded INTEGER NOT NULL DEFAULT 0,
+  details JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_interference_events_last_seen ON interference_events(last_seen_at);
+CREATE INDEX IF NOT EXISTS idx_interference_events_cell ON interference_events(event_type, cell_lat, cell_lon, last_seen_at);
@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_positions_airspace;
+ALTER TABLE positions DROP COLUMN IF EXISTS airspace;
@@ -0,0 +1,3 @@
+-- Code of the airspace (from AIRSPACES_GEOJSON) each position falls in, NULL outside all of them
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS airspace VARCHAR(20);
+CREATE INDEX IF NOT EXISTS idx_positions_airspace ON positions(airspace, timestamp) WHERE airspace IS NOT NULL;
@@ -0,0 +1,25 @@
+-- Loitering and orbit patterns detected in aircraft position histories.
+-- A pattern keeps growing while re-analysis finds it still going on.
+CREATE TABLE IF NOT EXISTS patterns (
+  id SERIAL PRIMARY KEY,
+  icao24 VARCHAR(7) NOT NULL REFERENCES aircraft(icao24) ON DELETE CASCADE,
+  flight_id INTEGER REFERENCES flights(id) ON DELETE SET NULL,
+  pattern_type VARCHAR(20) NOT NULL,
+  callsign VARCHAR(20),
+  started_at TIMESTAMP NOT NULL,
+  ended_at TIMESTAMP NOT NULL,
+  centroid_latitude DECIMAL(10, 6) NOT NULL,
+  centroid_longitude DECIMAL(10, 6) NOT NULL,
+  radius_km DECIMAL(10, 2) NOT NULL,
+  laps INTEGER NOT NULL DEFAULT 0,
+  -- Bearing of a racetrack's long axis, 0-180 degrees
+  axis_bearing DECIMAL(5, 1),
+  path_km DECIMAL(10, 2) NOT NULL,
+  min_altitude DECIMAL(10, 2),
+  max_altitude DECIMAL(10, 2),
+  position_count INTEGER NOT NULL DEFAULT 0,
+  detected_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_patterns_icao24 ON patterns(icao24, ended_at);
+CREATE INDEX IF NOT EXISTS idx_patterns_ended_at ON patterns(ended_at);
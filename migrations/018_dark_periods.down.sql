@@ -0,0 +1 @@
+DROP TABLE IF EXISTS dark_periods;
@@ -0,0 +1,26 @@
+-- Gaps in an aircraft's position stream while it was airborne, from its last
+-- position before the gap to its first one after it
+CREATE TABLE IF NOT EXISTS dark_periods (
+  id SERIAL PRIMARY KEY,
+  icao24 VARCHAR(7) NOT NULL REFERENCES aircraft(icao24) ON DELETE CASCADE,
+  callsign VARCHAR(20),
+  started_at TIMESTAMP NOT NULL,
+  ended_at TIMESTAMP NOT NULL,
+  duration_seconds INTEGER NOT NULL,
+  last_latitude DECIMAL(10, 6) NOT NULL,
+  last_longitude DECIMAL(10, 6) NOT NULL,
+  last_altitude DECIMAL(10, 2),
+  first_latitude DECIMAL(10, 6) NOT NULL,
+  first_longitude DECIMAL(10, 6) NOT NULL,
+  first_altitude DECIMAL(10, 2),
+  distance_km DECIMAL(10, 2) NOT NULL,
+  implied_speed_knots DECIMAL(8, 1) NOT NULL,
+  -- Against the enabled coverage point circles when the gap was detected
+  last_in_coverage BOOLEAN NOT NULL,
+  first_in_coverage BOOLEAN NOT NULL,
+  within_coverage BOOLEAN NOT NULL,
+  detected_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dark_periods_icao24 ON dark_periods(icao24, started_at);
+CREATE INDEX IF NOT EXISTS idx_dark_periods_started_at ON dark_periods(started_at);
@@ -1,4 +1,10 @@
-import { Pool, QueryResult, QueryResultRow } from 'pg';
+import { Pool, PoolClient, QueryResult, QueryResultRow, types } from 'pg';
+import { Gauge, Histogram } from 'prom-client';
+
+// pg returns NUMERIC (DECIMAL columns, SUM, ROUND) and BIGINT (COUNT) as strings by default.
+// Every value we store fits a double, so parse them into the numbers the API documents.
+types.setTypeParser(types.builtins.NUMERIC, parseFloat);
+types.setTypeParser(types.builtins.INT8, (value) => parseInt(value, 10));
 
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
@@ -13,8 +19,74 @@ pool.on('error', (err) => {
   console.error('Unexpected error on idle client', err);
 });
 
-export const query = <T extends QueryResultRow = QueryResultRow>(text: string, params?: unknown[]): Promise<QueryResult<T>> => {
-  return pool.query<T>(text, params);
+const queryDuration = new Histogram({
+  name: 'airtracker_db_query_duration_seconds',
+  help: 'Latency of queries issued through the query wrapper',
+  labelNames: ['operation', 'status'],
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5]
+});
+
+new Gauge({
+  name: 'airtracker_db_pool_clients',
+  help: 'PostgreSQL pool clients by state',
+  labelNames: ['state'],
+  collect() {
+    this.set({ state: 'total' }, pool.totalCount);
+    this.set({ state: 'idle' }, pool.idleCount);
+    this.set({ state: 'waiting' }, pool.waitingCount);
+  }
+});
+
+/**
+ * Leading SQL keyword (SELECT, INSERT, WITH, ...) used as a low-cardinality metric label
+ */
+function operationOf(text: string): string {
+  return text.trimStart().split(/\s/, 1)[0].toUpperCase();
+}
+
+export const query = async <T extends QueryResultRow = QueryResultRow>(text: string, params?: unknown[]): Promise<QueryResult<T>> => {
+  const end = queryDuration.startTimer({ operation: operationOf(text) });
+  try {
+    const result = await pool.query<T>(text, params);
+    end({ status: 'ok' });
+    return result;
+  } catch (error) {
+    end({ status: 'error' });
+    throw error;
+  }
 };
 
+/**
+ * Run a callback inside a transaction on a dedicated pool client
+ */
+export async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Build the VALUES list of a multi-row INSERT, e.g. ($1, $2), ($3, $4)
+ */
+export function valuesList(rowCount: number, columnCount: number): string {
+  const rows: string[] = [];
+  for (let r = 0; r < rowCount; r++) {
+    const placeholders: string[] = [];
+    for (let c = 1; c <= columnCount; c++) {
+      placeholders.push(`$${r * columnCount + c}`);
+    }
+    rows.push(`(${placeholders.join(', ')})`);
+  }
+  return rows.join(', ');
+}
+
 export { pool };
@@ -1,77 +1,300 @@
-import { query } from './index';
+import 'dotenv/config';
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { PoolClient } from 'pg';
+import { pool } from './index';
 
-export async function migrate(): Promise<void> {
-  console.log('🔄 Running database migrations...');
+const MIGRATIONS_DIR = process.env.MIGRATIONS_DIR || path.join(__dirname, '../../migrations');
+
+// pg_advisory_lock key shared by every instance, so replicas booting together
+// apply migrations one at a time
+const MIGRATION_LOCK_KEY = 727274001;
+
+const FILE_PATTERN = /^(\d+)_([\w-]+)\.(up|down)\.sql$/;
+
+interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string | null;
+  checksum: string;
+}
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+  execution_ms: number | null;
+}
+
+interface MigrationStatus {
+  version: number;
+  name: string;
+  // changed: the up file no longer matches the checksum recorded when it was applied
+  // missing: applied, but the file is gone
+  state: 'applied' | 'pending' | 'changed' | 'missing';
+  applied_at: Date | null;
+}
+
+interface MigrateOptions {
+  dryRun?: boolean;
+}
+
+/**
+ * Read `<version>_<name>.up.sql` / `.down.sql` pairs from the migrations directory
+ * @returns migrations ordered by version
+ */
+function loadMigrations(): Migration[] {
+  const migrations = new Map<number, Migration>();
+
+  for (const file of readdirSync(MIGRATIONS_DIR).sort()) {
+    const match = FILE_PATTERN.exec(file);
+    if (!match) continue;
+
+    const version = parseInt(match[1]);
+    const sql = readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+    const migration = migrations.get(version) ?? { version, name: match[2], up: '', down: null, checksum: '' };
+    if (migration.name !== match[2]) {
+      throw new Error(`Migration version ${version} is used by both "${migration.name}" and "${match[2]}"`);
+    }
 
+    if (match[3] === 'up') {
+      migration.up = sql;
+      migration.checksum = createHash('sha256').update(sql).digest('hex');
+    } else {
+      migration.down = sql;
+    }
+    migrations.set(version, migration);
+  }
+
+  for (const migration of migrations.values()) {
+    if (!migration.up) throw new Error(`Migration ${migration.version}_${migration.name} has no up file`);
+  }
+  return Array.from(migrations.values()).sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Run a callback on a dedicated client holding the migration advisory lock
+ */
+async function withMigrationLock<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
   try {
-    // Create aircraft table
-    await query(`
-      CREATE TABLE IF NOT EXISTS aircraft (
-        id SERIAL PRIMARY KEY,
-        icao24 VARCHAR(6) UNIQUE NOT NULL,
-        callsign VARCHAR(20),
-        origin_country VARCHAR(100),
-        registration VARCHAR(20),
-        aircraft_type VARCHAR(50),
-        first_seen TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        last_seen TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        total_sightings INTEGER DEFAULT 1
-      );
-    `);
-    console.log('✅ Created aircraft table');
-
-    // Create positions table
-    await query(`
-      CREATE TABLE IF NOT EXISTS positions (
-        id SERIAL PRIMARY KEY,
-        icao24 VARCHAR(6) NOT NULL,
-        callsign VARCHAR(20),
-        latitude DECIMAL(10, 6),
-        longitude DECIMAL(10, 6),
-        altitude DECIMAL(10, 2),
-        velocity DECIMAL(10, 2),
-        heading DECIMAL(10, 2),
-        vertical_rate DECIMAL(10, 2),
-        on_ground BOOLEAN DEFAULT FALSE,
-        timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (icao24) REFERENCES aircraft(icao24) ON DELETE CASCADE
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name VARCHAR(255) NOT NULL,
+          checksum VARCHAR(64) NOT NULL,
+          applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          execution_ms INTEGER
+        );
+      `);
+      return await fn(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Load the applied migrations in version order
+ */
+async function getAppliedMigrations(client: PoolClient): Promise<AppliedMigration[]> {
+  const result = await client.query<AppliedMigration>('SELECT * FROM schema_migrations ORDER BY version ASC');
+  return result.rows;
+}
+
+/**
+ * Run a migration's SQL and its history table change in one transaction
+ * @returns execution time in milliseconds
+ */
+async function runStep(client: PoolClient, sql: string, historySql: string, historyParams: unknown[]): Promise<number> {
+  const started = Date.now();
+  await client.query('BEGIN');
+  try {
+    await client.query(sql);
+    await client.query(historySql, historyParams);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+  return Date.now() - started;
+}
+
+/**
+ * Compare migration files with the history table
+ */
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const migrations = loadMigrations();
+  const applied = await withMigrationLock(getAppliedMigrations);
+  const appliedByVersion = new Map(applied.map((m) => [m.version, m]));
+
+  const status: MigrationStatus[] = migrations.map((migration) => {
+    const record = appliedByVersion.get(migration.version);
+    if (!record) return { version: migration.version, name: migration.name, state: 'pending', applied_at: null };
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: record.checksum === migration.checksum ? 'applied' : 'changed',
+      applied_at: record.applied_at
+    };
+  });
+
+  for (const record of applied) {
+    if (!migrations.some((m) => m.version === record.version)) {
+      status.push({ version: record.version, name: record.name, state: 'missing', applied_at: record.applied_at });
+    }
+  }
+  return status.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Apply every pending migration in version order, each in its own transaction
+ * Refuses to run if an applied migration file was edited afterwards
+ * @returns the migrations applied (or that would be applied, for a dry run)
+ */
+export async function migrateUp(options: MigrateOptions = {}): Promise<string[]> {
+  const migrations = loadMigrations();
+
+  return withMigrationLock(async (client) => {
+    const applied = new Map((await getAppliedMigrations(client)).map((m) => [m.version, m]));
+
+    for (const migration of migrations) {
+      const record = applied.get(migration.version);
+      if (record && record.checksum !== migration.checksum) {
+        throw new Error(
+          `Migration ${migration.version}_${migration.name} was modified after it was applied; ` +
+          'add a new migration instead of editing an applied one'
+        );
+      }
+    }
+
+    const pending = migrations.filter((m) => !applied.has(m.version));
+
+    for (const migration of pending) {
+      const label = `${migration.version}_${migration.name}`;
+      if (options.dryRun) {
+        console.log(`-- [dry run] up ${label}\n${migration.up.trim()}\n`);
+        continue;
+      }
+
+      const executionMs = await runStep(
+        client,
+        migration.up,
+        `INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)`,
+        [migration.version, migration.name, migration.checksum]
       );
-    `);
-    console.log('✅ Created positions table');
-
-    // Create daily_stats table
-    await query(`
-      CREATE TABLE IF NOT EXISTS daily_stats (
-        id SERIAL PRIMARY KEY,
-        date DATE UNIQUE NOT NULL,
-        unique_aircraft INTEGER DEFAULT 0,
-        total_positions INTEGER DEFAULT 0,
-        military_count INTEGER DEFAULT 0,
-        civilian_count INTEGER DEFAULT 0,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      await client.query('UPDATE schema_migrations SET execution_ms = $2 WHERE version = $1', [migration.version, executionMs]);
+      console.log(`✅ Applied migration ${label} (${executionMs}ms)`);
+    }
+
+    return pending.map((m) => `${m.version}_${m.name}`);
+  });
+}
+
+/**
+ * Roll back the most recently applied migrations using their down files
+ * @returns the migrations rolled back (or that would be, for a dry run)
+ */
+export async function migrateDown(steps = 1, options: MigrateOptions = {}): Promise<string[]> {
+  const migrations = new Map(loadMigrations().map((m) => [m.version, m]));
+
+  return withMigrationLock(async (client) => {
+    const targets = (await getAppliedMigrations(client)).reverse().slice(0, steps);
+    const names: string[] = [];
+
+    for (const record of targets) {
+      const label = `${record.version}_${record.name}`;
+      const migration = migrations.get(record.version);
+      if (!migration?.down) {
+        throw new Error(`Migration ${label} has no down file`);
+      }
+
+      names.push(label);
+      if (options.dryRun) {
+        console.log(`-- [dry run] down ${label}\n${migration.down.trim()}\n`);
+        continue;
+      }
+
+      const executionMs = await runStep(
+        client,
+        migration.down,
+        'DELETE FROM schema_migrations WHERE version = $1',
+        [record.version]
       );
-    `);
-    console.log('✅ Created daily_stats table');
-
-    // Create indexes
-    await query(`
-      CREATE INDEX IF NOT EXISTS idx_positions_icao24 ON positions(icao24);
-      CREATE INDEX IF NOT EXISTS idx_positions_timestamp ON positions(timestamp);
-      CREATE INDEX IF NOT EXISTS idx_aircraft_last_seen ON aircraft(last_seen);
-    `);
-    console.log('✅ Created indexes');
-
-    console.log('✅ All migrations completed successfully');
+      console.log(`↩️ Rolled back migration ${label} (${executionMs}ms)`);
+    }
+
+    return names;
+  });
+}
+
+/**
+ * Apply pending migrations on startup
+ */
+export async function migrate(): Promise<void> {
+  console.log('🔄 Running database migrations...');
+
+  try {
+    const applied = await migrateUp();
+    console.log(applied.length > 0
+      ? `✅ Applied ${applied.length} migrations`
+      : '✅ Database schema is up to date');
   } catch (error) {
     console.error('❌ Migration error:', (error as Error).message);
     throw error;
   }
 }
 
+/**
+ * Command line entry point
+ * Usage: npm run db:migrate -- [up|down|status] [--steps N] [--dry-run]
+ */
+async function runCli(args: string[]): Promise<void> {
+  const command = args.find((arg) => !arg.startsWith('--') && !/^\d+$/.test(arg)) ?? 'up';
+  const dryRun = args.includes('--dry-run');
+  const stepsIndex = args.indexOf('--steps');
+  const steps = stepsIndex >= 0 ? parseInt(args[stepsIndex + 1]) : 1;
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrateUp({ dryRun });
+      if (applied.length === 0) console.log('✅ Database schema is up to date');
+      else if (dryRun) console.log(`Would apply ${applied.length} migrations: ${applied.join(', ')}`);
+      break;
+    }
+    case 'down': {
+      if (isNaN(steps) || steps < 1) throw new Error('--steps must be a positive integer');
+      const rolledBack = await migrateDown(steps, { dryRun });
+      if (rolledBack.length === 0) console.log('Nothing to roll back');
+      else if (dryRun) console.log(`Would roll back ${rolledBack.length} migrations: ${rolledBack.join(', ')}`);
+      break;
+    }
+    case 'status': {
+      for (const entry of await getMigrationStatus()) {
+        const appliedAt = entry.applied_at ? new Date(entry.applied_at).toISOString() : '';
+        console.log(`${String(entry.version).padStart(3, '0')}  ${entry.state.padEnd(8)} ${entry.name.padEnd(32)} ${appliedAt}`);
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}" (expected up, down or status)`);
+  }
+}
+
 // Run migrations if called directly
 if (require.main === module) {
-  require('dotenv').config({ path: '../.env' });
-  migrate()
+  runCli(process.argv.slice(2))
+    .then(() => pool.end())
     .then(() => process.exit(0))
-    .catch(() => process.exit(1));
+    .catch((error) => {
+      console.error('❌ Migration error:', (error as Error).message);
+      process.exit(1);
+    });
 }
@@ -5,12 +5,44 @@ import cron from 'node-cron';
 
 import { query } from './db';
 import { migrate } from './db/migrate';
+import adminRoutes from './routes/admin';
 import aircraftRoutes from './routes/aircraft';
+import airspaceRoutes from './routes/airspace';
+import eventRoutes from './routes/events';
+import flightRoutes from './routes/flights';
+import geofenceRoutes from './routes/geofences';
+import interferenceRoutes from './routes/interference';
+import notificationRoutes from './routes/notifications';
+import patternRoutes from './routes/patterns';
+import snapshotRoutes from './routes/snapshot';
 import statsRoutes from './routes/stats';
+import watchlistRoutes from './routes/watchlists';
+import { AIRSPACES_GEOJSON, getAirspaces } from './services/airspace';
+import { auditLog, authenticate, requireRole } from './services/auth';
+import { httpMetrics, metricsHandler } from './services/metrics';
+import { buildOpenApiDocument } from './services/openapi';
+import { processDeliveryQueue } from './services/notifications';
+import { analyzePatterns } from './services/patterns';
+import { applyRetentionPolicy } from './services/retention';
+import { publishLiveUpdate } from './services/stream';
 import { fetchAndStoreRussianAircraft } from './services/tracker';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
+const IMPORT_BODY_LIMIT = process.env.IMPORT_BODY_LIMIT || '20mb';
+
+/**
+ * Express `trust proxy` setting from TRUST_PROXY: true/false, a hop count, or
+ * addresses/subnets. Railway puts one proxy in front of the app, so trust one hop there.
+ */
+function trustProxySetting(): boolean | number | string {
+  const value = process.env.TRUST_PROXY ?? (process.env.RAILWAY_ENVIRONMENT ? '1' : 'false');
+  if (value === 'true' || value === 'false') return value === 'true';
+  return /^\d+$/.test(value) ? parseInt(value) : value;
+}
+
+// Anonymous rate limits and the audit log key on req.ip, which must be the client's, not the proxy's
+app.set('trust proxy', trustProxySetting());
 
 // Middleware
 app.use(
@@ -18,6 +50,17 @@ app.use(
     origin: process.env.CORS_ORIGIN || '*'
   })
 );
+app.use(httpMetrics);
+// Audit first so rejected calls to mutating endpoints are recorded too
+app.use(auditLog);
+app.use(authenticate);
+// Registry imports are far larger than other request bodies; only admins get the higher limit
+app.use(
+  '/api/admin/military/import',
+  requireRole('admin'),
+  express.json({ limit: IMPORT_BODY_LIMIT }),
+  express.text({ type: 'text/csv', limit: IMPORT_BODY_LIMIT })
+);
 app.use(express.json());
 
 // Health check endpoint (required for Railway)
@@ -25,9 +68,40 @@ app.get('/health', (_req: Request, res: Response) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Prometheus metrics
+app.get('/metrics', metricsHandler);
+
 // API Routes
-app.use('/api/aircraft', aircraftRoutes);
-app.use('/api/stats', statsRoutes);
+// Reads need read_only (anonymous unless ANONYMOUS_READ_ACCESS=false); writes are
+// guarded per route. Notification targets hold addresses and secrets, so even
+// reading them needs analyst.
+app.use('/api/admin', adminRoutes);
+app.use('/api/aircraft', requireRole('read_only'), aircraftRoutes);
+app.use('/api/airspace', requireRole('read_only'), airspaceRoutes);
+app.use('/api/events', requireRole('read_only'), eventRoutes);
+app.use('/api/flights', requireRole('read_only'), flightRoutes);
+app.use('/api/geofences', requireRole('read_only'), geofenceRoutes);
+app.use('/api/interference', requireRole('read_only'), interferenceRoutes);
+app.use('/api/notifications', requireRole('analyst'), notificationRoutes);
+app.use('/api/patterns', requireRole('read_only'), patternRoutes);
+app.use('/api/snapshot', requireRole('read_only'), snapshotRoutes);
+app.use('/api/stats', requireRole('read_only'), statsRoutes);
+app.use('/api/watchlists', requireRole('read_only'), watchlistRoutes);
+
+// OpenAPI document generated from the route validation schemas
+const openApiDocument = buildOpenApiDocument([
+  { path: '/api/aircraft', tag: 'aircraft', router: aircraftRoutes },
+  { path: '/api/snapshot', tag: 'snapshot', router: snapshotRoutes },
+  { path: '/api/flights', tag: 'flights', router: flightRoutes },
+  { path: '/api/events', tag: 'events', router: eventRoutes },
+  { path: '/api/interference', tag: 'interference', router: interferenceRoutes },
+  { path: '/api/airspace', tag: 'airspace', router: airspaceRoutes },
+  { path: '/api/patterns', tag: 'patterns', router: patternRoutes },
+  { path: '/api/stats', tag: 'stats', router: statsRoutes }
+]);
+app.get('/api/openapi.json', (_req: Request, res: Response) => {
+  res.json(openApiDocument);
+});
 
 // Root endpoint
 app.get('/', (_req: Request, res: Response) => {
@@ -36,16 +110,62 @@ app.get('/', (_req: Request, res: Response) => {
     version: '1.0.0',
     endpoints: {
       health: '/health',
+      metrics: '/metrics',
+      openapi: '/api/openapi.json',
       aircraft: '/api/aircraft',
       liveAircraft: '/api/aircraft/live',
+      liveStream: '/api/aircraft/live/stream',
       tracks: '/api/aircraft/tracks',
       aircraftHistory: '/api/aircraft/:icao24/history',
+      aircraftFlights: '/api/aircraft/:icao24/flights',
+      aircraftDarkPeriods: '/api/aircraft/:icao24/dark-periods',
+      airspaces: '/api/airspace',
+      airspaceIncursions: '/api/airspace/:code/incursions',
+      borderProximity: '/api/airspace/proximity',
+      flights: '/api/flights',
+      emergencies: '/api/events/emergencies',
+      darkPeriods: '/api/events/dark-periods',
+      geofences: '/api/geofences',
+      interferenceHeatmap: '/api/interference/heatmap',
+      interferenceEvents: '/api/interference/events',
+      notifications: '/api/notifications/subscriptions',
+      notificationDeliveries: '/api/notifications/deliveries',
+      patterns: '/api/patterns',
+      snapshot: '/api/snapshot',
+      replay: '/api/snapshot/replay',
       stats: '/api/stats',
-      dailyStats: '/api/stats/daily'
+      dailyStats: '/api/stats/daily',
+      watchlists: '/api/watchlists',
+      sourceHealth: '/api/admin/sources',
+      coverage: '/api/admin/coverage',
+      militaryRegistry: '/api/admin/military',
+      apiKeys: '/api/admin/keys',
+      auditLog: '/api/admin/audit'
     }
   });
 });
 
+let ingesting = false;
+
+/**
+ * Fetch, store and publish one cycle, skipped while the previous one is still running
+ * Slow sources can push a cycle past the 30-second schedule; overlapping cycles would
+ * race in flight segmentation and the per-cycle detectors
+ */
+async function runIngestionCycle(): Promise<void> {
+  if (ingesting) {
+    console.warn('⏭️ Previous aircraft fetch still running, skipping this cycle');
+    return;
+  }
+  ingesting = true;
+  try {
+    await fetchAndStoreRussianAircraft();
+    await publishLiveUpdate();
+  } finally {
+    ingesting = false;
+  }
+}
+
 // Initialize database and start server
 async function startServer(): Promise<void> {
   try {
@@ -56,26 +176,58 @@ async function startServer(): Promise<void> {
     // Run migrations
     await migrate();
 
+    // Boundaries are optional, but without them positions are left untagged; say so up front
+    if (getAirspaces().length === 0) {
+      console.warn(`⚠️ No airspace boundaries loaded from ${AIRSPACES_GEOJSON}; positions won't be tagged`);
+    }
+
     // Start the server
     app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
-      console.log(`📡 Tracking Russian aircraft...`);
+      console.log(`📡 Tracking watchlisted aircraft...`);
     });
 
     // Schedule aircraft tracking every 30 seconds
     cron.schedule('*/30 * * * * *', async () => {
       try {
-        await fetchAndStoreRussianAircraft();
+        await runIngestionCycle();
       } catch (error) {
         console.error('Error in scheduled fetch:', (error as Error).message);
       }
     });
 
+    // Deliver queued notifications every 10 seconds
+    cron.schedule('*/10 * * * * *', async () => {
+      try {
+        await processDeliveryQueue();
+      } catch (error) {
+        console.error('Error delivering notifications:', (error as Error).message);
+      }
+    });
+
+    // Look for orbits and loitering in recent histories every 5 minutes
+    cron.schedule('*/5 * * * *', async () => {
+      try {
+        await analyzePatterns();
+      } catch (error) {
+        console.error('Error analyzing flight patterns:', (error as Error).message);
+      }
+    });
+
+    // Downsample and expire old positions every 10 minutes
+    cron.schedule('*/10 * * * *', async () => {
+      try {
+        await applyRetentionPolicy();
+      } catch (error) {
+        console.error('Error applying retention policy:', (error as Error).message);
+      }
+    });
+
     // Initial fetch on startup
     setTimeout(async () => {
       try {
         console.log('🔄 Running initial aircraft fetch...');
-        await fetchAndStoreRussianAircraft();
+        await runIngestionCycle();
       } catch (error) {
         console.error('Initial fetch error:', (error as Error).message);
       }
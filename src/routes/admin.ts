@@ -0,0 +1,612 @@
+import { Request, Response, Router } from 'express';
+import { query } from '../db';
+import { reloadAirspaces, tagPositions } from '../services/airspace';
+import { API_KEY_ROLES, clearApiKeyCache, generateApiKey } from '../services/apiKeys';
+import { requireRole } from '../services/auth';
+import { getCoveragePoints, getCoverageReport } from '../services/coverage';
+import { enrichAircraft } from '../services/enrichment';
+import {
+  addMilitaryEntry,
+  importMilitaryEntries,
+  normalizeMilitaryEntry,
+  parseMilitaryImport,
+  removeMilitaryEntry
+} from '../services/military';
+import { getConfiguredSources } from '../services/sources';
+import { coveragePointKey } from '../services/sources/adsbone';
+import { getHealth } from '../services/sources/health';
+import { defineRoute, getValidated, validate } from '../services/validation';
+import { ApiKey, ApiKeyRole, AuditLogEntry, CoveragePoint, MilitaryRegistryEntry, SourceHealth } from '../types';
+
+const router = Router();
+
+router.use(requireRole('admin'));
+
+const coverageReportSchema = defineRoute({
+  summary: 'Coverage point contribution, overlaps and abrupt track start/end cells',
+  query: {
+    hours: { type: 'integer', minimum: 1, maximum: 168, default: 24 },
+    grid: { type: 'number', minimum: 0.01, maximum: 10, default: 1, description: 'Cell size in degrees' }
+  }
+});
+
+interface CoveragePointInput {
+  label?: string;
+  latitude?: number;
+  longitude?: number;
+  radius_nm?: number;
+  enabled?: boolean;
+}
+
+interface ApiKeyInput {
+  name?: string;
+  role?: ApiKeyRole;
+  rate_limit_per_minute?: number | null;
+  enabled?: boolean;
+}
+
+const API_KEY_COLUMNS = 'id, name, key_prefix, role, rate_limit_per_minute, enabled, created_at, last_used_at';
+
+/**
+ * Summarize a health record as ok / failing / unknown
+ */
+function healthStatus(health: SourceHealth | null): string {
+  if (!health) return 'unknown';
+  return health.error_streak > 0 ? 'failing' : 'ok';
+}
+
+/**
+ * Validate a coverage point request body
+ * @returns an error message, or null if the body is valid
+ */
+function validateCoveragePoint(body: CoveragePointInput, partial: boolean): string | null {
+  if (!partial || body.label !== undefined) {
+    if (typeof body.label !== 'string' || body.label.trim() === '') return 'label is required';
+  }
+  if (!partial || body.latitude !== undefined) {
+    if (typeof body.latitude !== 'number' || Math.abs(body.latitude) > 90) return 'latitude must be between -90 and 90';
+  }
+  if (!partial || body.longitude !== undefined) {
+    if (typeof body.longitude !== 'number' || Math.abs(body.longitude) > 180) {
+      return 'longitude must be between -180 and 180';
+    }
+  }
+  // ADSB.one serves point queries up to 250 NM
+  if (body.radius_nm !== undefined) {
+    if (!Number.isInteger(body.radius_nm) || body.radius_nm < 1 || body.radius_nm > 250) {
+      return 'radius_nm must be an integer between 1 and 250';
+    }
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') return 'enabled must be a boolean';
+  return null;
+}
+
+/**
+ * Validate an API key request body
+ * @returns an error message, or null if the body is valid
+ */
+function validateApiKey(body: ApiKeyInput, partial: boolean): string | null {
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') return 'name is required';
+  }
+  if (!partial || body.role !== undefined) {
+    if (!API_KEY_ROLES.includes(body.role as ApiKeyRole)) return `role must be one of: ${API_KEY_ROLES.join(', ')}`;
+  }
+  if (body.rate_limit_per_minute != null) {
+    if (!Number.isInteger(body.rate_limit_per_minute) || body.rate_limit_per_minute < 1) {
+      return 'rate_limit_per_minute must be a positive integer';
+    }
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') return 'enabled must be a boolean';
+  return null;
+}
+
+/**
+ * GET /api/admin/sources
+ * Health of the configured data sources and of every ADSBone coverage point:
+ * last success, error streak (and since when), latency and aircraft yielded
+ */
+router.get('/sources', async (_req: Request, res: Response) => {
+  try {
+    const sources = getConfiguredSources().map((source) => {
+      const health = getHealth(source.name);
+      return { name: source.name, status: healthStatus(health), health };
+    });
+
+    const points = await getCoveragePoints();
+    const coveragePoints = points.map((point) => {
+      const health = point.enabled ? getHealth(coveragePointKey(point)) : null;
+      return { ...point, status: point.enabled ? healthStatus(health) : 'disabled', health };
+    });
+
+    res.json({
+      timestamp: new Date().toISOString(),
+      sources,
+      coverage_points: coveragePoints
+    });
+  } catch (error) {
+    console.error('Error fetching source health:', error);
+    res.status(500).json({ error: 'Failed to fetch source health' });
+  }
+});
+
+/**
+ * GET /api/admin/coverage
+ * List ADSBone coverage points
+ */
+router.get('/coverage', async (_req: Request, res: Response) => {
+  try {
+    const points = await getCoveragePoints();
+
+    res.json({
+      count: points.length,
+      coverage_points: points
+    });
+  } catch (error) {
+    console.error('Error fetching coverage points:', error);
+    res.status(500).json({ error: 'Failed to fetch coverage points' });
+  }
+});
+
+/**
+ * GET /api/admin/coverage/report
+ * Per-point contribution, redundant overlaps and grid cells where tracks start or end abruptly
+ * Optional query params: hours (default 24), grid (cell size in degrees, default 1)
+ */
+router.get('/coverage/report', validate(coverageReportSchema), async (_req: Request, res: Response) => {
+  try {
+    const { hours, grid } = getValidated(res, coverageReportSchema).query;
+
+    const report = await getCoverageReport(hours, grid);
+
+    res.json(report);
+  } catch (error) {
+    console.error('Error building coverage report:', error);
+    res.status(500).json({ error: 'Failed to build coverage report' });
+  }
+});
+
+/**
+ * POST /api/admin/coverage
+ * Add a coverage point
+ */
+router.post('/coverage', async (req: Request, res: Response) => {
+  try {
+    const body: CoveragePointInput = req.body ?? {};
+    const validationError = validateCoveragePoint(body, false);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const result = await query<CoveragePoint>(
+      `INSERT INTO coverage_points (label, latitude, longitude, radius_nm, enabled)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [body.label!.trim(), body.latitude, body.longitude, body.radius_nm ?? 250, body.enabled ?? true]
+    );
+
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    if ((error as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'A coverage point with this label already exists' });
+    }
+    console.error('Error creating coverage point:', error);
+    res.status(500).json({ error: 'Failed to create coverage point' });
+  }
+});
+
+/**
+ * PUT /api/admin/coverage/:id
+ * Update a coverage point, only the provided fields are changed
+ */
+router.put('/coverage/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid coverage point id' });
+    }
+
+    const body: CoveragePointInput = req.body ?? {};
+    const validationError = validateCoveragePoint(body, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const result = await query<CoveragePoint>(
+      `UPDATE coverage_points SET
+         label = COALESCE($2, label),
+         latitude = COALESCE($3, latitude),
+         longitude = COALESCE($4, longitude),
+         radius_nm = COALESCE($5, radius_nm),
+         enabled = COALESCE($6, enabled),
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING *`,
+      [id, body.label?.trim() ?? null, body.latitude ?? null, body.longitude ?? null, body.radius_nm ?? null, body.enabled ?? null]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Coverage point not found' });
+    }
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    if ((error as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'A coverage point with this label already exists' });
+    }
+    console.error('Error updating coverage point:', error);
+    res.status(500).json({ error: 'Failed to update coverage point' });
+  }
+});
+
+/**
+ * DELETE /api/admin/coverage/:id
+ * Delete a coverage point and its sightings
+ */
+router.delete('/coverage/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid coverage point id' });
+    }
+
+    const result = await query('DELETE FROM coverage_points WHERE id = $1', [id]);
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Coverage point not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting coverage point:', error);
+    res.status(500).json({ error: 'Failed to delete coverage point' });
+  }
+});
+
+/**
+ * GET /api/admin/keys
+ * List API keys (hashes are never returned)
+ */
+router.get('/keys', async (_req: Request, res: Response) => {
+  try {
+    const result = await query<ApiKey>(`SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY id ASC`);
+
+    res.json({
+      count: result.rows.length,
+      keys: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    res.status(500).json({ error: 'Failed to fetch API keys' });
+  }
+});
+
+/**
+ * POST /api/admin/keys
+ * Create an API key; the plaintext key is only returned in this response
+ */
+router.post('/keys', async (req: Request, res: Response) => {
+  try {
+    const body = req.body as ApiKeyInput;
+    const validationError = validateApiKey(body, false);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { key, hash, prefix } = generateApiKey();
+    const result = await query<ApiKey>(
+      `INSERT INTO api_keys (name, key_prefix, key_hash, role, rate_limit_per_minute)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING ${API_KEY_COLUMNS}`,
+      [body.name!.trim(), prefix, hash, body.role, body.rate_limit_per_minute ?? null]
+    );
+
+    res.status(201).json({ ...result.rows[0], key });
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    res.status(500).json({ error: 'Failed to create API key' });
+  }
+});
+
+/**
+ * PATCH /api/admin/keys/:id
+ * Rename a key, change its role or rate limit, or disable it
+ */
+router.patch('/keys/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid API key id' });
+    }
+
+    const body = req.body as ApiKeyInput;
+    const validationError = validateApiKey(body, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const result = await query<ApiKey>(
+      `UPDATE api_keys SET
+         name = COALESCE($2, name),
+         role = COALESCE($3, role),
+         rate_limit_per_minute = CASE WHEN $4::BOOLEAN THEN $5 ELSE rate_limit_per_minute END,
+         enabled = COALESCE($6, enabled)
+       WHERE id = $1
+       RETURNING ${API_KEY_COLUMNS}`,
+      [
+        id,
+        body.name?.trim() ?? null,
+        body.role ?? null,
+        body.rate_limit_per_minute !== undefined,
+        body.rate_limit_per_minute ?? null,
+        body.enabled ?? null
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    clearApiKeyCache();
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('Error updating API key:', error);
+    res.status(500).json({ error: 'Failed to update API key' });
+  }
+});
+
+/**
+ * DELETE /api/admin/keys/:id
+ * Revoke an API key; its audit log entries keep the key name
+ */
+router.delete('/keys/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid API key id' });
+    }
+
+    const result = await query('DELETE FROM api_keys WHERE id = $1', [id]);
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    clearApiKeyCache();
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    res.status(500).json({ error: 'Failed to revoke API key' });
+  }
+});
+
+/**
+ * GET /api/admin/audit
+ * Recent calls to mutating endpoints, newest first
+ * Optional query params: limit (default 100, max 1000), key_id
+ */
+router.get('/audit', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+    const keyId = req.query.key_id ? parseInt(req.query.key_id as string) : null;
+    if (keyId !== null && isNaN(keyId)) {
+      return res.status(400).json({ error: 'Invalid key_id' });
+    }
+
+    const result = await query<AuditLogEntry>(
+      `SELECT * FROM audit_log
+       WHERE ($1::INTEGER IS NULL OR api_key_id = $1)
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [keyId, limit]
+    );
+
+    res.json({
+      count: result.rows.length,
+      entries: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    res.status(500).json({ error: 'Failed to fetch audit log' });
+  }
+});
+
+/**
+ * GET /api/admin/enrichment
+ * Offline aircraft database contents per source and how many tracked aircraft are enriched
+ */
+router.get('/enrichment', async (_req: Request, res: Response) => {
+  try {
+    const sources = await query<{ source: string; records: number; last_imported_at: Date }>(
+      `SELECT source, COUNT(*) as records, MAX(imported_at) as last_imported_at
+       FROM aircraft_database
+       GROUP BY source
+       ORDER BY last_imported_at DESC`
+    );
+    const aircraft = await query<{ total: number; enriched: number; last_enriched_at: Date | null }>(
+      `SELECT COUNT(*) as total, COUNT(enriched_at) as enriched, MAX(enriched_at) as last_enriched_at
+       FROM aircraft`
+    );
+    const { total, enriched, last_enriched_at } = aircraft.rows[0];
+
+    res.json({
+      sources: sources.rows,
+      aircraft: {
+        total,
+        enriched,
+        last_enriched_at
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching enrichment status:', error);
+    res.status(500).json({ error: 'Failed to fetch enrichment status' });
+  }
+});
+
+/**
+ * POST /api/admin/enrichment/run
+ * Re-enrich every tracked aircraft from the aircraft database
+ */
+router.post('/enrichment/run', async (_req: Request, res: Response) => {
+  try {
+    const started = Date.now();
+    const enriched = await enrichAircraft();
+
+    res.json({
+      aircraft_enriched: enriched,
+      duration_ms: Date.now() - started
+    });
+  } catch (error) {
+    console.error('Error re-enriching aircraft:', error);
+    res.status(500).json({ error: 'Failed to re-enrich aircraft' });
+  }
+});
+
+/**
+ * POST /api/admin/airspaces/reload
+ * Re-read the airspace boundary file and re-tag recent positions
+ * Optional query params: retag_hours (default 24, 0 to skip re-tagging)
+ */
+router.post('/airspaces/reload', async (req: Request, res: Response) => {
+  try {
+    const started = Date.now();
+    const retagHours = parseInt(req.query.retag_hours as string);
+    const hours = Number.isNaN(retagHours) ? 24 : Math.max(retagHours, 0);
+
+    const airspaces = reloadAirspaces();
+    const positionsRetagged = hours > 0 ? await tagPositions(hours) : 0;
+
+    res.json({
+      airspaces_loaded: airspaces,
+      positions_retagged: positionsRetagged,
+      duration_ms: Date.now() - started
+    });
+  } catch (error) {
+    console.error('Error reloading airspaces:', error);
+    res.status(500).json({ error: 'Failed to reload airspaces' });
+  }
+});
+
+/**
+ * GET /api/admin/military
+ * List military registry entries
+ * Optional query params: search (hex, operator, branch or type), source, limit (default 100), offset
+ */
+router.get('/military', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+    const offset = parseInt(req.query.offset as string) || 0;
+    const { search, source } = req.query;
+
+    const params: unknown[] = [];
+    const conditions: string[] = [];
+    if (typeof search === 'string' && search !== '') {
+      params.push(`%${search}%`);
+      conditions.push(
+        `(hex ILIKE $${params.length} OR operator ILIKE $${params.length} ` +
+        `OR branch ILIKE $${params.length} OR aircraft_type ILIKE $${params.length})`
+      );
+    }
+    if (typeof source === 'string' && source !== '') {
+      params.push(source);
+      conditions.push(`source = $${params.length}`);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const total = await query<{ total: number }>(`SELECT COUNT(*) as total FROM military_registry ${where}`, params);
+    params.push(limit, offset);
+    const result = await query<MilitaryRegistryEntry>(
+      `SELECT * FROM military_registry
+       ${where}
+       ORDER BY hex ASC
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+
+    res.json({
+      total: total.rows[0].total,
+      count: result.rows.length,
+      entries: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching military registry:', error);
+    res.status(500).json({ error: 'Failed to fetch military registry' });
+  }
+});
+
+/**
+ * POST /api/admin/military
+ * Add one address to the military registry (hex, operator, branch, aircraft_type, source)
+ * source defaults to "manual"; added_by records the calling API key
+ */
+router.post('/military', async (req: Request, res: Response) => {
+  try {
+    const normalized = normalizeMilitaryEntry(req.body);
+    if ('error' in normalized) {
+      return res.status(400).json({ error: normalized.error });
+    }
+    const source = typeof req.body.source === 'string' && req.body.source.trim() !== '' ? req.body.source.trim() : 'manual';
+    if (source.length > 100) {
+      return res.status(400).json({ error: 'source longer than 100 characters' });
+    }
+
+    const entry = await addMilitaryEntry(normalized.entry, source, req.apiKey?.name ?? null);
+
+    res.status(201).json(entry);
+  } catch (error) {
+    if ((error as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'This address is already in the military registry' });
+    }
+    console.error('Error adding military registry entry:', error);
+    res.status(500).json({ error: 'Failed to add military registry entry' });
+  }
+});
+
+/**
+ * POST /api/admin/military/import?source=<name>
+ * Bulk import into the military registry. Send JSON (an array of entries or
+ * { entries: [...] }) or CSV with a header row as text/csv. Columns: hex (or icao24),
+ * operator (or ownop), branch, type (or aircraft_type, icaotype).
+ * Existing entries are updated; invalid ones are skipped and reported.
+ */
+router.post('/military/import', async (req: Request, res: Response) => {
+  try {
+    const source = typeof req.query.source === 'string' ? req.query.source.trim() : '';
+    if (source === '' || source.length > 100) {
+      return res.status(400).json({ error: 'source is required (at most 100 characters)' });
+    }
+
+    const parsed = parseMilitaryImport(req.body, req.is('text/csv') ? 'csv' : 'json');
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const result = await importMilitaryEntries(parsed.records, source, req.apiKey?.name ?? null);
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error importing military registry:', error);
+    res.status(500).json({ error: 'Failed to import military registry' });
+  }
+});
+
+/**
+ * DELETE /api/admin/military/:hex
+ * Remove an address from the military registry; the aircraft is no longer flagged
+ */
+router.delete('/military/:hex', async (req: Request, res: Response) => {
+  try {
+    const removed = await removeMilitaryEntry(req.params.hex.toLowerCase());
+
+    if (!removed) {
+      return res.status(404).json({ error: 'Address not in military registry' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error removing military registry entry:', error);
+    res.status(500).json({ error: 'Failed to remove military registry entry' });
+  }
+});
+
+export default router;
@@ -1,18 +1,371 @@
 import { Request, Response, Router } from 'express';
 import { query } from '../db';
-import { getAircraftHistory, getAllTracksLast24h, getLiveAircraft, isMilitary } from '../services/tracker';
-import { Aircraft } from '../types';
+import { requireRole } from '../services/auth';
+import { getDarkPeriods } from '../services/darkPeriods';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  ExportTrack,
+  setExportHeaders,
+  streamCsv,
+  toGeoJsonCollection,
+  toGeoJsonFeature,
+  toGpx,
+  toKml
+} from '../services/export';
+import { getFlightPositions, getFlightRoutes } from '../services/flights';
+import { decodeIcao24, formatIcaoAddress, getCountryAddressRanges, withDecodedCountry } from '../services/icao';
+import { RETENTION_DOWNSAMPLED_DAYS } from '../services/retention';
+import { addStreamClient } from '../services/stream';
+import {
+  getAircraftHistory,
+  getAllTracksLast24h,
+  getLiveAircraft,
+  iterateAircraftHistory,
+  iterateTracksLast24h
+} from '../services/tracker';
+import { defineRoute, getValidated, sendValidationError, validate } from '../services/validation';
+import { Aircraft, Flight, GeofenceEvent, StreamFilter } from '../types';
 
 const router = Router();
 
+// Positions older than the downsampled tier are gone, so history can't reach further back
+const MAX_HISTORY_HOURS = Math.ceil(RETENTION_DOWNSAMPLED_DAYS * 24);
+
+const icao24Param = {
+  icao24: { type: 'string', pattern: '^~?[0-9a-fA-F]{6}$', description: 'ICAO 24-bit address (`~` prefix for non-ICAO)' }
+} as const;
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+/**
+ * SQL condition matching icao24 against the hex blocks a country owns, minus
+ * narrower blocks of other countries nested inside them
+ * Pushes the block bounds onto params
+ * @returns the condition, or null if the country is unknown
+ */
+function countryAddressCondition(country: string, params: unknown[]): string | null {
+  const { include, exclude } = getCountryAddressRanges(country);
+  if (include.length === 0) return null;
+
+  const rangeSql = (blocks: typeof include) =>
+    blocks.map((block) => {
+      params.push(formatIcaoAddress(block.from), formatIcaoAddress(block.to));
+      return `LOWER(icao24) BETWEEN $${params.length - 1} AND $${params.length}`;
+    }).join(' OR ');
+  const condition = `(${rangeSql(include)})`;
+  return exclude.length > 0 ? `${condition} AND NOT (${rangeSql(exclude)})` : condition;
+}
+
+const exportFormatParam = {
+  type: 'string',
+  enum: ['json', ...EXPORT_FORMATS],
+  default: 'json',
+  description: 'json, or geojson, kml, gpx or csv for an export (csv is streamed)'
+} as const;
+
+const listAircraftSchema = defineRoute({
+  summary: 'List tracked aircraft',
+  query: {
+    limit: { type: 'integer', minimum: 1, maximum: 1000, default: 100 },
+    offset: { type: 'integer', minimum: 0, default: 0 },
+    military: { type: 'boolean' },
+    watchlist: { type: 'integer', minimum: 1, description: 'Watchlist id' },
+    country: { type: 'string', description: 'Country name or ISO code' },
+    group_by: { type: 'string', enum: ['country'], description: 'Return per-country counts instead of aircraft' }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      count: { type: 'integer' },
+      aircraft: { type: 'array', items: ref('Aircraft') },
+      countries: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            country: { type: ['string', 'null'] },
+            country_code: { type: ['string', 'null'] },
+            aircraft_count: { type: 'integer' }
+          }
+        }
+      }
+    }
+  }
+});
+
+const liveAircraftSchema = defineRoute({
+  summary: 'Currently active tracked aircraft',
+  response: {
+    type: 'object',
+    properties: {
+      timestamp: { type: 'string', format: 'date-time' },
+      count: { type: 'integer' },
+      aircraft: { type: 'array', items: ref('LiveAircraft') }
+    }
+  }
+});
+
+const liveStreamSchema = defineRoute({
+  summary: 'Server-Sent Events stream of live aircraft',
+  description: 'Sends a `snapshot` event on connect, a `diff` after every ingestion cycle and a periodic `status`.',
+  query: {
+    bbox: {
+      type: 'string',
+      pattern: '^-?[\\d.]+,-?[\\d.]+,-?[\\d.]+,-?[\\d.]+$',
+      description: 'minLat,minLon,maxLat,maxLon'
+    },
+    military: { type: 'boolean', default: false }
+  },
+  response: { type: 'string' },
+  responseType: 'text/event-stream'
+});
+
+const tracksSchema = defineRoute({
+  summary: 'Tracks of all aircraft seen in the last 24 hours',
+  description: 'lat, lon and radius filter to aircraft near a center point and must be given together.',
+  query: {
+    lat: { type: 'number', minimum: -90, maximum: 90 },
+    lon: { type: 'number', minimum: -180, maximum: 180 },
+    radius: { type: 'number', minimum: 0, maximum: 20000, description: 'Kilometers' },
+    format: {
+      ...exportFormatParam,
+      description: 'json, or a geojson FeatureCollection, a kml folder per aircraft, gpx or streamed csv'
+    }
+  },
+  alternateResponseTypes: Object.values(EXPORT_CONTENT_TYPES),
+  response: {
+    type: 'object',
+    properties: {
+      timestamp: { type: 'string', format: 'date-time' },
+      count: { type: 'integer' },
+      center: { type: ['object', 'null'], properties: { lat: { type: 'number' }, lon: { type: 'number' } } },
+      radiusKm: { type: ['number', 'null'] },
+      tracks: { type: 'array', items: ref('AircraftTrack') }
+    }
+  }
+});
+
+const aircraftSchema = defineRoute({
+  summary: 'Details for one aircraft',
+  params: icao24Param,
+  response: {
+    allOf: [
+      ref('Aircraft'),
+      {
+        type: 'object',
+        properties: {
+          address_type: { type: 'string' },
+          type_code: { type: ['string', 'null'] },
+          model: { type: ['string', 'null'] },
+          operator: { type: ['string', 'null'] },
+          owner: { type: ['string', 'null'] },
+          year_built: { type: ['integer', 'null'] },
+          enrichment: {
+            type: ['object', 'null'],
+            description: 'Provenance of the enriched fields',
+            properties: {
+              source: { type: 'string' },
+              enriched_at: { type: 'string', format: 'date-time' },
+              database_imported_at: { type: ['string', 'null'], format: 'date-time' }
+            }
+          },
+          routes: { type: 'array', items: ref('FlightRoute') }
+        }
+      }
+    ]
+  }
+});
+
+const historySchema = defineRoute({
+  summary: 'Position history for one aircraft',
+  params: icao24Param,
+  query: {
+    hours: { type: 'integer', minimum: 1, maximum: MAX_HISTORY_HOURS, default: 24 },
+    format: exportFormatParam
+  },
+  alternateResponseTypes: Object.values(EXPORT_CONTENT_TYPES),
+  response: {
+    type: 'object',
+    properties: {
+      icao24: { type: 'string' },
+      hours: { type: 'integer' },
+      positions: { type: 'integer' },
+      history: { type: 'array', items: ref('Position') }
+    }
+  }
+});
+
+const flightsSchema = defineRoute({
+  summary: 'Detected flights for one aircraft, most recent first',
+  params: icao24Param,
+  query: {
+    limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 },
+    positions: { type: 'boolean', default: false, description: "Include each flight's positions" }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      icao24: { type: 'string' },
+      count: { type: 'integer' },
+      flights: { type: 'array', items: ref('Flight') }
+    }
+  }
+});
+
+const geofenceEventsSchema = defineRoute({
+  summary: 'Geofence entry/exit history for one aircraft, most recent first',
+  params: icao24Param,
+  query: {
+    hours: { type: 'integer', minimum: 1, maximum: 8760, default: 24 }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      icao24: { type: 'string' },
+      count: { type: 'integer' },
+      events: { type: 'array', items: ref('GeofenceEvent') }
+    }
+  }
+});
+
+const darkPeriodsSchema = defineRoute({
+  summary: 'Airborne gaps in the position stream of one aircraft, most recent first',
+  params: icao24Param,
+  query: {
+    hours: { type: 'integer', minimum: 1, maximum: 8760, default: 168 },
+    limit: { type: 'integer', minimum: 1, maximum: 1000, default: 100 }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      icao24: { type: 'string' },
+      count: { type: 'integer' },
+      dark_periods: { type: 'array', items: ref('DarkPeriod') }
+    }
+  }
+});
+
+const deleteRussianSchema = defineRoute({
+  summary: 'Delete all Russian aircraft and their positions',
+  response: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      deleted: { type: 'object', properties: { aircraft: { type: 'integer' }, positions: { type: 'integer' } } }
+    }
+  }
+});
+
+const trackSchema = defineRoute({
+  summary: 'Position track for one aircraft as a GeoJSON LineString feature',
+  description: 'format=kml, gpx or csv downloads the track in that format instead.',
+  params: icao24Param,
+  query: {
+    hours: { type: 'integer', minimum: 1, maximum: MAX_HISTORY_HOURS, default: 24 },
+    format: { type: 'string', enum: EXPORT_FORMATS, default: 'geojson' }
+  },
+  alternateResponseTypes: [EXPORT_CONTENT_TYPES.kml, EXPORT_CONTENT_TYPES.gpx, EXPORT_CONTENT_TYPES.csv],
+  response: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: ['Feature'] },
+      properties: { type: 'object' },
+      geometry: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['LineString'] },
+          coordinates: { type: 'array', items: { type: 'array', items: { type: 'number' } } }
+        }
+      }
+    }
+  }
+});
+
+/**
+ * Aircraft details carried by a single-aircraft export
+ */
+async function getExportTrackInfo(icao24: string): Promise<Omit<ExportTrack, 'positions'>> {
+  const result = await query<Omit<ExportTrack, 'positions'>>(
+    'SELECT icao24, callsign, aircraft_type, is_military FROM aircraft WHERE icao24 = $1',
+    [icao24.toLowerCase()]
+  );
+  return result.rows[0] ?? { icao24: icao24.toLowerCase(), callsign: null, aircraft_type: null, is_military: false };
+}
+
+/**
+ * Stream one aircraft's history as CSV, a page of positions at a time
+ */
+async function streamHistoryCsv(res: Response, icao24: string, hours: number, filename: string): Promise<void> {
+  const info = await getExportTrackInfo(icao24);
+  async function* pages(): AsyncGenerator<ExportTrack> {
+    for await (const positions of iterateAircraftHistory(icao24, hours)) {
+      yield { ...info, positions };
+    }
+  }
+
+  setExportHeaders(res, 'csv', filename);
+  await streamCsv(res, pages());
+}
+
+/**
+ * Send tracks as a KML or GPX download
+ */
+function sendTrackFile(res: Response, format: 'kml' | 'gpx', filename: string, tracks: ExportTrack[]): void {
+  setExportHeaders(res, format, filename);
+  res.send(format === 'kml' ? toKml(tracks, filename) : toGpx(tracks));
+}
+
 /**
  * GET /api/aircraft
  * Get all tracked aircraft with optional filtering
+ * Optional query params: military, watchlist (id), country (name or ISO code),
+ * group_by=country to return per-country counts instead of a page of aircraft
  */
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', validate(listAircraftSchema), async (_req: Request, res: Response) => {
   try {
-    const { limit = 100, offset = 0, military } = req.query;
+    const { limit, offset, military, watchlist, country, group_by } = getValidated(res, listAircraftSchema).query;
+
+    const params: unknown[] = [];
+    const conditions: string[] = [];
+    if (watchlist !== undefined) {
+      params.push(watchlist);
+      conditions.push(`$${params.length} = ANY(watchlist_ids)`);
+    }
+    if (military !== undefined) {
+      params.push(military);
+      conditions.push(`is_military = $${params.length}`);
+    }
+    if (country !== undefined) {
+      // Match on the hex blocks the country owns rather than the stored origin_country
+      const condition = countryAddressCondition(country, params);
+      if (condition === null) {
+        return sendValidationError(res, [{ in: 'query', name: 'country', message: `Unknown country: ${country}` }]);
+      }
+      conditions.push(condition);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
+    if (group_by === 'country') {
+      const allResult = await query<{ icao24: string }>(`SELECT icao24 FROM aircraft ${where}`, params);
+
+      const groups = new Map<string, { country: string | null; country_code: string | null; aircraft_count: number }>();
+      for (const row of allResult.rows) {
+        const decoded = decodeIcao24(row.icao24);
+        const key = decoded.country ?? (decoded.non_icao ? 'non_icao' : 'unknown');
+        const group = groups.get(key) ?? { country: decoded.country, country_code: decoded.country_code, aircraft_count: 0 };
+        group.aircraft_count++;
+        groups.set(key, group);
+      }
+
+      const sorted = Array.from(groups.values()).sort((x, y) => y.aircraft_count - x.aircraft_count);
+      return res.json({
+        count: sorted.length,
+        countries: sorted
+      });
+    }
+
+    params.push(limit, offset);
     const result = await query<Aircraft>(
       `SELECT 
          icao24,
@@ -22,28 +375,21 @@ router.get('/', async (req: Request, res: Response) => {
          aircraft_type,
          first_seen,
          last_seen,
-         total_sightings
+         total_sightings,
+         watchlist_ids,
+         is_military
        FROM aircraft
+       ${where}
        ORDER BY last_seen DESC
-       LIMIT $1 OFFSET $2`,
-      [parseInt(limit as string), parseInt(offset as string)]
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
     );
 
-    // Add military flag
-    const aircraft = result.rows.map((row: Aircraft) => ({
-      ...row,
-      is_military: isMilitary(row.icao24)
-    }));
-
-    // Filter by military if requested
-    const filtered =
-      military !== undefined
-        ? aircraft.filter((a: Aircraft & { is_military: boolean }) => a.is_military === (military === 'true'))
-        : aircraft;
+    const aircraft = result.rows.map((row: Aircraft) => withDecodedCountry(row));
 
     res.json({
-      count: filtered.length,
-      aircraft: filtered
+      count: aircraft.length,
+      aircraft
     });
   } catch (error) {
     console.error('Error fetching aircraft:', error);
@@ -55,7 +401,7 @@ router.get('/', async (req: Request, res: Response) => {
  * GET /api/aircraft/live
  * Get currently active tracked aircraft
  */
-router.get('/live', async (_req: Request, res: Response) => {
+router.get('/live', validate(liveAircraftSchema), async (_req: Request, res: Response) => {
   try {
     const aircraft = await getLiveAircraft();
 
@@ -70,32 +416,81 @@ router.get('/live', async (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/aircraft/live/stream
+ * Server-Sent Events stream of live aircraft. Sends a `snapshot` on connect, a `diff`
+ * (added/updated/removed) after every ingestion cycle and a periodic `status` with
+ * the time of the last successful ingestion and a `stale` flag.
+ * Optional query params: bbox=minLat,minLon,maxLat,maxLon, military=true
+ */
+router.get('/live/stream', validate(liveStreamSchema), async (_req: Request, res: Response) => {
+  try {
+    const { bbox, military } = getValidated(res, liveStreamSchema).query;
+    const filter: StreamFilter = { militaryOnly: military };
+
+    if (bbox !== undefined) {
+      const [minLat, minLon, maxLat, maxLon] = bbox.split(',').map(parseFloat);
+      if ([minLat, minLon, maxLat, maxLon].some(isNaN) || minLat > maxLat || minLon > maxLon) {
+        return sendValidationError(res, [{ in: 'query', name: 'bbox', message: 'bbox must be minLat,minLon,maxLat,maxLon' }]);
+      }
+      filter.bbox = { minLat, minLon, maxLat, maxLon };
+    }
+
+    await addStreamClient(res, filter);
+  } catch (error) {
+    console.error('Error opening live stream:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to open live stream' });
+    } else {
+      res.end();
+    }
+  }
+});
+
 /**
  * GET /api/aircraft/tracks
  * Get all aircraft tracks from the last 24 hours (for frontend polyline display)
- * Optional query params: lat, lon, radius (km) to filter by center point
+ * Optional query params: lat, lon, radius (km) to filter by center point,
+ * format=geojson|kml|gpx|csv to export instead of JSON
  */
-router.get('/tracks', async (req: Request, res: Response) => {
+router.get('/tracks', validate(tracksSchema), async (_req: Request, res: Response) => {
   try {
-    const { lat, lon, radius } = req.query;
-    
-    // Parse optional center point and radius for filtering
-    const centerLat = lat ? parseFloat(lat as string) : undefined;
-    const centerLon = lon ? parseFloat(lon as string) : undefined;
-    const radiusKm = radius ? parseFloat(radius as string) : undefined;
-    
-    const tracks = await getAllTracksLast24h(centerLat, centerLon, radiusKm);
+    const { lat, lon, radius, format } = getValidated(res, tracksSchema).query;
+
+    // The center point filter only applies with all three values
+    const given = [lat, lon, radius].filter((value) => value !== undefined).length;
+    if (given > 0 && given < 3) {
+      return sendValidationError(res, [{ in: 'query', name: 'radius', message: 'lat, lon and radius must be given together' }]);
+    }
+
+    if (format === 'csv') {
+      setExportHeaders(res, 'csv', 'tracks-24h');
+      return await streamCsv(res, iterateTracksLast24h(lat, lon, radius));
+    }
+
+    const tracks = await getAllTracksLast24h(lat, lon, radius);
+
+    if (format === 'geojson') {
+      return res.json(toGeoJsonCollection(tracks));
+    }
+    if (format === 'kml' || format === 'gpx') {
+      return sendTrackFile(res, format, 'tracks-24h', tracks);
+    }
 
     res.json({
       timestamp: new Date().toISOString(),
       count: tracks.length,
-      center: centerLat && centerLon ? { lat: centerLat, lon: centerLon } : null,
-      radiusKm: radiusKm || null,
+      center: lat !== undefined && lon !== undefined ? { lat, lon } : null,
+      radiusKm: radius ?? null,
       tracks
     });
   } catch (error) {
     console.error('Error fetching tracks:', error);
-    res.status(500).json({ error: 'Failed to fetch tracks' });
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to fetch tracks' });
+    } else {
+      res.end();
+    }
   }
 });
 
@@ -103,22 +498,33 @@ router.get('/tracks', async (req: Request, res: Response) => {
  * GET /api/aircraft/:icao24
  * Get details for a specific aircraft
  */
-router.get('/:icao24', async (req: Request, res: Response) => {
+router.get('/:icao24', validate(aircraftSchema), async (_req: Request, res: Response) => {
   try {
-    const { icao24 } = req.params;
+    const { icao24 } = getValidated(res, aircraftSchema).params;
 
-    const result = await query<Aircraft>(
+    const result = await query<Aircraft & { database_imported_at: Date | null }>(
       `SELECT 
-         icao24,
-         callsign,
-         origin_country,
-         registration,
-         aircraft_type,
-         first_seen,
-         last_seen,
-         total_sightings
-       FROM aircraft
-       WHERE icao24 = $1`,
+         a.icao24,
+         a.callsign,
+         a.origin_country,
+         a.registration,
+         a.aircraft_type,
+         a.type_code,
+         a.model,
+         a.operator,
+         a.owner,
+         a.year_built,
+         a.first_seen,
+         a.last_seen,
+         a.total_sightings,
+         a.watchlist_ids,
+         a.is_military,
+         a.enrichment_source,
+         a.enriched_at,
+         d.imported_at as database_imported_at
+       FROM aircraft a
+       LEFT JOIN aircraft_database d ON d.icao24 = a.icao24
+       WHERE a.icao24 = $1`,
       [icao24.toLowerCase()]
     );
 
@@ -126,10 +532,16 @@ router.get('/:icao24', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Aircraft not found' });
     }
 
-    const aircraft = result.rows[0];
+    const { enrichment_source, enriched_at, database_imported_at, ...aircraft } = result.rows[0];
+    const routes = await getFlightRoutes([aircraft.icao24]);
     res.json({
-      ...aircraft,
-      is_military: isMilitary(aircraft.icao24)
+      ...withDecodedCountry(aircraft),
+      address_type: decodeIcao24(aircraft.icao24).address_type,
+      // Where the registration/type/owner details came from, null if never enriched
+      enrichment: enriched_at
+        ? { source: enrichment_source, enriched_at, database_imported_at }
+        : null,
+      routes: routes.get(aircraft.icao24) ?? []
     });
   } catch (error) {
     console.error('Error fetching aircraft:', error);
@@ -140,47 +552,144 @@ router.get('/:icao24', async (req: Request, res: Response) => {
 /**
  * GET /api/aircraft/:icao24/history
  * Get position history for an aircraft
+ * Optional query params: format=geojson|kml|gpx|csv to export instead of JSON
  */
-router.get('/:icao24/history', async (req: Request, res: Response) => {
+router.get('/:icao24/history', validate(historySchema), async (_req: Request, res: Response) => {
   try {
-    const { icao24 } = req.params;
-    const { hours = 24 } = req.query;
+    const { params, query: { hours, format } } = getValidated(res, historySchema);
+    const { icao24 } = params;
+    const filename = `${icao24.toLowerCase()}-history-${hours}h`;
+
+    if (format === 'csv') {
+      return await streamHistoryCsv(res, icao24, hours, filename);
+    }
+
+    const history = await getAircraftHistory(icao24, hours);
 
-    const history = await getAircraftHistory(icao24, parseInt(hours as string));
+    if (format !== 'json') {
+      const track = { ...(await getExportTrackInfo(icao24)), positions: history };
+      return format === 'geojson'
+        ? res.json(toGeoJsonFeature(track))
+        : sendTrackFile(res, format, filename, [track]);
+    }
 
     res.json({
       icao24,
-      hours: parseInt(hours as string),
+      hours,
       positions: history.length,
       history
     });
   } catch (error) {
     console.error('Error fetching aircraft history:', error);
-    res.status(500).json({ error: 'Failed to fetch aircraft history' });
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to fetch aircraft history' });
+    } else {
+      res.end();
+    }
   }
 });
 
 /**
- * DELETE /api/aircraft/russian
- * Clear all Russian aircraft data from the database
+ * GET /api/aircraft/:icao24/flights
+ * Get detected flights for an aircraft, most recent first
+ * Optional query params: limit, positions=true to include each flight's positions
  */
-router.delete('/russian', async (_req: Request, res: Response) => {
+router.get('/:icao24/flights', validate(flightsSchema), async (_req: Request, res: Response) => {
   try {
-    // Delete positions for Russian aircraft (icao24 starting with 140-157)
-    const positionsResult = await query(
-      `DELETE FROM positions 
-       WHERE icao24 IN (
-         SELECT icao24 FROM aircraft 
-         WHERE icao24 LIKE '14%' OR icao24 LIKE '15%'
-       )`
+    const { params, query: { limit, positions } } = getValidated(res, flightsSchema);
+    const { icao24 } = params;
+
+    const result = await query<Flight>(
+      `SELECT * FROM flights
+       WHERE icao24 = $1
+       ORDER BY start_time DESC
+       LIMIT $2`,
+      [icao24.toLowerCase(), limit]
     );
 
-    // Delete Russian aircraft records
-    const aircraftResult = await query(
-      `DELETE FROM aircraft 
-       WHERE icao24 LIKE '14%' OR icao24 LIKE '15%'`
+    const flights = positions
+      ? await Promise.all(result.rows.map(async (flight: Flight) => ({
+          ...flight,
+          positions: await getFlightPositions(flight.id)
+        })))
+      : result.rows;
+
+    res.json({
+      icao24,
+      count: flights.length,
+      flights
+    });
+  } catch (error) {
+    console.error('Error fetching aircraft flights:', error);
+    res.status(500).json({ error: 'Failed to fetch aircraft flights' });
+  }
+});
+
+/**
+ * GET /api/aircraft/:icao24/geofence-events
+ * Get geofence entry/exit history for an aircraft, most recent first
+ */
+router.get('/:icao24/geofence-events', validate(geofenceEventsSchema), async (_req: Request, res: Response) => {
+  try {
+    const { params, query: { hours } } = getValidated(res, geofenceEventsSchema);
+    const { icao24 } = params;
+
+    const result = await query<GeofenceEvent>(
+      `SELECT e.*, g.name as geofence_name
+       FROM geofence_events e
+       JOIN geofences g ON g.id = e.geofence_id
+       WHERE e.icao24 = $1 AND e.timestamp > NOW() - ($2 || ' hours')::INTERVAL
+       ORDER BY e.timestamp DESC`,
+      [icao24.toLowerCase(), hours]
     );
 
+    res.json({
+      icao24,
+      count: result.rows.length,
+      events: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching aircraft geofence events:', error);
+    res.status(500).json({ error: 'Failed to fetch aircraft geofence events' });
+  }
+});
+
+/**
+ * GET /api/aircraft/:icao24/dark-periods
+ * Get the gaps in an aircraft's position stream while it was airborne, most recent first
+ * Optional query params: hours (default 168), limit
+ */
+router.get('/:icao24/dark-periods', validate(darkPeriodsSchema), async (_req: Request, res: Response) => {
+  try {
+    const { params, query: { hours, limit } } = getValidated(res, darkPeriodsSchema);
+    const { icao24 } = params;
+
+    const darkPeriods = await getDarkPeriods(hours, { icao24, limit });
+
+    res.json({
+      icao24,
+      count: darkPeriods.length,
+      dark_periods: darkPeriods
+    });
+  } catch (error) {
+    console.error('Error fetching aircraft dark periods:', error);
+    res.status(500).json({ error: 'Failed to fetch aircraft dark periods' });
+  }
+});
+
+/**
+ * DELETE /api/aircraft/russian
+ * Clear all Russian aircraft data from the database
+ */
+router.delete('/russian', requireRole('admin'), validate(deleteRussianSchema), async (_req: Request, res: Response) => {
+  try {
+    // Russian aircraft are those in the hex blocks the ICAO allocation table gives Russia
+    const params: unknown[] = [];
+    const russian = countryAddressCondition('RU', params)!;
+
+    const positionsResult = await query(`DELETE FROM positions WHERE ${russian}`, params);
+    const aircraftResult = await query(`DELETE FROM aircraft WHERE ${russian}`, params);
+
     console.log(`🗑️ Cleared Russian aircraft data: ${aircraftResult.rowCount} aircraft, ${positionsResult.rowCount} positions`);
 
     res.json({
@@ -199,37 +708,34 @@ router.delete('/russian', async (_req: Request, res: Response) => {
 /**
  * GET /api/aircraft/:icao24/track
  * Get position track as GeoJSON LineString
+ * Optional query params: format=kml|gpx|csv to download the track instead
  */
-router.get('/:icao24/track', async (req: Request, res: Response) => {
+router.get('/:icao24/track', validate(trackSchema), async (_req: Request, res: Response) => {
   try {
-    const { icao24 } = req.params;
-    const { hours = 24 } = req.query;
-
-    const history = await getAircraftHistory(icao24, parseInt(hours as string));
-
-    const geojson = {
-      type: 'Feature',
-      properties: {
-        icao24,
-        callsign: history[0]?.callsign || null,
-        positions: history.length
-      },
-      geometry: {
-        type: 'LineString',
-        coordinates: history
-          .filter((p) => p.latitude && p.longitude)
-          .map((p) => [
-            parseFloat(String(p.longitude)),
-            parseFloat(String(p.latitude)),
-            parseFloat(String(p.altitude)) || 0
-          ])
-      }
-    };
+    const { params, query: { hours, format } } = getValidated(res, trackSchema);
+    const { icao24 } = params;
+    const filename = `${icao24.toLowerCase()}-track-${hours}h`;
 
-    res.json(geojson);
+    if (format === 'csv') {
+      return await streamHistoryCsv(res, icao24, hours, filename);
+    }
+
+    const history = await getAircraftHistory(icao24, hours);
+    const info = await getExportTrackInfo(icao24);
+    // The track is labelled with the callsign flown at the start of the window
+    const track = { ...info, callsign: history[0]?.callsign || null, positions: history };
+
+    if (format === 'kml' || format === 'gpx') {
+      return sendTrackFile(res, format, filename, [track]);
+    }
+    res.json(toGeoJsonFeature(track));
   } catch (error) {
     console.error('Error fetching aircraft track:', error);
-    res.status(500).json({ error: 'Failed to fetch aircraft track' });
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to fetch aircraft track' });
+    } else {
+      res.end();
+    }
   }
 });
 
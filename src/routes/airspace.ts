@@ -0,0 +1,212 @@
+import { Request, Response, Router } from 'express';
+import { getAirspace, getAirspaces, getBorderProximity, getIncursions } from '../services/airspace';
+import { RETENTION_DOWNSAMPLED_DAYS } from '../services/retention';
+import { defineRoute, getValidated, validate } from '../services/validation';
+
+const router = Router();
+
+// Both analyses read stored positions, so they can look back as far as retention keeps them
+const MAX_HOURS = Math.ceil(RETENTION_DOWNSAMPLED_DAYS * 24);
+
+const codeParam = { type: 'string', pattern: '^[A-Za-z0-9_-]{1,20}$', description: 'Airspace code, e.g. an ISO country code or FIR ident' } as const;
+
+const positionSchema = {
+  type: 'object',
+  properties: {
+    latitude: { type: 'number' },
+    longitude: { type: 'number' },
+    altitude: { type: ['integer', 'null'] }
+  }
+};
+
+const airspacesSchema = defineRoute({
+  summary: 'Loaded airspace boundaries',
+  response: {
+    type: 'object',
+    properties: {
+      count: { type: 'integer' },
+      airspaces: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            code: { type: 'string' },
+            name: { type: ['string', 'null'] },
+            type: { type: ['string', 'null'] },
+            polygons: { type: 'integer' },
+            bbox: {
+              type: 'object',
+              properties: {
+                minLat: { type: 'number' },
+                minLon: { type: 'number' },
+                maxLat: { type: 'number' },
+                maxLon: { type: 'number' }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+});
+
+const proximitySchema = defineRoute({
+  summary: "Passes of tracked aircraft near an airspace's border, most recent first",
+  description: 'A pass ends when the aircraft moves out of range or is not seen for the flight gap. ' +
+    '`crossed` is set when the pass had positions on both sides of the border.',
+  query: {
+    code: { ...codeParam, required: true },
+    distance_km: { type: 'number', minimum: 0.1, maximum: 500, default: 20 },
+    hours: { type: 'integer', minimum: 1, maximum: MAX_HOURS, default: 24 },
+    limit: { type: 'integer', minimum: 1, maximum: 1000, default: 200 }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      code: { type: 'string' },
+      distance_km: { type: 'number' },
+      hours: { type: 'integer' },
+      count: { type: 'integer' },
+      passes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            icao24: { type: 'string' },
+            callsign: { type: ['string', 'null'] },
+            aircraft_type: { type: ['string', 'null'] },
+            is_military: { type: 'boolean' },
+            started_at: { type: 'string', format: 'date-time' },
+            ended_at: { type: 'string', format: 'date-time' },
+            duration_seconds: { type: 'integer' },
+            positions: { type: 'integer' },
+            crossed: { type: 'boolean' },
+            closest: {
+              type: 'object',
+              properties: {
+                distance_km: { type: 'number' },
+                side: { type: 'string', enum: ['inside', 'outside'] },
+                ...positionSchema.properties,
+                timestamp: { type: 'string', format: 'date-time' }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+});
+
+const incursionsSchema = defineRoute({
+  summary: 'Stays of tracked aircraft inside an airspace, most recent first',
+  description: 'Positions are tagged with their airspace as they are stored. A stay ends when the aircraft ' +
+    'is reported elsewhere or not seen for the flight gap.',
+  params: { code: codeParam },
+  query: {
+    hours: { type: 'integer', minimum: 1, maximum: MAX_HOURS, default: 24 },
+    limit: { type: 'integer', minimum: 1, maximum: 1000, default: 200 }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      code: { type: 'string' },
+      name: { type: ['string', 'null'] },
+      hours: { type: 'integer' },
+      count: { type: 'integer' },
+      incursions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            icao24: { type: 'string' },
+            callsign: { type: ['string', 'null'] },
+            aircraft_type: { type: ['string', 'null'] },
+            is_military: { type: 'boolean' },
+            entered_from: { type: ['string', 'null'], description: 'Airspace before entering, null if none or unseen' },
+            exited_to: { type: ['string', 'null'], description: 'Airspace after leaving, null if none or unseen' },
+            entered_at: { type: 'string', format: 'date-time' },
+            exited_at: { type: 'string', format: 'date-time' },
+            duration_seconds: { type: 'integer' },
+            positions: { type: 'integer' },
+            entry: positionSchema,
+            exit: positionSchema,
+            active: { type: 'boolean' }
+          }
+        }
+      }
+    }
+  }
+});
+
+/**
+ * GET /api/airspace
+ * List the loaded airspace boundaries (without their polygons)
+ */
+router.get('/', validate(airspacesSchema), (_req: Request, res: Response) => {
+  const airspaces = getAirspaces().map(({ polygons, ...airspace }) => ({ ...airspace, polygons: polygons.length }));
+
+  res.json({
+    count: airspaces.length,
+    airspaces
+  });
+});
+
+/**
+ * GET /api/airspace/proximity
+ * Aircraft flying within distance_km of an airspace's border
+ * Query params: code, optional distance_km (default 20), hours (default 24), limit
+ */
+router.get('/proximity', validate(proximitySchema), async (_req: Request, res: Response) => {
+  try {
+    const { code, distance_km, hours, limit } = getValidated(res, proximitySchema).query;
+
+    const airspace = getAirspace(code);
+    if (!airspace) {
+      return res.status(404).json({ error: 'Airspace not found' });
+    }
+
+    const passes = await getBorderProximity(airspace, distance_km, hours, limit);
+
+    res.json({
+      code: airspace.code,
+      distance_km,
+      hours,
+      count: passes.length,
+      passes
+    });
+  } catch (error) {
+    console.error('Error fetching border proximity:', error);
+    res.status(500).json({ error: 'Failed to fetch border proximity' });
+  }
+});
+
+/**
+ * GET /api/airspace/:code/incursions
+ * Aircraft entering and staying inside an airspace
+ * Optional query params: hours (default 24), limit
+ */
+router.get('/:code/incursions', validate(incursionsSchema), async (_req: Request, res: Response) => {
+  try {
+    const { params, query } = getValidated(res, incursionsSchema);
+
+    const airspace = getAirspace(params.code);
+    if (!airspace) {
+      return res.status(404).json({ error: 'Airspace not found' });
+    }
+
+    const incursions = await getIncursions(airspace.code, query.hours, query.limit);
+
+    res.json({
+      code: airspace.code,
+      name: airspace.name,
+      hours: query.hours,
+      count: incursions.length,
+      incursions
+    });
+  } catch (error) {
+    console.error('Error fetching airspace incursions:', error);
+    res.status(500).json({ error: 'Failed to fetch airspace incursions' });
+  }
+});
+
+export default router;
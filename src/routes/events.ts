@@ -0,0 +1,147 @@
+import { Request, Response, Router } from 'express';
+import { query } from '../db';
+import { getDarkPeriods } from '../services/darkPeriods';
+import { RETENTION_DOWNSAMPLED_DAYS } from '../services/retention';
+import { EMERGENCY_SQUAWKS } from '../services/tracker';
+import { defineRoute, getValidated, validate } from '../services/validation';
+import { EmergencyEvent } from '../types';
+
+const router = Router();
+
+// Emergencies are read from positions, which are gone after the downsampled tier
+const MAX_EMERGENCY_HOURS = Math.ceil(RETENTION_DOWNSAMPLED_DAYS * 24);
+
+const icao24Query = { type: 'string', pattern: '^~?[0-9a-fA-F]{6}$' } as const;
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const emergenciesSchema = defineRoute({
+  summary: 'Emergency squawk and emergency field transitions, most recent first',
+  description: 'Each event is a change with the position where the emergency was first (or last) seen.',
+  query: {
+    hours: { type: 'integer', minimum: 1, maximum: MAX_EMERGENCY_HOURS, default: 24 },
+    icao24: icao24Query
+  },
+  response: {
+    type: 'object',
+    properties: {
+      hours: { type: 'integer' },
+      count: { type: 'integer' },
+      events: { type: 'array', items: ref('EmergencyEvent') }
+    }
+  }
+});
+
+const darkPeriodsSchema = defineRoute({
+  summary: "Airborne gaps in tracked aircraft's position streams, most recent first",
+  description: '`within_coverage=true` keeps gaps inside the coverage circles (going dark), ' +
+    '`false` those partly outside them (leaving coverage).',
+  query: {
+    hours: { type: 'integer', minimum: 1, maximum: 8760, default: 24 },
+    icao24: icao24Query,
+    military: { type: 'boolean', default: false },
+    within_coverage: { type: 'boolean' },
+    limit: { type: 'integer', minimum: 1, maximum: 1000, default: 200 }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      hours: { type: 'integer' },
+      count: { type: 'integer' },
+      dark_periods: { type: 'array', items: ref('DarkPeriod') }
+    }
+  }
+});
+
+/**
+ * GET /api/events/emergencies
+ * Emergency squawks (7500/7600/7700) and emergency field changes, most recent first
+ * Each row is a transition with the position where it was first (or last) seen
+ * Optional query params: hours (default 24), icao24
+ */
+router.get('/emergencies', validate(emergenciesSchema), async (_req: Request, res: Response) => {
+  try {
+    const { hours, icao24 } = getValidated(res, emergenciesSchema).query;
+
+    const params: unknown[] = [hours, Object.keys(EMERGENCY_SQUAWKS)];
+    let icaoFilter = '';
+    if (icao24 !== undefined) {
+      params.push(icao24.toLowerCase());
+      icaoFilter = `AND icao24 = $${params.length}`;
+    }
+
+    const result = await query<EmergencyEvent>(
+      `SELECT
+         icao24,
+         callsign,
+         CASE WHEN squawk = ANY($2) OR emergency IS NOT NULL THEN 'started' ELSE 'cleared' END as change,
+         squawk,
+         previous_squawk,
+         emergency,
+         previous_emergency,
+         latitude,
+         longitude,
+         altitude,
+         timestamp
+       FROM (
+         SELECT
+           icao24, callsign, squawk, emergency, latitude, longitude, altitude, timestamp,
+           LAG(squawk) OVER w as previous_squawk,
+           LAG(emergency) OVER w as previous_emergency,
+           ROW_NUMBER() OVER w as n
+         FROM positions
+         WHERE timestamp > NOW() - ($1 || ' hours')::INTERVAL ${icaoFilter}
+         WINDOW w AS (PARTITION BY icao24 ORDER BY timestamp)
+       ) transitions
+       WHERE
+         (
+           (squawk = ANY($2) OR previous_squawk = ANY($2))
+           AND (n = 1 OR squawk IS DISTINCT FROM previous_squawk)
+         )
+         OR (
+           (emergency IS NOT NULL OR previous_emergency IS NOT NULL)
+           AND (n = 1 OR emergency IS DISTINCT FROM previous_emergency)
+         )
+       ORDER BY timestamp DESC`,
+      params
+    );
+
+    res.json({
+      hours,
+      count: result.rows.length,
+      events: result.rows.map((row: EmergencyEvent) => ({
+        ...row,
+        squawk_meaning: row.squawk ? EMERGENCY_SQUAWKS[row.squawk] ?? null : null
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching emergency events:', error);
+    res.status(500).json({ error: 'Failed to fetch emergency events' });
+  }
+});
+
+/**
+ * GET /api/events/dark-periods
+ * Gaps in tracked aircraft's position streams while airborne, most recent first
+ * within_coverage=true keeps gaps inside the coverage circles (going dark),
+ * false those partly outside them (leaving coverage)
+ * Optional query params: hours (default 24), icao24, military=true, within_coverage, limit (default 200)
+ */
+router.get('/dark-periods', validate(darkPeriodsSchema), async (_req: Request, res: Response) => {
+  try {
+    const { hours, icao24, military, within_coverage: withinCoverage, limit } = getValidated(res, darkPeriodsSchema).query;
+
+    const darkPeriods = await getDarkPeriods(hours, { icao24, militaryOnly: military, withinCoverage, limit });
+
+    res.json({
+      hours,
+      count: darkPeriods.length,
+      dark_periods: darkPeriods
+    });
+  } catch (error) {
+    console.error('Error fetching dark periods:', error);
+    res.status(500).json({ error: 'Failed to fetch dark periods' });
+  }
+});
+
+export default router;
@@ -0,0 +1,130 @@
+import { Request, Response, Router } from 'express';
+import { query } from '../db';
+import { getFlightPositions } from '../services/flights';
+import { defineRoute, getValidated, sendValidationError, validate } from '../services/validation';
+import { Flight } from '../types';
+
+const router = Router();
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const militaryFlight = {
+  allOf: [ref('Flight'), { type: 'object', properties: { is_military: { type: 'boolean' } } }]
+};
+
+const listFlightsSchema = defineRoute({
+  summary: 'Detected flights, most recent first',
+  description: 'Flights overlapping `from`-`to`; either bound may be omitted.',
+  query: {
+    icao24: { type: 'string', pattern: '^~?[0-9a-fA-F]{6}$' },
+    status: { type: 'string', enum: ['active', 'completed'] },
+    from: { type: 'string', format: 'date-time' },
+    to: { type: 'string', format: 'date-time' },
+    limit: { type: 'integer', minimum: 1, maximum: 1000, default: 100 },
+    offset: { type: 'integer', minimum: 0, default: 0 }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      count: { type: 'integer' },
+      flights: { type: 'array', items: militaryFlight }
+    }
+  }
+});
+
+const flightSchema = defineRoute({
+  summary: 'One flight with its positions',
+  params: {
+    id: { type: 'integer', minimum: 1 }
+  },
+  response: militaryFlight
+});
+
+/**
+ * GET /api/flights
+ * List detected flights, most recent first
+ * Optional query params: icao24, status (active|completed), from, to (ISO timestamps), limit, offset
+ */
+router.get('/', validate(listFlightsSchema), async (_req: Request, res: Response) => {
+  try {
+    const { icao24, status, from, to, limit, offset } = getValidated(res, listFlightsSchema).query;
+
+    if (from !== undefined && to !== undefined && new Date(from).getTime() > new Date(to).getTime()) {
+      return sendValidationError(res, [{ in: 'query', name: 'to', message: 'to must be after from' }]);
+    }
+
+    const params: unknown[] = [];
+    const conditions: string[] = [];
+    if (icao24 !== undefined) {
+      params.push(icao24.toLowerCase());
+      conditions.push(`f.icao24 = $${params.length}`);
+    }
+    if (status !== undefined) {
+      params.push(status);
+      conditions.push(`f.status = $${params.length}`);
+    }
+    if (from !== undefined) {
+      params.push(from);
+      conditions.push(`f.end_time >= $${params.length}`);
+    }
+    if (to !== undefined) {
+      params.push(to);
+      conditions.push(`f.start_time <= $${params.length}`);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    params.push(limit, offset);
+    const result = await query<Flight & { is_military: boolean }>(
+      `SELECT f.*, COALESCE(a.is_military, FALSE) as is_military
+       FROM flights f
+       LEFT JOIN aircraft a ON a.icao24 = f.icao24
+       ${where}
+       ORDER BY f.start_time DESC
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+
+    res.json({
+      count: result.rows.length,
+      flights: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching flights:', error);
+    res.status(500).json({ error: 'Failed to fetch flights' });
+  }
+});
+
+/**
+ * GET /api/flights/:id
+ * Get a single flight with its positions
+ */
+router.get('/:id', validate(flightSchema), async (_req: Request, res: Response) => {
+  try {
+    const id = parseInt(getValidated(res, flightSchema).params.id);
+
+    const result = await query<Flight & { is_military: boolean }>(
+      `SELECT f.*, COALESCE(a.is_military, FALSE) as is_military
+       FROM flights f
+       LEFT JOIN aircraft a ON a.icao24 = f.icao24
+       WHERE f.id = $1`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Flight not found' });
+    }
+
+    const flight = result.rows[0];
+    const positions = await getFlightPositions(id);
+
+    res.json({
+      ...flight,
+      positions
+    });
+  } catch (error) {
+    console.error('Error fetching flight:', error);
+    res.status(500).json({ error: 'Failed to fetch flight' });
+  }
+});
+
+export default router;
@@ -0,0 +1,259 @@
+import { Request, Response, Router } from 'express';
+import { query } from '../db';
+import { requireRole } from '../services/auth';
+import { Geofence, GeofenceEvent } from '../types';
+
+const router = Router();
+
+interface GeofenceInput {
+  name?: string;
+  description?: string | null;
+  enabled?: boolean;
+  shape?: string;
+  coordinates?: [number, number][];
+  center_latitude?: number;
+  center_longitude?: number;
+  radius_km?: number;
+}
+
+/**
+ * Validate a geofence request body
+ * @returns an error message, or null if the body is valid
+ */
+function validateGeofence(body: GeofenceInput): string | null {
+  if (typeof body.name !== 'string' || body.name.trim() === '') return 'name is required';
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') return 'enabled must be a boolean';
+
+  if (body.shape === 'polygon') {
+    const ring = body.coordinates;
+    if (!Array.isArray(ring) || ring.length < 3) {
+      return 'coordinates must contain at least 3 [longitude, latitude] pairs';
+    }
+    const valid = ring.every((point) =>
+      Array.isArray(point) && point.length === 2 &&
+      typeof point[0] === 'number' && Math.abs(point[0]) <= 180 &&
+      typeof point[1] === 'number' && Math.abs(point[1]) <= 90
+    );
+    if (!valid) return 'coordinates must contain [longitude, latitude] pairs';
+    return null;
+  }
+
+  if (body.shape === 'circle') {
+    if (typeof body.center_latitude !== 'number' || Math.abs(body.center_latitude) > 90) {
+      return 'center_latitude must be between -90 and 90';
+    }
+    if (typeof body.center_longitude !== 'number' || Math.abs(body.center_longitude) > 180) {
+      return 'center_longitude must be between -180 and 180';
+    }
+    if (typeof body.radius_km !== 'number' || body.radius_km <= 0) return 'radius_km must be positive';
+    return null;
+  }
+
+  return 'shape must be "polygon" or "circle"';
+}
+
+/**
+ * Map a validated body onto the geofence columns
+ */
+function geofenceParams(body: GeofenceInput): unknown[] {
+  const isCircle = body.shape === 'circle';
+  return [
+    body.name!.trim(),
+    body.description ?? null,
+    body.enabled ?? true,
+    body.shape,
+    isCircle ? null : JSON.stringify(body.coordinates),
+    isCircle ? body.center_latitude : null,
+    isCircle ? body.center_longitude : null,
+    isCircle ? body.radius_km : null
+  ];
+}
+
+/**
+ * GET /api/geofences
+ * List all geofences
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const result = await query<Geofence>('SELECT * FROM geofences ORDER BY id ASC');
+
+    res.json({
+      count: result.rows.length,
+      geofences: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching geofences:', error);
+    res.status(500).json({ error: 'Failed to fetch geofences' });
+  }
+});
+
+/**
+ * GET /api/geofences/:id
+ * Get a single geofence with the aircraft currently inside it
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid geofence id' });
+    }
+
+    const result = await query<Geofence>('SELECT * FROM geofences WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Geofence not found' });
+    }
+
+    const presenceResult = await query<{ icao24: string; entered_at: Date; last_seen: Date }>(
+      `SELECT icao24, entered_at, last_seen FROM geofence_presence
+       WHERE geofence_id = $1
+       ORDER BY entered_at ASC`,
+      [id]
+    );
+
+    res.json({
+      ...result.rows[0],
+      aircraft_inside: presenceResult.rows
+    });
+  } catch (error) {
+    console.error('Error fetching geofence:', error);
+    res.status(500).json({ error: 'Failed to fetch geofence' });
+  }
+});
+
+/**
+ * POST /api/geofences
+ * Create a polygon or circle geofence
+ */
+router.post('/', requireRole('analyst'), async (req: Request, res: Response) => {
+  try {
+    const validationError = validateGeofence(req.body ?? {});
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const result = await query<Geofence>(
+      `INSERT INTO geofences (name, description, enabled, shape, coordinates, center_latitude, center_longitude, radius_km)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      geofenceParams(req.body)
+    );
+
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    if ((error as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'A geofence with this name already exists' });
+    }
+    console.error('Error creating geofence:', error);
+    res.status(500).json({ error: 'Failed to create geofence' });
+  }
+});
+
+/**
+ * PUT /api/geofences/:id
+ * Replace a geofence definition
+ * Aircraft presence is reset so transitions are re-evaluated against the new shape
+ */
+router.put('/:id', requireRole('analyst'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid geofence id' });
+    }
+
+    const validationError = validateGeofence(req.body ?? {});
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const result = await query<Geofence>(
+      `UPDATE geofences SET
+         name = $2, description = $3, enabled = $4, shape = $5, coordinates = $6,
+         center_latitude = $7, center_longitude = $8, radius_km = $9, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING *`,
+      [id, ...geofenceParams(req.body)]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Geofence not found' });
+    }
+
+    await query('DELETE FROM geofence_presence WHERE geofence_id = $1', [id]);
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    if ((error as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'A geofence with this name already exists' });
+    }
+    console.error('Error updating geofence:', error);
+    res.status(500).json({ error: 'Failed to update geofence' });
+  }
+});
+
+/**
+ * DELETE /api/geofences/:id
+ * Delete a geofence and its events
+ */
+router.delete('/:id', requireRole('analyst'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid geofence id' });
+    }
+
+    const result = await query('DELETE FROM geofences WHERE id = $1', [id]);
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Geofence not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting geofence:', error);
+    res.status(500).json({ error: 'Failed to delete geofence' });
+  }
+});
+
+/**
+ * GET /api/geofences/:id/events
+ * Get entry/exit events for a geofence, most recent first
+ * Optional query params: hours (default 24), type (entry|exit), limit
+ */
+router.get('/:id/events', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid geofence id' });
+    }
+
+    const { hours = 24, type, limit = 500 } = req.query;
+
+    const params: unknown[] = [id, parseInt(hours as string) || 24, parseInt(limit as string) || 500];
+    let typeFilter = '';
+    if (type !== undefined) {
+      params.push(type);
+      typeFilter = `AND event_type = $${params.length}`;
+    }
+
+    const result = await query<GeofenceEvent>(
+      `SELECT * FROM geofence_events
+       WHERE geofence_id = $1 AND timestamp > NOW() - ($2 || ' hours')::INTERVAL ${typeFilter}
+       ORDER BY timestamp DESC
+       LIMIT $3`,
+      params
+    );
+
+    res.json({
+      geofence_id: id,
+      hours: parseInt(hours as string) || 24,
+      count: result.rows.length,
+      events: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching geofence events:', error);
+    res.status(500).json({ error: 'Failed to fetch geofence events' });
+  }
+});
+
+export default router;
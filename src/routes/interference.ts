@@ -0,0 +1,142 @@
+import { Request, Response, Router } from 'express';
+import {
+  getInterferenceEvents,
+  getInterferenceHeatmap,
+  INTERFERENCE_BUCKET_MINUTES,
+  INTERFERENCE_GRID_DEGREES
+} from '../services/interference';
+import { RETENTION_DOWNSAMPLED_DAYS } from '../services/retention';
+import { defineRoute, getValidated, validate } from '../services/validation';
+
+const router = Router();
+
+// Heatmap cells are kept as long as downsampled positions
+const MAX_HEATMAP_HOURS = Math.ceil(RETENTION_DOWNSAMPLED_DAYS * 24);
+
+const heatmapSchema = defineRoute({
+  summary: 'GNSS interference heatmap per grid cell and time bucket',
+  description: 'Cells sum the NIC/NACp integrity of every aircraft reported, tracked or not. ' +
+    '`degraded` counts aircraft with low integrity or lost GNSS.',
+  query: {
+    hours: { type: 'integer', minimum: 1, maximum: MAX_HEATMAP_HOURS, default: 24 },
+    min_samples: { type: 'integer', minimum: 1, default: 1, description: 'Leave out cells with fewer aircraft reports' },
+    include_clear: { type: 'boolean', default: false, description: 'Also return cells without degraded aircraft' }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      hours: { type: 'integer' },
+      grid_degrees: { type: 'number' },
+      bucket_minutes: { type: 'integer' },
+      buckets: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            timestamp: { type: 'string', format: 'date-time' },
+            cells: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  lat: { type: 'number', description: 'South-west corner' },
+                  lon: { type: 'number', description: 'South-west corner' },
+                  samples: { type: 'integer' },
+                  degraded: { type: 'integer' },
+                  ratio: { type: 'number' },
+                  min_nic: { type: ['integer', 'null'] },
+                  min_nac_p: { type: ['integer', 'null'] }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+});
+
+const eventsSchema = defineRoute({
+  summary: 'Detected GNSS interference events, most recent first',
+  description: '`integrity_loss`: many aircraft in a cell degraded at once. ' +
+    '`position_jump`: an aircraft position moving impossibly far between reports.',
+  query: {
+    hours: { type: 'integer', minimum: 1, maximum: 8760, default: 24 },
+    type: { type: 'string', enum: ['integrity_loss', 'position_jump'] },
+    icao24: { type: 'string', pattern: '^~?[0-9a-fA-F]{6}$' },
+    limit: { type: 'integer', minimum: 1, maximum: 1000, default: 200 }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      hours: { type: 'integer' },
+      count: { type: 'integer' },
+      events: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            event_type: { type: 'string', enum: ['integrity_loss', 'position_jump'] },
+            cell_lat: { type: 'number' },
+            cell_lon: { type: 'number' },
+            icao24: { type: ['string', 'null'] },
+            started_at: { type: 'string', format: 'date-time' },
+            last_seen_at: { type: 'string', format: 'date-time' },
+            peak_aircraft: { type: 'integer' },
+            peak_degraded: { type: 'integer' },
+            details: { type: ['object', 'null'] },
+            active: { type: 'boolean' }
+          }
+        }
+      }
+    }
+  }
+});
+
+/**
+ * GET /api/interference/heatmap
+ * Degraded GNSS integrity per grid cell, one entry per time bucket
+ * Optional query params: hours (default 24), min_samples, include_clear=true
+ */
+router.get('/heatmap', validate(heatmapSchema), async (_req: Request, res: Response) => {
+  try {
+    const { hours, min_samples, include_clear } = getValidated(res, heatmapSchema).query;
+
+    const buckets = await getInterferenceHeatmap(hours, include_clear, min_samples);
+
+    res.json({
+      hours,
+      grid_degrees: INTERFERENCE_GRID_DEGREES,
+      bucket_minutes: INTERFERENCE_BUCKET_MINUTES,
+      buckets
+    });
+  } catch (error) {
+    console.error('Error fetching interference heatmap:', error);
+    res.status(500).json({ error: 'Failed to fetch interference heatmap' });
+  }
+});
+
+/**
+ * GET /api/interference/events
+ * Integrity loss and position jump events, most recent first
+ * Optional query params: hours (default 24), type, icao24, limit
+ */
+router.get('/events', validate(eventsSchema), async (_req: Request, res: Response) => {
+  try {
+    const { hours, type, icao24, limit } = getValidated(res, eventsSchema).query;
+
+    const events = await getInterferenceEvents(hours, { type, icao24, limit });
+
+    res.json({
+      hours,
+      count: events.length,
+      events
+    });
+  } catch (error) {
+    console.error('Error fetching interference events:', error);
+    res.status(500).json({ error: 'Failed to fetch interference events' });
+  }
+});
+
+export default router;
@@ -0,0 +1,229 @@
+import { randomBytes } from 'crypto';
+import { Request, Response, Router } from 'express';
+import { query } from '../db';
+import { requireRole } from '../services/auth';
+import { NOTIFICATION_EVENT_TYPES, NOTIFICATION_TARGET_TYPES } from '../services/notifications';
+import { defineRoute, getValidated, validate } from '../services/validation';
+import { NotificationDelivery, NotificationSubscription } from '../types';
+
+const router = Router();
+
+const deliveriesSchema = defineRoute({
+  summary: 'Notification delivery log, most recent first',
+  query: {
+    status: { type: 'string', enum: ['pending', 'sending', 'delivered', 'failed'] },
+    subscription_id: { type: 'integer', minimum: 1 },
+    limit: { type: 'integer', minimum: 1, maximum: 1000, default: 100 },
+    offset: { type: 'integer', minimum: 0, default: 0 }
+  }
+});
+
+interface SubscriptionInput {
+  name?: string;
+  event_type?: string;
+  target_type?: string;
+  target?: string;
+  secret?: string | null;
+  enabled?: boolean;
+}
+
+/**
+ * Validate a subscription request body
+ * @returns an error message, or null if the body is valid
+ */
+function validateSubscription(body: SubscriptionInput): string | null {
+  if (typeof body.name !== 'string' || body.name.trim() === '') return 'name is required';
+  if (!NOTIFICATION_EVENT_TYPES.includes(body.event_type as typeof NOTIFICATION_EVENT_TYPES[number])) {
+    return `event_type must be one of ${NOTIFICATION_EVENT_TYPES.join(', ')}`;
+  }
+  if (!NOTIFICATION_TARGET_TYPES.includes(body.target_type as typeof NOTIFICATION_TARGET_TYPES[number])) {
+    return `target_type must be one of ${NOTIFICATION_TARGET_TYPES.join(', ')}`;
+  }
+  if (typeof body.target !== 'string' || body.target.trim() === '') return 'target is required';
+  if (body.target_type === 'email') {
+    if (!/^[^@\s]+@[^@\s]+$/.test(body.target)) return 'target must be an email address';
+  } else if (!/^https?:\/\//i.test(body.target)) {
+    return 'target must be an http(s) URL';
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') return 'enabled must be a boolean';
+  return null;
+}
+
+/**
+ * Hide the signing secret in list responses
+ */
+function maskSecret(subscription: NotificationSubscription): NotificationSubscription {
+  return { ...subscription, secret: subscription.secret ? '********' : null };
+}
+
+/**
+ * GET /api/notifications/subscriptions
+ * List notification subscriptions
+ */
+router.get('/subscriptions', async (_req: Request, res: Response) => {
+  try {
+    const result = await query<NotificationSubscription>('SELECT * FROM notification_subscriptions ORDER BY id ASC');
+
+    res.json({
+      count: result.rows.length,
+      subscriptions: result.rows.map(maskSecret)
+    });
+  } catch (error) {
+    console.error('Error fetching subscriptions:', error);
+    res.status(500).json({ error: 'Failed to fetch subscriptions' });
+  }
+});
+
+/**
+ * POST /api/notifications/subscriptions
+ * Create a subscription. Webhook and Slack targets get a generated HMAC secret
+ * unless one is provided; it is only returned in full here.
+ */
+router.post('/subscriptions', requireRole('analyst'), async (req: Request, res: Response) => {
+  try {
+    const body: SubscriptionInput = req.body ?? {};
+    const validationError = validateSubscription(body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const secret = body.target_type === 'email' ? null : body.secret || randomBytes(32).toString('hex');
+    const result = await query<NotificationSubscription>(
+      `INSERT INTO notification_subscriptions (name, event_type, target_type, target, secret, enabled)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [body.name!.trim(), body.event_type, body.target_type, body.target!.trim(), secret, body.enabled ?? true]
+    );
+
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    console.error('Error creating subscription:', error);
+    res.status(500).json({ error: 'Failed to create subscription' });
+  }
+});
+
+/**
+ * PATCH /api/notifications/subscriptions/:id
+ * Enable or disable a subscription
+ */
+router.patch('/subscriptions/:id', requireRole('analyst'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid subscription id' });
+    }
+    if (typeof req.body?.enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled must be a boolean' });
+    }
+
+    const result = await query<NotificationSubscription>(
+      `UPDATE notification_subscriptions SET enabled = $2 WHERE id = $1 RETURNING *`,
+      [id, req.body.enabled]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    res.json(maskSecret(result.rows[0]));
+  } catch (error) {
+    console.error('Error updating subscription:', error);
+    res.status(500).json({ error: 'Failed to update subscription' });
+  }
+});
+
+/**
+ * DELETE /api/notifications/subscriptions/:id
+ * Delete a subscription and its delivery log
+ */
+router.delete('/subscriptions/:id', requireRole('analyst'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid subscription id' });
+    }
+
+    const result = await query('DELETE FROM notification_subscriptions WHERE id = $1', [id]);
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting subscription:', error);
+    res.status(500).json({ error: 'Failed to delete subscription' });
+  }
+});
+
+/**
+ * GET /api/notifications/deliveries
+ * Delivery log, most recent first
+ * Optional query params: status, subscription_id, limit, offset
+ */
+router.get('/deliveries', validate(deliveriesSchema), async (_req: Request, res: Response) => {
+  try {
+    const { status, subscription_id, limit, offset } = getValidated(res, deliveriesSchema).query;
+
+    const params: unknown[] = [];
+    const conditions: string[] = [];
+    if (status !== undefined) {
+      params.push(status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (subscription_id !== undefined) {
+      params.push(subscription_id);
+      conditions.push(`subscription_id = $${params.length}`);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    params.push(limit, offset);
+    const result = await query<NotificationDelivery>(
+      `SELECT * FROM notification_deliveries
+       ${where}
+       ORDER BY created_at DESC
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+
+    res.json({
+      count: result.rows.length,
+      deliveries: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching deliveries:', error);
+    res.status(500).json({ error: 'Failed to fetch deliveries' });
+  }
+});
+
+/**
+ * POST /api/notifications/deliveries/:id/retry
+ * Put a failed delivery back on the queue
+ */
+router.post('/deliveries/:id/retry', requireRole('analyst'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid delivery id' });
+    }
+
+    const result = await query<NotificationDelivery>(
+      `UPDATE notification_deliveries
+       SET status = 'pending', attempts = 0, next_attempt_at = NOW()
+       WHERE id = $1 AND status = 'failed'
+       RETURNING *`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Failed delivery not found' });
+    }
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('Error retrying delivery:', error);
+    res.status(500).json({ error: 'Failed to retry delivery' });
+  }
+});
+
+export default router;
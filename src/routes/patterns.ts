@@ -0,0 +1,113 @@
+import { Request, Response, Router } from 'express';
+import { getPatterns, getPatternWithTrack } from '../services/patterns';
+import { defineRoute, getValidated, sendValidationError, validate } from '../services/validation';
+
+const router = Router();
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const patternsSchema = defineRoute({
+  summary: 'Detected racetrack orbits, circling and loitering, most recent first',
+  description: 'Patterns overlapping `from`-`to` (default: the last 24 hours). `bbox` matches the pattern centre. ' +
+    'Fetch a pattern by id for the positions flown during it.',
+  query: {
+    from: { type: 'string', format: 'date-time' },
+    to: { type: 'string', format: 'date-time' },
+    bbox: {
+      type: 'string',
+      pattern: '^-?[\\d.]+,-?[\\d.]+,-?[\\d.]+,-?[\\d.]+$',
+      description: 'minLat,minLon,maxLat,maxLon'
+    },
+    military: { type: 'boolean', default: false },
+    type: { type: 'string', enum: ['racetrack', 'orbit', 'loiter'] },
+    icao24: { type: 'string', pattern: '^~?[0-9a-fA-F]{6}$' },
+    limit: { type: 'integer', minimum: 1, maximum: 1000, default: 200 }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      from: { type: 'string', format: 'date-time' },
+      to: { type: 'string', format: 'date-time' },
+      count: { type: 'integer' },
+      patterns: { type: 'array', items: ref('Pattern') }
+    }
+  }
+});
+
+const patternSchema = defineRoute({
+  summary: 'One detected pattern with the positions flown during it',
+  params: {
+    id: { type: 'integer', minimum: 1 }
+  },
+  response: {
+    allOf: [
+      ref('Pattern'),
+      {
+        type: 'object',
+        properties: {
+          positions: { type: 'array', items: ref('Position') }
+        }
+      }
+    ]
+  }
+});
+
+/**
+ * GET /api/patterns
+ * Detected flight patterns, most recent first
+ * Optional query params: from, to (timestamps), bbox=minLat,minLon,maxLat,maxLon, military=true, type, icao24, limit
+ */
+router.get('/', validate(patternsSchema), async (_req: Request, res: Response) => {
+  try {
+    const { from, to, bbox, military, type, icao24, limit } = getValidated(res, patternsSchema).query;
+    const end = to !== undefined ? new Date(to) : new Date();
+    const start = from !== undefined ? new Date(from) : new Date(end.getTime() - 24 * 3600 * 1000);
+
+    if (start.getTime() > end.getTime()) {
+      return sendValidationError(res, [{ in: 'query', name: 'to', message: 'to must be after from' }]);
+    }
+
+    let area;
+    if (bbox !== undefined) {
+      const [minLat, minLon, maxLat, maxLon] = bbox.split(',').map(parseFloat);
+      if ([minLat, minLon, maxLat, maxLon].some(isNaN) || minLat > maxLat || minLon > maxLon) {
+        return sendValidationError(res, [{ in: 'query', name: 'bbox', message: 'bbox must be minLat,minLon,maxLat,maxLon' }]);
+      }
+      area = { minLat, minLon, maxLat, maxLon };
+    }
+
+    const patterns = await getPatterns({ from: start, to: end, bbox: area, militaryOnly: military, type, icao24, limit });
+
+    res.json({
+      from: start.toISOString(),
+      to: end.toISOString(),
+      count: patterns.length,
+      patterns
+    });
+  } catch (error) {
+    console.error('Error fetching patterns:', error);
+    res.status(500).json({ error: 'Failed to fetch patterns' });
+  }
+});
+
+/**
+ * GET /api/patterns/:id
+ * A single pattern with its underlying track
+ */
+router.get('/:id', validate(patternSchema), async (_req: Request, res: Response) => {
+  try {
+    const { id } = getValidated(res, patternSchema).params;
+
+    const pattern = await getPatternWithTrack(parseInt(id));
+    if (!pattern) {
+      return res.status(404).json({ error: 'Pattern not found' });
+    }
+
+    res.json(pattern);
+  } catch (error) {
+    console.error('Error fetching pattern:', error);
+    res.status(500).json({ error: 'Failed to fetch pattern' });
+  }
+});
+
+export default router;
@@ -0,0 +1,129 @@
+import { Request, Response, Router } from 'express';
+import { getReplayFrames, getSnapshot } from '../services/snapshot';
+import { defineRoute, getValidated, sendValidationError, validate } from '../services/validation';
+
+const router = Router();
+
+// Replays load every position in their range at once, so both are bounded
+const REPLAY_MAX_HOURS = 6;
+const REPLAY_MAX_FRAMES = 360;
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const snapshotSchema = defineRoute({
+  summary: "Every tracked aircraft's interpolated position at a past moment",
+  description: 'Positions are interpolated between the reports around `at`; without a later report the last one is held for up to 5 minutes.',
+  query: {
+    at: { type: 'string', format: 'date-time', required: true },
+    military: { type: 'boolean', default: false }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      timestamp: { type: 'string', format: 'date-time' },
+      count: { type: 'integer' },
+      aircraft: { type: 'array', items: ref('SnapshotAircraft') }
+    }
+  }
+});
+
+const replaySchema = defineRoute({
+  summary: 'Snapshots at a fixed step between two moments, for a time slider',
+  description: `The range is limited to ${REPLAY_MAX_HOURS} hours and ${REPLAY_MAX_FRAMES} frames.`,
+  query: {
+    from: { type: 'string', format: 'date-time', required: true },
+    to: { type: 'string', format: 'date-time', required: true },
+    step: { type: 'integer', minimum: 1, maximum: 3600, default: 30, description: 'Seconds between frames' },
+    military: { type: 'boolean', default: false }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      from: { type: 'string', format: 'date-time' },
+      to: { type: 'string', format: 'date-time' },
+      step: { type: 'integer' },
+      frame_count: { type: 'integer' },
+      frames: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            timestamp: { type: 'string', format: 'date-time' },
+            count: { type: 'integer' },
+            aircraft: { type: 'array', items: ref('SnapshotAircraft') }
+          }
+        }
+      }
+    }
+  }
+});
+
+/**
+ * GET /api/snapshot
+ * Every tracked aircraft's position at a past moment
+ * Query params: at (timestamp), optional military=true
+ */
+router.get('/', validate(snapshotSchema), async (_req: Request, res: Response) => {
+  try {
+    const { at, military } = getValidated(res, snapshotSchema).query;
+    const moment = new Date(at);
+
+    if (moment.getTime() > Date.now()) {
+      return sendValidationError(res, [{ in: 'query', name: 'at', message: 'at must not be in the future' }]);
+    }
+
+    const aircraft = await getSnapshot(moment, military);
+
+    res.json({
+      timestamp: moment.toISOString(),
+      count: aircraft.length,
+      aircraft
+    });
+  } catch (error) {
+    console.error('Error fetching snapshot:', error);
+    res.status(500).json({ error: 'Failed to fetch snapshot' });
+  }
+});
+
+/**
+ * GET /api/snapshot/replay
+ * Snapshots every `step` seconds from `from` to `to`
+ * Query params: from, to (timestamps), optional step (default 30), military=true
+ */
+router.get('/replay', validate(replaySchema), async (_req: Request, res: Response) => {
+  try {
+    const { from, to, step, military } = getValidated(res, replaySchema).query;
+    const start = new Date(from);
+    const end = new Date(to);
+    const rangeSeconds = (end.getTime() - start.getTime()) / 1000;
+
+    if (rangeSeconds <= 0) {
+      return sendValidationError(res, [{ in: 'query', name: 'to', message: 'to must be after from' }]);
+    }
+    if (rangeSeconds > REPLAY_MAX_HOURS * 3600) {
+      return sendValidationError(res, [{ in: 'query', name: 'to', message: `Replays cover at most ${REPLAY_MAX_HOURS} hours` }]);
+    }
+    if (Math.floor(rangeSeconds / step) + 1 > REPLAY_MAX_FRAMES) {
+      return sendValidationError(res, [{
+        in: 'query',
+        name: 'step',
+        message: `Replays have at most ${REPLAY_MAX_FRAMES} frames; use a step of at least ${Math.ceil(rangeSeconds / (REPLAY_MAX_FRAMES - 1))} seconds`
+      }]);
+    }
+
+    const frames = await getReplayFrames(start, end, step, military);
+
+    res.json({
+      from: start.toISOString(),
+      to: end.toISOString(),
+      step,
+      frame_count: frames.length,
+      frames
+    });
+  } catch (error) {
+    console.error('Error fetching replay:', error);
+    res.status(500).json({ error: 'Failed to fetch replay' });
+  }
+});
+
+export default router;
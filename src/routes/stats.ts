@@ -1,13 +1,15 @@
 import { Request, Response, Router } from 'express';
 import { query } from '../db';
+import { describeAirport } from '../services/airports';
+import { defineRoute, getValidated, validate } from '../services/validation';
 
 const router = Router();
 
 interface StatsRow {
-  total_aircraft: string;
-  total_positions: string;
-  recent_aircraft: string;
-  daily_aircraft: string;
+  total_aircraft: number;
+  total_positions: number;
+  recent_aircraft: number;
+  daily_aircraft: number;
   database_size: string;
 }
 
@@ -29,37 +31,202 @@ interface DailyStatsRow {
 
 interface HourlyRow {
   hour: Date;
-  unique_aircraft: string;
-  positions: string;
+  unique_aircraft: number;
+  positions: number;
+}
+
+interface AirportUsageRow {
+  airport: string;
+  departures: number;
+  arrivals: number;
+}
+
+interface RouteRow {
+  departure_airport: string;
+  arrival_airport: string;
+  flights: number;
+  aircraft: number;
+  last_flown: Date;
 }
 
 interface HeatmapRow {
-  lat: string;
-  lng: string;
-  intensity: string;
+  lat: number;
+  lng: number;
+  intensity: number;
 }
 
+const airportSummary = { $ref: '#/components/schemas/AirportSummary' };
+
+const statsSchema = defineRoute({
+  summary: 'Overall tracking statistics',
+  response: {
+    type: 'object',
+    properties: {
+      timestamp: { type: 'string', format: 'date-time' },
+      total_unique_aircraft: { type: 'integer' },
+      total_positions_recorded: { type: 'integer' },
+      aircraft_last_hour: { type: 'integer' },
+      aircraft_last_24h: { type: 'integer' },
+      top_aircraft: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            icao24: { type: 'string' },
+            callsign: { type: ['string', 'null'] },
+            total_sightings: { type: 'integer' },
+            first_seen: { type: 'string', format: 'date-time' },
+            last_seen: { type: 'string', format: 'date-time' }
+          }
+        }
+      },
+      database_size: { type: 'string' }
+    }
+  }
+});
+
+const dailyStatsSchema = defineRoute({
+  summary: 'Daily statistics history',
+  query: {
+    days: { type: 'integer', minimum: 1, maximum: 365, default: 30 }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      days: { type: 'integer' },
+      stats: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            date: { type: 'string', format: 'date' },
+            unique_aircraft: { type: 'integer' },
+            total_positions: { type: 'integer' },
+            military_count: { type: 'integer' },
+            civilian_count: { type: 'integer' }
+          }
+        }
+      }
+    }
+  }
+});
+
+const hourlyStatsSchema = defineRoute({
+  summary: 'Hourly activity for today',
+  response: {
+    type: 'object',
+    properties: {
+      date: { type: 'string', format: 'date' },
+      hours: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            hour: { type: 'string', format: 'date-time' },
+            unique_aircraft: { type: 'integer' },
+            positions: { type: 'integer' }
+          }
+        }
+      }
+    }
+  }
+});
+
+const heatmapSchema = defineRoute({
+  summary: 'Position density on a 0.1° grid for heatmaps',
+  query: {
+    hours: { type: 'integer', minimum: 1, maximum: 720, default: 24 }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      hours: { type: 'integer' },
+      points: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { lat: { type: 'number' }, lng: { type: 'number' }, intensity: { type: 'integer' } }
+        }
+      }
+    }
+  }
+});
+
+const airportStatsSchema = defineRoute({
+  summary: 'Most-used airports by inferred departures and arrivals',
+  query: {
+    days: { type: 'integer', minimum: 1, maximum: 365, default: 30 },
+    limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      days: { type: 'integer' },
+      airports: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            airport: airportSummary,
+            departures: { type: 'integer' },
+            arrivals: { type: 'integer' },
+            total: { type: 'integer' }
+          }
+        }
+      }
+    }
+  }
+});
+
+const routeStatsSchema = defineRoute({
+  summary: 'Most-flown departure → arrival routes',
+  query: {
+    days: { type: 'integer', minimum: 1, maximum: 365, default: 30 },
+    limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 }
+  },
+  response: {
+    type: 'object',
+    properties: {
+      days: { type: 'integer' },
+      routes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            route: { type: 'string' },
+            departure: airportSummary,
+            arrival: airportSummary,
+            flights: { type: 'integer' },
+            aircraft: { type: 'integer' },
+            last_flown: { type: 'string', format: 'date-time' }
+          }
+        }
+      }
+    }
+  }
+});
+
 /**
  * GET /api/stats
  * Get overall tracking statistics
  */
-router.get('/', async (_req: Request, res: Response) => {
+router.get('/', validate(statsSchema), async (_req: Request, res: Response) => {
   try {
-    const aircraftResult = await query<{ total_aircraft: string }>(
+    const aircraftResult = await query<{ total_aircraft: number }>(
       'SELECT COUNT(*) as total_aircraft FROM aircraft'
     );
 
-    const positionsResult = await query<{ total_positions: string }>(
+    const positionsResult = await query<{ total_positions: number }>(
       'SELECT COUNT(*) as total_positions FROM positions'
     );
 
-    const recentResult = await query<{ recent_aircraft: string }>(
+    const recentResult = await query<{ recent_aircraft: number }>(
       `SELECT COUNT(DISTINCT icao24) as recent_aircraft
        FROM positions
        WHERE timestamp > NOW() - INTERVAL '1 hour'`
     );
 
-    const dailyResult = await query<{ daily_aircraft: string }>(
+    const dailyResult = await query<{ daily_aircraft: number }>(
       `SELECT COUNT(DISTINCT icao24) as daily_aircraft
        FROM positions
        WHERE timestamp > NOW() - INTERVAL '24 hours'`
@@ -83,10 +250,10 @@ router.get('/', async (_req: Request, res: Response) => {
 
     res.json({
       timestamp: new Date().toISOString(),
-      total_unique_aircraft: parseInt(aircraftResult.rows[0].total_aircraft),
-      total_positions_recorded: parseInt(positionsResult.rows[0].total_positions),
-      aircraft_last_hour: parseInt(recentResult.rows[0].recent_aircraft),
-      aircraft_last_24h: parseInt(dailyResult.rows[0].daily_aircraft),
+      total_unique_aircraft: aircraftResult.rows[0].total_aircraft,
+      total_positions_recorded: positionsResult.rows[0].total_positions,
+      aircraft_last_hour: recentResult.rows[0].recent_aircraft,
+      aircraft_last_24h: dailyResult.rows[0].daily_aircraft,
       top_aircraft: topAircraftResult.rows,
       database_size: dbSizeResult.rows[0].database_size
     });
@@ -100,11 +267,10 @@ router.get('/', async (_req: Request, res: Response) => {
  * GET /api/stats/daily
  * Get daily statistics history
  */
-router.get('/daily', async (req: Request, res: Response) => {
+router.get('/daily', validate(dailyStatsSchema), async (_req: Request, res: Response) => {
   try {
-    const { days = 30 } = req.query;
+    const { days } = getValidated(res, dailyStatsSchema).query;
 
-    const daysNum = parseInt(days as string) || 30;
     const result = await query<DailyStatsRow>(
       `SELECT 
          date,
@@ -115,11 +281,11 @@ router.get('/daily', async (req: Request, res: Response) => {
        FROM daily_stats
        WHERE date > CURRENT_DATE - ($1 || ' days')::INTERVAL
        ORDER BY date DESC`,
-      [daysNum]
+      [days]
     );
 
     res.json({
-      days: parseInt(days as string),
+      days,
       stats: result.rows
     });
   } catch (error) {
@@ -132,7 +298,7 @@ router.get('/daily', async (req: Request, res: Response) => {
  * GET /api/stats/hourly
  * Get hourly activity for today
  */
-router.get('/hourly', async (_req: Request, res: Response) => {
+router.get('/hourly', validate(hourlyStatsSchema), async (_req: Request, res: Response) => {
   try {
     const result = await query<HourlyRow>(
       `SELECT 
@@ -159,11 +325,10 @@ router.get('/hourly', async (_req: Request, res: Response) => {
  * GET /api/stats/heatmap
  * Get position data for heatmap visualization
  */
-router.get('/heatmap', async (req: Request, res: Response) => {
+router.get('/heatmap', validate(heatmapSchema), async (_req: Request, res: Response) => {
   try {
-    const { hours = 24 } = req.query;
+    const { hours } = getValidated(res, heatmapSchema).query;
 
-    const hoursNum = parseInt(hours as string) || 24;
     const result = await query<HeatmapRow>(
       `SELECT 
          ROUND(latitude::numeric, 1) as lat,
@@ -176,15 +341,15 @@ router.get('/heatmap', async (req: Request, res: Response) => {
        GROUP BY ROUND(latitude::numeric, 1), ROUND(longitude::numeric, 1)
        ORDER BY intensity DESC
        LIMIT 500`,
-      [hoursNum]
+      [hours]
     );
 
     res.json({
-      hours: parseInt(hours as string),
+      hours,
       points: result.rows.map((row: HeatmapRow) => ({
-        lat: parseFloat(row.lat),
-        lng: parseFloat(row.lng),
-        intensity: parseInt(row.intensity)
+        lat: row.lat,
+        lng: row.lng,
+        intensity: row.intensity
       }))
     });
   } catch (error) {
@@ -193,4 +358,91 @@ router.get('/heatmap', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/stats/airports
+ * Most-used airports by inferred departures and arrivals
+ */
+router.get('/airports', validate(airportStatsSchema), async (_req: Request, res: Response) => {
+  try {
+    const { days, limit } = getValidated(res, airportStatsSchema).query;
+
+    const result = await query<AirportUsageRow>(
+      `SELECT
+         airport,
+         COUNT(*) FILTER (WHERE kind = 'departure') as departures,
+         COUNT(*) FILTER (WHERE kind = 'arrival') as arrivals
+       FROM (
+         SELECT departure_airport as airport, 'departure' as kind FROM flights
+         WHERE departure_airport IS NOT NULL AND start_time > NOW() - ($1 || ' days')::INTERVAL
+         UNION ALL
+         SELECT arrival_airport as airport, 'arrival' as kind FROM flights
+         WHERE arrival_airport IS NOT NULL AND start_time > NOW() - ($1 || ' days')::INTERVAL
+       ) usage
+       GROUP BY airport
+       ORDER BY COUNT(*) DESC
+       LIMIT $2`,
+      [days, limit]
+    );
+
+    res.json({
+      days,
+      airports: result.rows.map((row: AirportUsageRow) => ({
+        airport: describeAirport(row.airport) ?? { ident: row.airport },
+        departures: row.departures,
+        arrivals: row.arrivals,
+        total: row.departures + row.arrivals
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching airport stats:', error);
+    res.status(500).json({ error: 'Failed to fetch airport statistics' });
+  }
+});
+
+/**
+ * GET /api/stats/routes
+ * Most-flown departure → arrival routes
+ */
+router.get('/routes', validate(routeStatsSchema), async (_req: Request, res: Response) => {
+  try {
+    const { days, limit } = getValidated(res, routeStatsSchema).query;
+
+    const result = await query<RouteRow>(
+      `SELECT
+         departure_airport,
+         arrival_airport,
+         COUNT(*) as flights,
+         COUNT(DISTINCT icao24) as aircraft,
+         MAX(end_time) as last_flown
+       FROM flights
+       WHERE departure_airport IS NOT NULL
+         AND arrival_airport IS NOT NULL
+         AND start_time > NOW() - ($1 || ' days')::INTERVAL
+       GROUP BY departure_airport, arrival_airport
+       ORDER BY flights DESC
+       LIMIT $2`,
+      [days, limit]
+    );
+
+    res.json({
+      days,
+      routes: result.rows.map((row: RouteRow) => {
+        const departure = describeAirport(row.departure_airport) ?? { ident: row.departure_airport };
+        const arrival = describeAirport(row.arrival_airport) ?? { ident: row.arrival_airport };
+        return {
+          route: `${departure.ident} → ${arrival.ident}`,
+          departure,
+          arrival,
+          flights: row.flights,
+          aircraft: row.aircraft,
+          last_flown: row.last_flown
+        };
+      })
+    });
+  } catch (error) {
+    console.error('Error fetching route stats:', error);
+    res.status(500).json({ error: 'Failed to fetch route statistics' });
+  }
+});
+
 export default router;
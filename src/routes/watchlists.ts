@@ -0,0 +1,231 @@
+import { Request, Response, Router } from 'express';
+import { query } from '../db';
+import { requireRole } from '../services/auth';
+import { isValidHex } from '../services/watchlists';
+import { HexRange, Watchlist } from '../types';
+
+const router = Router();
+
+interface WatchlistInput {
+  name?: string;
+  description?: string | null;
+  enabled?: boolean;
+  hex_ranges?: HexRange[];
+  hex_codes?: string[];
+  callsign_patterns?: string[];
+  aircraft_types?: string[];
+  registration_prefixes?: string[];
+}
+
+const LIST_FIELDS = ['hex_codes', 'callsign_patterns', 'aircraft_types', 'registration_prefixes'] as const;
+
+/**
+ * Validate a watchlist request body
+ * @returns an error message, or null if the body is valid
+ */
+function validateWatchlist(body: WatchlistInput, partial: boolean): string | null {
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') return 'name is required';
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') return 'enabled must be a boolean';
+
+  for (const field of LIST_FIELDS) {
+    const value = body[field];
+    if (value !== undefined && (!Array.isArray(value) || value.some((v) => typeof v !== 'string'))) {
+      return `${field} must be an array of strings`;
+    }
+  }
+  if (body.hex_codes?.some((hex) => !isValidHex(hex.replace(/^~/, '')))) {
+    return 'hex_codes must contain 6-digit hex addresses';
+  }
+  if (body.hex_ranges !== undefined) {
+    if (!Array.isArray(body.hex_ranges)) return 'hex_ranges must be an array';
+    for (const range of body.hex_ranges) {
+      if (!range || typeof range.from !== 'string' || typeof range.to !== 'string' ||
+          !isValidHex(range.from) || !isValidHex(range.to)) {
+        return 'hex_ranges must contain { from, to } 6-digit hex addresses';
+      }
+      if (parseInt(range.from, 16) > parseInt(range.to, 16)) return 'hex_ranges "from" must not exceed "to"';
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalise list values (trimmed, hex lowercased) before storing
+ */
+function normaliseWatchlist(body: WatchlistInput): WatchlistInput {
+  return {
+    ...body,
+    name: body.name?.trim(),
+    hex_codes: body.hex_codes?.map((hex) => hex.trim().toLowerCase()),
+    hex_ranges: body.hex_ranges?.map((r) => ({ from: r.from.toLowerCase(), to: r.to.toLowerCase() })),
+    callsign_patterns: body.callsign_patterns?.map((p) => p.trim()),
+    aircraft_types: body.aircraft_types?.map((t) => t.trim().toUpperCase()),
+    registration_prefixes: body.registration_prefixes?.map((p) => p.trim().toUpperCase())
+  };
+}
+
+/**
+ * GET /api/watchlists
+ * List all watchlists
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const result = await query<Watchlist>('SELECT * FROM watchlists ORDER BY id ASC');
+
+    res.json({
+      count: result.rows.length,
+      watchlists: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching watchlists:', error);
+    res.status(500).json({ error: 'Failed to fetch watchlists' });
+  }
+});
+
+/**
+ * GET /api/watchlists/:id
+ * Get a single watchlist
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid watchlist id' });
+    }
+
+    const result = await query<Watchlist>('SELECT * FROM watchlists WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Watchlist not found' });
+    }
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('Error fetching watchlist:', error);
+    res.status(500).json({ error: 'Failed to fetch watchlist' });
+  }
+});
+
+/**
+ * POST /api/watchlists
+ * Create a watchlist
+ */
+router.post('/', requireRole('analyst'), async (req: Request, res: Response) => {
+  try {
+    const validationError = validateWatchlist(req.body ?? {}, false);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const body = normaliseWatchlist(req.body);
+    const result = await query<Watchlist>(
+      `INSERT INTO watchlists (name, description, enabled, hex_ranges, hex_codes, callsign_patterns, aircraft_types, registration_prefixes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        body.name,
+        body.description ?? null,
+        body.enabled ?? true,
+        JSON.stringify(body.hex_ranges ?? []),
+        body.hex_codes ?? [],
+        body.callsign_patterns ?? [],
+        body.aircraft_types ?? [],
+        body.registration_prefixes ?? []
+      ]
+    );
+
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    if ((error as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'A watchlist with this name already exists' });
+    }
+    console.error('Error creating watchlist:', error);
+    res.status(500).json({ error: 'Failed to create watchlist' });
+  }
+});
+
+/**
+ * PUT /api/watchlists/:id
+ * Update a watchlist, only the provided fields are changed
+ */
+router.put('/:id', requireRole('analyst'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid watchlist id' });
+    }
+
+    const validationError = validateWatchlist(req.body ?? {}, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const body = normaliseWatchlist(req.body ?? {});
+    const result = await query<Watchlist>(
+      `UPDATE watchlists SET
+         name = COALESCE($2, name),
+         description = CASE WHEN $3::BOOLEAN THEN $4 ELSE description END,
+         enabled = COALESCE($5, enabled),
+         hex_ranges = COALESCE($6::JSONB, hex_ranges),
+         hex_codes = COALESCE($7, hex_codes),
+         callsign_patterns = COALESCE($8, callsign_patterns),
+         aircraft_types = COALESCE($9, aircraft_types),
+         registration_prefixes = COALESCE($10, registration_prefixes),
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING *`,
+      [
+        id,
+        body.name ?? null,
+        body.description !== undefined,
+        body.description ?? null,
+        body.enabled ?? null,
+        body.hex_ranges ? JSON.stringify(body.hex_ranges) : null,
+        body.hex_codes ?? null,
+        body.callsign_patterns ?? null,
+        body.aircraft_types ?? null,
+        body.registration_prefixes ?? null
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Watchlist not found' });
+    }
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    if ((error as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'A watchlist with this name already exists' });
+    }
+    console.error('Error updating watchlist:', error);
+    res.status(500).json({ error: 'Failed to update watchlist' });
+  }
+});
+
+/**
+ * DELETE /api/watchlists/:id
+ * Delete a watchlist (stored positions keep their recorded watchlist ids)
+ */
+router.delete('/:id', requireRole('analyst'), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid watchlist id' });
+    }
+
+    const result = await query('DELETE FROM watchlists WHERE id = $1', [id]);
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Watchlist not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting watchlist:', error);
+    res.status(500).json({ error: 'Failed to delete watchlist' });
+  }
+});
+
+export default router;
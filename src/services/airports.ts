@@ -0,0 +1,148 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { Airport, AirportSummary, Flight } from '../types';
+import { parseCsvLine } from './csv';
+import { haversineDistance } from './geo';
+
+const AIRPORTS_CSV = process.env.AIRPORTS_CSV || path.join(__dirname, '../../data/airports.csv');
+
+// How far a low-altitude position may be from an airport and still be attributed to it
+const AIRPORT_MAX_DISTANCE_KM = parseFloat(process.env.AIRPORT_MAX_DISTANCE_KM || '15');
+
+// Positions at or below this altitude (feet) count as departing/arriving
+export const LOW_ALTITUDE_FT = parseFloat(process.env.LOW_ALTITUDE_FT || '5000');
+
+// OurAirports types that can host the flights we track
+const AIRPORT_TYPES = new Set(['large_airport', 'medium_airport', 'small_airport']);
+
+let airports: Airport[] | null = null;
+let airportsByIdent = new Map<string, Airport>();
+
+/**
+ * Parse an OurAirports airports.csv export
+ */
+export function parseAirportsCsv(csv: string): Airport[] {
+  const lines = csv.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) return [];
+
+  const header = parseCsvLine(lines[0]);
+  const column = (name: string) => header.indexOf(name);
+  const cols = {
+    ident: column('ident'),
+    type: column('type'),
+    name: column('name'),
+    latitude: column('latitude_deg'),
+    longitude: column('longitude_deg'),
+    elevation: column('elevation_ft'),
+    country: column('iso_country'),
+    municipality: column('municipality'),
+    iata: column('iata_code'),
+    gps: column('gps_code')
+  };
+
+  const result: Airport[] = [];
+  for (const line of lines.slice(1)) {
+    const fields = parseCsvLine(line);
+    const type = fields[cols.type];
+    const latitude = parseFloat(fields[cols.latitude]);
+    const longitude = parseFloat(fields[cols.longitude]);
+    if (!AIRPORT_TYPES.has(type) || isNaN(latitude) || isNaN(longitude)) continue;
+
+    result.push({
+      ident: fields[cols.ident],
+      type,
+      name: fields[cols.name],
+      latitude,
+      longitude,
+      elevation_ft: parseFloat(fields[cols.elevation]) || null,
+      iso_country: fields[cols.country] || null,
+      municipality: fields[cols.municipality] || null,
+      iata_code: fields[cols.iata] || null,
+      gps_code: fields[cols.gps] || null
+    });
+  }
+  return result;
+}
+
+/**
+ * Get the airport dataset, loading the CSV on first use
+ */
+export function getAirports(): Airport[] {
+  if (!airports) {
+    try {
+      airports = parseAirportsCsv(readFileSync(AIRPORTS_CSV, 'utf8'));
+      console.log(`🛬 Loaded ${airports.length} airports from ${AIRPORTS_CSV}`);
+    } catch (error) {
+      console.error('Error loading airports:', (error as Error).message);
+      airports = [];
+    }
+    airportsByIdent = new Map(airports.map((a) => [a.ident, a]));
+  }
+  return airports;
+}
+
+/**
+ * Look up an airport by its OurAirports ident (usually the ICAO code)
+ */
+export function getAirport(ident: string | null | undefined): Airport | null {
+  if (!ident) return null;
+  getAirports();
+  return airportsByIdent.get(ident.toUpperCase()) ?? null;
+}
+
+/**
+ * Find the nearest airport to a coordinate
+ * @returns the airport and its distance in km, or null if none is within maxDistanceKm
+ */
+export function findNearestAirport(
+  latitude: number,
+  longitude: number,
+  maxDistanceKm: number = AIRPORT_MAX_DISTANCE_KM
+): { airport: Airport; distance_km: number } | null {
+  let nearest: { airport: Airport; distance_km: number } | null = null;
+
+  for (const airport of getAirports()) {
+    // Cheap bounding check before the haversine (1° latitude ≈ 111 km)
+    if (Math.abs(airport.latitude - latitude) * 111 > maxDistanceKm) continue;
+
+    const distance = haversineDistance(latitude, longitude, airport.latitude, airport.longitude);
+    if (distance <= maxDistanceKm && (!nearest || distance < nearest.distance_km)) {
+      nearest = { airport, distance_km: distance };
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Infer departure and arrival airports of a flight
+ * Departure is only known if the flight was first seen at low altitude (i.e. we saw
+ * the take-off), arrival only once the flight has completed at low altitude or landed
+ */
+export function inferFlightAirports(
+  flight: Pick<Flight, 'status' | 'end_reason' | 'first_latitude' | 'first_longitude' | 'first_altitude' |
+    'last_latitude' | 'last_longitude' | 'last_altitude'>
+): { departure_airport: string | null; arrival_airport: string | null } {
+  const isLow = (altitude: number | null) => altitude != null && Number(altitude) <= LOW_ALTITUDE_FT;
+
+  let departure_airport: string | null = null;
+  if (isLow(flight.first_altitude)) {
+    departure_airport = findNearestAirport(Number(flight.first_latitude), Number(flight.first_longitude))?.airport.ident ?? null;
+  }
+
+  let arrival_airport: string | null = null;
+  if (flight.status === 'completed' && (flight.end_reason === 'landed' || isLow(flight.last_altitude))) {
+    arrival_airport = findNearestAirport(Number(flight.last_latitude), Number(flight.last_longitude))?.airport.ident ?? null;
+  }
+
+  return { departure_airport, arrival_airport };
+}
+
+/**
+ * Compact airport description for API responses
+ */
+export function describeAirport(ident: string | null | undefined): AirportSummary | null {
+  const airport = getAirport(ident);
+  if (!airport) return null;
+  const { name, iata_code, municipality, iso_country, latitude, longitude } = airport;
+  return { ident: airport.ident, name, iata_code, municipality, iso_country, latitude, longitude };
+}
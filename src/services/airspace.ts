@@ -0,0 +1,447 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { query } from '../db';
+import { Airspace, AirspaceIncursion, BorderProximityPass } from '../types';
+import { FLIGHT_GAP_MINUTES } from './flights';
+import { distanceToSegment, pointInPolygon } from './geo';
+
+export const AIRSPACES_GEOJSON = process.env.AIRSPACES_GEOJSON || path.join(__dirname, '../../data/airspaces.geojson');
+
+// Positions re-tagged per query when the boundaries are reloaded
+const TAG_BATCH_SIZE = 5000;
+
+// Border segments are indexed in cells of this many degrees
+const BORDER_INDEX_DEGREES = 1;
+
+const KM_PER_DEGREE = 111.32;
+
+// Feature properties read for the code, name and type, in order of preference.
+// Covers Natural Earth country boundaries and the usual FIR datasets.
+const CODE_PROPERTIES = ['code', 'icao', 'ident', 'id', 'iso_a2', 'iso', 'country_code'];
+const NAME_PROPERTIES = ['name', 'admin', 'name_en'];
+const TYPE_PROPERTIES = ['type', 'class'];
+
+type Ring = [number, number][];
+type Segment = [[number, number], [number, number]];
+
+let airspaces: Airspace[] | null = null;
+let airspacesByCode = new Map<string, Airspace>();
+// Border segments of each airspace by index cell, built on first use
+const borderIndexes = new Map<string, Map<string, Segment[]>>();
+
+/**
+ * Read the first of several properties present, matching names case-insensitively
+ */
+function readProperty(properties: Record<string, unknown>, names: string[]): string | null {
+  const byName = new Map(Object.entries(properties).map(([key, value]) => [key.toLowerCase(), value]));
+  for (const name of names) {
+    const value = byName.get(name);
+    if ((typeof value === 'string' && value.trim() !== '') || typeof value === 'number') return String(value).trim();
+  }
+  return null;
+}
+
+/**
+ * Keep the [lon, lat] pairs of a GeoJSON ring, dropping anything malformed
+ */
+function toRing(raw: unknown): Ring | null {
+  if (!Array.isArray(raw)) return null;
+  const ring = raw
+    .filter((p): p is number[] => Array.isArray(p) && Number.isFinite(p[0]) && Number.isFinite(p[1]))
+    .map((p) => [p[0], p[1]] as [number, number]);
+  return ring.length >= 3 ? ring : null;
+}
+
+/**
+ * Parse a GeoJSON FeatureCollection of Polygon/MultiPolygon boundaries
+ * Features sharing a code are merged; features without a code or polygon are skipped
+ */
+export function parseAirspaces(geojson: unknown): Airspace[] {
+  const root = geojson as { type?: string; features?: unknown[] } | null;
+  const features = root?.type === 'Feature' ? [root] : root?.features ?? [];
+
+  const byCode = new Map<string, Airspace>();
+  for (const feature of features as { id?: unknown; properties?: Record<string, unknown>; geometry?: { type?: string; coordinates?: unknown } }[]) {
+    const properties = feature?.properties ?? {};
+    const code = (readProperty(properties, CODE_PROPERTIES) ?? (feature?.id != null ? String(feature.id) : null))?.toUpperCase();
+    // Natural Earth marks disputed areas without a code as -99
+    if (!code || code.startsWith('-') || code.length > 20) continue;
+
+    const geometry = feature?.geometry;
+    const rawPolygons = geometry?.type === 'Polygon' ? [geometry.coordinates]
+      : geometry?.type === 'MultiPolygon' ? geometry.coordinates
+      : null;
+    if (!Array.isArray(rawPolygons)) continue;
+
+    const polygons = rawPolygons
+      .map((rings) => (Array.isArray(rings) ? rings.map(toRing) : []))
+      .filter((rings): rings is Ring[] => rings.length > 0 && rings.every((ring) => ring !== null));
+    if (polygons.length === 0) continue;
+
+    const airspace = byCode.get(code) ?? {
+      code,
+      name: readProperty(properties, NAME_PROPERTIES),
+      type: readProperty(properties, TYPE_PROPERTIES),
+      polygons: [],
+      bbox: { minLat: 90, minLon: 180, maxLat: -90, maxLon: -180 }
+    };
+    for (const polygon of polygons) {
+      airspace.polygons.push(polygon);
+      for (const [lon, lat] of polygon[0]) {
+        airspace.bbox.minLat = Math.min(airspace.bbox.minLat, lat);
+        airspace.bbox.maxLat = Math.max(airspace.bbox.maxLat, lat);
+        airspace.bbox.minLon = Math.min(airspace.bbox.minLon, lon);
+        airspace.bbox.maxLon = Math.max(airspace.bbox.maxLon, lon);
+      }
+    }
+    byCode.set(code, airspace);
+  }
+  return Array.from(byCode.values());
+}
+
+/**
+ * Get the airspace boundaries, loading the GeoJSON file on first use
+ * Without the file every position is left untagged
+ */
+export function getAirspaces(): Airspace[] {
+  if (!airspaces) {
+    try {
+      airspaces = parseAirspaces(JSON.parse(readFileSync(AIRSPACES_GEOJSON, 'utf8')));
+      console.log(`🗺️ Loaded ${airspaces.length} airspaces from ${AIRSPACES_GEOJSON}`);
+    } catch (error) {
+      console.error('Error loading airspaces:', (error as Error).message);
+      airspaces = [];
+    }
+    airspacesByCode = new Map(airspaces.map((a) => [a.code, a]));
+    borderIndexes.clear();
+  }
+  return airspaces;
+}
+
+/**
+ * Look up a loaded airspace by code (case-insensitive)
+ */
+export function getAirspace(code: string): Airspace | null {
+  getAirspaces();
+  return airspacesByCode.get(code.toUpperCase()) ?? null;
+}
+
+/**
+ * Re-read the GeoJSON file
+ * @returns number of airspaces loaded
+ */
+export function reloadAirspaces(): number {
+  airspaces = null;
+  return getAirspaces().length;
+}
+
+/**
+ * Check if a coordinate lies inside an airspace: inside an outer ring and outside its holes
+ */
+export function isInsideAirspace(airspace: Airspace, lat: number, lon: number): boolean {
+  const { bbox } = airspace;
+  if (lat < bbox.minLat || lat > bbox.maxLat || lon < bbox.minLon || lon > bbox.maxLon) return false;
+  return airspace.polygons.some(([outer, ...holes]) =>
+    pointInPolygon(lat, lon, outer) && !holes.some((hole) => pointInPolygon(lat, lon, hole))
+  );
+}
+
+/**
+ * Code of the airspace a coordinate falls in; where airspaces overlap the one
+ * listed first in the file wins
+ */
+export function airspaceAt(lat: number, lon: number): string | null {
+  return getAirspaces().find((airspace) => isInsideAirspace(airspace, lat, lon))?.code ?? null;
+}
+
+/**
+ * Border segments of an airspace bucketed by index cell
+ * Cuts along the antimeridian are left out, they aren't real borders
+ */
+function getBorderIndex(airspace: Airspace): Map<string, Segment[]> {
+  const existing = borderIndexes.get(airspace.code);
+  if (existing) return existing;
+
+  const index = new Map<string, Segment[]>();
+  for (const polygon of airspace.polygons) {
+    for (const ring of polygon) {
+      for (let i = 0; i < ring.length; i++) {
+        const a = ring[i];
+        const b = ring[(i + 1) % ring.length];
+        if (Math.abs(b[0] - a[0]) > 180 || (Math.abs(a[0]) === 180 && a[0] === b[0])) continue;
+
+        const cell = (value: number) => Math.floor(value / BORDER_INDEX_DEGREES);
+        for (let y = cell(Math.min(a[1], b[1])); y <= cell(Math.max(a[1], b[1])); y++) {
+          for (let x = cell(Math.min(a[0], b[0])); x <= cell(Math.max(a[0], b[0])); x++) {
+            const key = `${y},${x}`;
+            const segments = index.get(key) ?? [];
+            segments.push([a, b]);
+            index.set(key, segments);
+          }
+        }
+      }
+    }
+  }
+  borderIndexes.set(airspace.code, index);
+  return index;
+}
+
+/**
+ * Distance from a coordinate to the nearest point of an airspace's border
+ * @returns distance in kilometers, or null if the border is further than maxKm
+ */
+export function distanceToBorder(airspace: Airspace, lat: number, lon: number, maxKm: number): number | null {
+  const index = getBorderIndex(airspace);
+  const dLat = maxKm / KM_PER_DEGREE;
+  const dLon = maxKm / (KM_PER_DEGREE * Math.max(Math.cos(lat * Math.PI / 180), 0.01));
+  const cell = (value: number) => Math.floor(value / BORDER_INDEX_DEGREES);
+  const wrap = (x: number) => {
+    const cells = 360 / BORDER_INDEX_DEGREES;
+    return ((x + cells / 2) % cells + cells) % cells - cells / 2;
+  };
+
+  let closest: number | null = null;
+  for (let y = cell(lat - dLat); y <= cell(lat + dLat); y++) {
+    for (let x = cell(lon - dLon); x <= cell(lon + dLon); x++) {
+      for (const [a, b] of index.get(`${y},${wrap(x)}`) ?? []) {
+        const distance = distanceToSegment(lat, lon, a, b);
+        if (distance <= maxKm && (closest === null || distance < closest)) closest = distance;
+      }
+    }
+  }
+  return closest;
+}
+
+/**
+ * Tag positions of the last `hours` with the airspace they fall in, e.g. after
+ * changing the boundary file
+ * @returns number of positions whose tag changed
+ */
+export async function tagPositions(hours: number): Promise<number> {
+  let changed = 0;
+  let lastId = 0;
+
+  while (true) {
+    const result = await query<{ id: number; latitude: number; longitude: number; airspace: string | null }>(
+      `SELECT id, latitude, longitude, airspace
+       FROM positions
+       WHERE id > $1 AND timestamp > NOW() - ($2 || ' hours')::INTERVAL
+         AND latitude IS NOT NULL AND longitude IS NOT NULL
+       ORDER BY id ASC
+       LIMIT $3`,
+      [lastId, hours, TAG_BATCH_SIZE]
+    );
+    if (result.rows.length === 0) break;
+
+    const ids: number[] = [];
+    const codes: (string | null)[] = [];
+    for (const row of result.rows) {
+      const code = airspaceAt(row.latitude, row.longitude);
+      if (code !== row.airspace) {
+        ids.push(row.id);
+        codes.push(code);
+      }
+    }
+    if (ids.length > 0) {
+      await query(
+        `UPDATE positions p SET airspace = u.airspace
+         FROM unnest($1::INTEGER[], $2::TEXT[]) AS u(id, airspace)
+         WHERE p.id = u.id`,
+        [ids, codes]
+      );
+      changed += ids.length;
+    }
+    lastId = result.rows[result.rows.length - 1].id;
+  }
+
+  return changed;
+}
+
+/**
+ * Stays of tracked aircraft inside an airspace during the last `hours`, most recent first
+ * A stay ends when the aircraft is reported elsewhere or not seen for FLIGHT_GAP_MINUTES
+ */
+export async function getIncursions(code: string, hours: number, limit: number): Promise<AirspaceIncursion[]> {
+  const result = await query<{
+    icao24: string;
+    callsign: string | null;
+    aircraft_type: string | null;
+    is_military: boolean;
+    entered_from: string | null;
+    exited_to: string | null;
+    entered_at: Date;
+    exited_at: Date;
+    positions: number;
+    entry_latitude: number;
+    entry_longitude: number;
+    entry_altitude: number | null;
+    exit_latitude: number;
+    exit_longitude: number;
+    exit_altitude: number | null;
+    active: boolean;
+  }>(
+    `WITH candidates AS (
+       SELECT DISTINCT icao24 FROM positions
+       WHERE airspace = $1 AND timestamp > NOW() - ($2 || ' hours')::INTERVAL
+     ), reports AS (
+       SELECT p.icao24, p.callsign, p.latitude, p.longitude, p.altitude, p.timestamp, p.airspace,
+         LAG(p.airspace) OVER w as previous_airspace,
+         LAG(p.timestamp) OVER w as previous_timestamp,
+         LEAD(p.airspace) OVER w as next_airspace,
+         LEAD(p.timestamp) OVER w as next_timestamp
+       FROM positions p
+       JOIN candidates c ON c.icao24 = p.icao24
+       WHERE p.timestamp > NOW() - ($2 || ' hours')::INTERVAL AND p.latitude IS NOT NULL
+       WINDOW w AS (PARTITION BY p.icao24 ORDER BY p.timestamp)
+     ), stays AS (
+       SELECT *,
+         SUM(CASE
+           WHEN previous_timestamp IS NULL
+             OR airspace IS DISTINCT FROM previous_airspace
+             OR timestamp - previous_timestamp > ($3 || ' minutes')::INTERVAL
+           THEN 1 ELSE 0 END) OVER (PARTITION BY icao24 ORDER BY timestamp) as stay
+       FROM reports
+     )
+     SELECT
+       s.icao24,
+       (ARRAY_AGG(s.callsign ORDER BY s.timestamp DESC))[1] as callsign,
+       a.aircraft_type,
+       a.is_military,
+       (ARRAY_AGG(CASE WHEN s.timestamp - s.previous_timestamp <= ($3 || ' minutes')::INTERVAL THEN s.previous_airspace END
+         ORDER BY s.timestamp ASC))[1] as entered_from,
+       (ARRAY_AGG(CASE WHEN s.next_timestamp - s.timestamp <= ($3 || ' minutes')::INTERVAL THEN s.next_airspace END
+         ORDER BY s.timestamp DESC))[1] as exited_to,
+       MIN(s.timestamp) as entered_at,
+       MAX(s.timestamp) as exited_at,
+       COUNT(*) as positions,
+       (ARRAY_AGG(s.latitude ORDER BY s.timestamp ASC))[1] as entry_latitude,
+       (ARRAY_AGG(s.longitude ORDER BY s.timestamp ASC))[1] as entry_longitude,
+       (ARRAY_AGG(s.altitude ORDER BY s.timestamp ASC))[1] as entry_altitude,
+       (ARRAY_AGG(s.latitude ORDER BY s.timestamp DESC))[1] as exit_latitude,
+       (ARRAY_AGG(s.longitude ORDER BY s.timestamp DESC))[1] as exit_longitude,
+       (ARRAY_AGG(s.altitude ORDER BY s.timestamp DESC))[1] as exit_altitude,
+       BOOL_AND(s.next_timestamp IS NULL OR s.next_airspace = $1)
+         AND MAX(s.timestamp) > NOW() - ($3 || ' minutes')::INTERVAL as active
+     FROM stays s
+     JOIN aircraft a ON a.icao24 = s.icao24
+     WHERE s.airspace = $1
+     GROUP BY s.icao24, s.stay, a.aircraft_type, a.is_military
+     ORDER BY entered_at DESC
+     LIMIT $4`,
+    [code, hours, FLIGHT_GAP_MINUTES, limit]
+  );
+
+  return result.rows.map((row) => ({
+    icao24: row.icao24,
+    callsign: row.callsign,
+    aircraft_type: row.aircraft_type,
+    is_military: row.is_military,
+    entered_from: row.entered_from,
+    exited_to: row.exited_to,
+    entered_at: row.entered_at,
+    exited_at: row.exited_at,
+    duration_seconds: Math.round((new Date(row.exited_at).getTime() - new Date(row.entered_at).getTime()) / 1000),
+    positions: row.positions,
+    entry: { latitude: row.entry_latitude, longitude: row.entry_longitude, altitude: row.entry_altitude },
+    exit: { latitude: row.exit_latitude, longitude: row.exit_longitude, altitude: row.exit_altitude },
+    active: row.active
+  }));
+}
+
+/**
+ * Passes of tracked aircraft within distanceKm of an airspace's border during the
+ * last `hours`, most recent first. A pass ends when the aircraft moves out of range
+ * or isn't seen for FLIGHT_GAP_MINUTES.
+ */
+export async function getBorderProximity(
+  airspace: Airspace,
+  distanceKm: number,
+  hours: number,
+  limit: number
+): Promise<BorderProximityPass[]> {
+  // Only positions near the airspace's bounding box can be near its border
+  const { bbox } = airspace;
+  const dLat = distanceKm / KM_PER_DEGREE;
+  const maxAbsLat = Math.min(Math.max(Math.abs(bbox.minLat), Math.abs(bbox.maxLat)) + dLat, 89);
+  const dLon = distanceKm / (KM_PER_DEGREE * Math.cos(maxAbsLat * Math.PI / 180));
+  const wrapsAround = bbox.minLon - dLon < -180 || bbox.maxLon + dLon > 180;
+
+  const result = await query<{
+    icao24: string;
+    callsign: string | null;
+    latitude: number;
+    longitude: number;
+    altitude: number | null;
+    timestamp: Date;
+    aircraft_type: string | null;
+    is_military: boolean;
+  }>(
+    `SELECT p.icao24, p.callsign, p.latitude, p.longitude, p.altitude, p.timestamp, a.aircraft_type, a.is_military
+     FROM positions p
+     JOIN aircraft a ON a.icao24 = p.icao24
+     WHERE p.timestamp > NOW() - ($1 || ' hours')::INTERVAL
+       AND p.latitude BETWEEN $2 AND $3
+       AND ($6 OR p.longitude BETWEEN $4 AND $5)
+     ORDER BY p.icao24, p.timestamp ASC`,
+    [hours, bbox.minLat - dLat, bbox.maxLat + dLat, bbox.minLon - dLon, bbox.maxLon + dLon, wrapsAround]
+  );
+
+  const passes: BorderProximityPass[] = [];
+  let current: (BorderProximityPass & { sides: Set<string> }) | null = null;
+  const close = () => {
+    if (!current) return;
+    const { sides, ...pass } = current;
+    pass.crossed = sides.size > 1;
+    pass.duration_seconds = Math.round((pass.ended_at.getTime() - pass.started_at.getTime()) / 1000);
+    passes.push(pass);
+    current = null;
+  };
+
+  for (const row of result.rows) {
+    const lat = row.latitude;
+    const lon = row.longitude;
+    const timestamp = new Date(row.timestamp);
+    const distance = distanceToBorder(airspace, lat, lon, distanceKm);
+
+    const continues = current !== null && current.icao24 === row.icao24 &&
+      timestamp.getTime() - current.ended_at.getTime() <= FLIGHT_GAP_MINUTES * 60 * 1000;
+    if (distance === null || !continues) close();
+    if (distance === null) continue;
+
+    const side = isInsideAirspace(airspace, lat, lon) ? 'inside' : 'outside';
+    const closest = {
+      distance_km: Math.round(distance * 100) / 100,
+      side,
+      latitude: lat,
+      longitude: lon,
+      altitude: row.altitude,
+      timestamp
+    } as const;
+
+    if (!current) {
+      current = {
+        icao24: row.icao24,
+        callsign: row.callsign,
+        aircraft_type: row.aircraft_type,
+        is_military: row.is_military,
+        started_at: timestamp,
+        ended_at: timestamp,
+        duration_seconds: 0,
+        positions: 0,
+        crossed: false,
+        closest,
+        sides: new Set()
+      };
+    }
+    current.ended_at = timestamp;
+    current.positions++;
+    current.callsign = row.callsign ?? current.callsign;
+    current.sides.add(side);
+    if (distance < current.closest.distance_km) current.closest = closest;
+  }
+  close();
+
+  return passes
+    .sort((a, b) => b.started_at.getTime() - a.started_at.getTime())
+    .slice(0, limit);
+}
@@ -0,0 +1,95 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { query } from '../db';
+import { ApiKey, ApiKeyRole } from '../types';
+
+export const API_KEY_ROLES: ApiKeyRole[] = ['read_only', 'analyst', 'admin'];
+
+// Found keys are cached briefly so every request doesn't hit the database. Misses
+// aren't cached: random X-API-Key values would otherwise grow the cache without limit.
+// Changes clear this replica's cache; other replicas pick them up when entries expire.
+const CACHE_TTL_MS = parseInt(process.env.API_KEY_CACHE_SECONDS || '60') * 1000;
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+const cache = new Map<string, { key: ApiKey; expires: number }>();
+const lastUsedWritten = new Map<number, number>();
+
+/**
+ * Hash an API key for storage and lookup
+ * Keys are 32 random bytes, so a plain SHA-256 is enough (no password stretching needed)
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generate a new API key
+ * @returns the plaintext key (shown once), its hash and its display prefix
+ */
+export function generateApiKey(): { key: string; hash: string; prefix: string } {
+  const key = `at_${randomBytes(32).toString('base64url')}`;
+  return { key, hash: hashApiKey(key), prefix: key.slice(0, 11) };
+}
+
+/**
+ * Check whether a role grants at least the required role
+ */
+export function hasRole(role: ApiKeyRole, required: ApiKeyRole): boolean {
+  return API_KEY_ROLES.indexOf(role) >= API_KEY_ROLES.indexOf(required);
+}
+
+/**
+ * Resolve a presented key to an enabled API key
+ * ADMIN_API_KEY, when set, acts as a built-in admin key for bootstrapping
+ * @returns the key, or null if it is unknown or disabled
+ */
+export async function findApiKey(presented: string): Promise<ApiKey | null> {
+  const bootstrap = process.env.ADMIN_API_KEY;
+  if (bootstrap && presented.length === bootstrap.length &&
+      timingSafeEqual(Buffer.from(presented), Buffer.from(bootstrap))) {
+    return {
+      id: 0,
+      name: 'ADMIN_API_KEY',
+      key_prefix: presented.slice(0, 11),
+      role: 'admin',
+      rate_limit_per_minute: null,
+      enabled: true,
+      created_at: new Date(0),
+      last_used_at: null
+    };
+  }
+
+  const hash = hashApiKey(presented);
+  const cached = cache.get(hash);
+  if (cached && cached.expires > Date.now()) return cached.key;
+  cache.delete(hash);
+
+  const result = await query<ApiKey>(
+    `SELECT id, name, key_prefix, role, rate_limit_per_minute, enabled, created_at, last_used_at
+     FROM api_keys WHERE key_hash = $1 AND enabled = TRUE`,
+    [hash]
+  );
+  const key = result.rows[0] ?? null;
+  if (key && CACHE_TTL_MS > 0) cache.set(hash, { key, expires: Date.now() + CACHE_TTL_MS });
+  return key;
+}
+
+/**
+ * Drop cached lookups after keys are changed or revoked
+ */
+export function clearApiKeyCache(): void {
+  cache.clear();
+}
+
+/**
+ * Record that a key was used, at most once a minute per key
+ */
+export function touchApiKey(key: ApiKey): void {
+  if (key.id === 0) return;
+  const last = lastUsedWritten.get(key.id) ?? 0;
+  if (Date.now() - last < LAST_USED_INTERVAL_MS) return;
+  lastUsedWritten.set(key.id, Date.now());
+
+  query('UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = $1', [key.id]).catch((error) => {
+    console.error('Error updating API key usage:', (error as Error).message);
+  });
+}
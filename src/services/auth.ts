@@ -0,0 +1,157 @@
+import { NextFunction, Request, Response } from 'express';
+import { query } from '../db';
+import { ApiKey, ApiKeyRole } from '../types';
+import { findApiKey, hasRole, touchApiKey } from './apiKeys';
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+// Anonymous callers may use read-only endpoints unless this is set to 'false'
+const ANONYMOUS_READ_ACCESS = process.env.ANONYMOUS_READ_ACCESS !== 'false';
+// Default per-minute limits; a key's own rate_limit_per_minute takes precedence
+const API_RATE_LIMIT_PER_MINUTE = parseInt(process.env.API_RATE_LIMIT_PER_MINUTE || '600');
+const ANON_RATE_LIMIT_PER_MINUTE = parseInt(process.env.ANON_RATE_LIMIT_PER_MINUTE || '120');
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+// Fixed one-minute windows, keyed by API key id or client IP
+const rateWindows = new Map<string, { minute: number; count: number }>();
+let sweptMinute = 0;
+
+/**
+ * Read the API key from X-API-Key or Authorization: Bearer
+ * GET requests may also pass ?api_key=, since EventSource cannot set headers
+ */
+function presentedKey(req: Request): string | null {
+  const header = req.get('X-API-Key');
+  if (header) return header.trim();
+
+  const authorization = req.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) return authorization.slice(7).trim();
+
+  if (req.method === 'GET' && typeof req.query.api_key === 'string') return req.query.api_key;
+  return null;
+}
+
+/**
+ * Count a request against its rate-limit window
+ * @returns seconds until the window resets if the limit is exceeded, otherwise null
+ */
+function consumeRateLimit(res: Response, bucket: string, limit: number): number | null {
+  const minute = Math.floor(Date.now() / 60000);
+  if (minute !== sweptMinute) {
+    // Drop windows from earlier minutes so idle clients don't accumulate
+    for (const [key, entry] of rateWindows) {
+      if (entry.minute !== minute) rateWindows.delete(key);
+    }
+    sweptMinute = minute;
+  }
+
+  let window = rateWindows.get(bucket);
+  if (!window) {
+    window = { minute, count: 0 };
+    rateWindows.set(bucket, window);
+  }
+  window.count++;
+
+  const reset = (minute + 1) * 60 - Math.floor(Date.now() / 1000);
+  res.set({
+    'X-RateLimit-Limit': String(limit),
+    'X-RateLimit-Remaining': String(Math.max(0, limit - window.count)),
+    'X-RateLimit-Reset': String(reset)
+  });
+  return window.count > limit ? reset : null;
+}
+
+/**
+ * Resolve the caller's API key, if any, and apply its rate limit
+ * Requests without a key continue anonymously; requireRole decides what they may do
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const presented = presentedKey(req);
+    if (presented) {
+      const apiKey = await findApiKey(presented);
+      if (!apiKey) {
+        res.status(401).json({ error: 'Invalid API key' });
+        return;
+      }
+      req.apiKey = apiKey;
+      touchApiKey(apiKey);
+    }
+
+    if (req.path.startsWith('/api/')) {
+      const retryAfter = req.apiKey
+        ? consumeRateLimit(res, `key:${req.apiKey.id}`, req.apiKey.rate_limit_per_minute ?? API_RATE_LIMIT_PER_MINUTE)
+        : consumeRateLimit(res, `ip:${req.ip}`, ANON_RATE_LIMIT_PER_MINUTE);
+      if (retryAfter != null) {
+        res.set('Retry-After', String(retryAfter));
+        res.status(429).json({ error: 'Rate limit exceeded' });
+        return;
+      }
+    }
+
+    next();
+  } catch (error) {
+    console.error('Error authenticating request:', error);
+    res.status(500).json({ error: 'Failed to authenticate request' });
+  }
+}
+
+/**
+ * Route middleware requiring at least the given role
+ * Anonymous callers pass read_only checks when ANONYMOUS_READ_ACCESS is enabled
+ */
+export function requireRole(role: ApiKeyRole) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.apiKey) {
+      if (role === 'read_only' && ANONYMOUS_READ_ACCESS) {
+        next();
+        return;
+      }
+      res.status(401).json({ error: 'API key required' });
+      return;
+    }
+
+    if (!hasRole(req.apiKey.role, role)) {
+      res.status(403).json({ error: `Requires ${role} role` });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Record every mutating API call in audit_log once the response is sent
+ */
+export function auditLog(req: Request, res: Response, next: NextFunction): void {
+  if (!MUTATING_METHODS.has(req.method) || !req.path.startsWith('/api/')) {
+    next();
+    return;
+  }
+
+  res.on('finish', () => {
+    const apiKey = req.apiKey;
+    query(
+      `INSERT INTO audit_log (api_key_id, key_name, role, method, path, status, ip)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        apiKey && apiKey.id !== 0 ? apiKey.id : null,
+        apiKey?.name ?? null,
+        apiKey?.role ?? null,
+        req.method,
+        req.originalUrl,
+        res.statusCode,
+        req.ip ?? null
+      ]
+    ).catch((error) => {
+      console.error('Error writing audit log:', (error as Error).message);
+    });
+  });
+  next();
+}
@@ -0,0 +1,207 @@
+import { query } from '../db';
+import {
+  CoverageGapCell,
+  CoverageOverlap,
+  CoveragePoint,
+  CoveragePointStats,
+  CoverageReport,
+  SourceAircraft
+} from '../types';
+import { LOW_ALTITUDE_FT } from './airports';
+import { haversineDistance } from './geo';
+
+const NM_TO_KM = 1.852;
+
+/**
+ * Load coverage points, optionally only the enabled ones
+ */
+export async function getCoveragePoints(enabledOnly = false): Promise<CoveragePoint[]> {
+  const result = await query<CoveragePoint>(
+    `SELECT * FROM coverage_points ${enabledOnly ? 'WHERE enabled = TRUE' : ''} ORDER BY id ASC`
+  );
+  return result.rows;
+}
+
+/**
+ * Check if a coordinate lies inside a coverage point's circle
+ */
+export function isInsideCoverage(point: CoveragePoint, lat: number, lon: number): boolean {
+  return haversineDistance(point.latitude, point.longitude, lat, lon) <= point.radius_nm * NM_TO_KM;
+}
+
+/**
+ * Fraction of the smaller circle covered by the other one (planar approximation)
+ */
+function circleOverlapRatio(r1: number, r2: number, d: number): number {
+  if (d >= r1 + r2) return 0;
+  const small = Math.min(r1, r2);
+  if (d <= Math.abs(r1 - r2)) return 1;
+
+  const a1 = r1 * r1 * Math.acos((d * d + r1 * r1 - r2 * r2) / (2 * d * r1));
+  const a2 = r2 * r2 * Math.acos((d * d + r2 * r2 - r1 * r1) / (2 * d * r2));
+  const a3 = 0.5 * Math.sqrt((-d + r1 + r2) * (d + r1 - r2) * (d - r1 + r2) * (d + r1 + r2));
+  return (a1 + a2 - a3) / (Math.PI * small * small);
+}
+
+/**
+ * Record which coverage point reported which aircraft this hour
+ * @param tracked hexes matched by a watchlist in this cycle
+ */
+export async function recordCoverageSightings(aircraft: SourceAircraft[], tracked: Set<string>): Promise<void> {
+  try {
+    const pointIds: number[] = [];
+    const icao24s: string[] = [];
+    const trackedFlags: boolean[] = [];
+    for (const ac of aircraft) {
+      for (const pointId of ac.coverage_point_ids ?? []) {
+        pointIds.push(pointId);
+        icao24s.push(ac.icao24);
+        trackedFlags.push(tracked.has(ac.icao24));
+      }
+    }
+    if (pointIds.length === 0) return;
+
+    await query(
+      `INSERT INTO coverage_point_sightings (point_id, icao24, hour, tracked)
+       SELECT point_id, icao24, date_trunc('hour', NOW()), tracked
+       FROM unnest($1::INTEGER[], $2::TEXT[], $3::BOOLEAN[]) AS u(point_id, icao24, tracked)
+       ON CONFLICT (point_id, icao24, hour) DO UPDATE SET
+         tracked = coverage_point_sightings.tracked OR EXCLUDED.tracked`,
+      [pointIds, icao24s, trackedFlags]
+    );
+  } catch (error) {
+    console.error('Error recording coverage sightings:', (error as Error).message);
+  }
+}
+
+/**
+ * Build the coverage report for the last `hours`:
+ * - per point: aircraft and tracked aircraft reported, and how many no other point saw
+ * - overlapping circles with the aircraft they share
+ * - grid cells where tracked aircraft tracks start or end abruptly: flights first seen
+ *   above LOW_ALTITUDE_FT away from an airport, or lost above it, hinting at holes in coverage
+ */
+export async function getCoverageReport(hours: number, gridDegrees: number): Promise<CoverageReport> {
+  const points = await getCoveragePoints();
+
+  const statsResult = await query<{
+    point_id: number; aircraft: number; tracked: number; exclusive: number; exclusive_tracked: number;
+  }>(
+    `WITH s AS (
+       SELECT point_id, icao24, BOOL_OR(tracked) as tracked
+       FROM coverage_point_sightings
+       WHERE hour >= date_trunc('hour', NOW() - ($1 || ' hours')::INTERVAL)
+       GROUP BY point_id, icao24
+     ), seen_by AS (
+       SELECT icao24, COUNT(*) as points FROM s GROUP BY icao24
+     )
+     SELECT s.point_id,
+       COUNT(*) as aircraft,
+       COUNT(*) FILTER (WHERE s.tracked) as tracked,
+       COUNT(*) FILTER (WHERE seen_by.points = 1) as exclusive,
+       COUNT(*) FILTER (WHERE seen_by.points = 1 AND s.tracked) as exclusive_tracked
+     FROM s JOIN seen_by USING (icao24)
+     GROUP BY s.point_id`,
+    [hours]
+  );
+  const statsById = new Map(statsResult.rows.map((row) => [row.point_id, row]));
+
+  const pointStats: CoveragePointStats[] = points.map((point) => {
+    const row = statsById.get(point.id);
+    const aircraft = row?.aircraft ?? 0;
+    const exclusive = row?.exclusive ?? 0;
+    return {
+      point_id: point.id,
+      label: point.label,
+      enabled: point.enabled,
+      aircraft,
+      tracked: row?.tracked ?? 0,
+      exclusive,
+      exclusive_tracked: row?.exclusive_tracked ?? 0,
+      // Everything this point reports is also reported by another point
+      redundant: aircraft > 0 && exclusive === 0
+    };
+  });
+
+  const sharedResult = await query<{ a: number; b: number; shared: number; shared_tracked: number }>(
+    `WITH s AS (
+       SELECT point_id, icao24, BOOL_OR(tracked) as tracked
+       FROM coverage_point_sightings
+       WHERE hour >= date_trunc('hour', NOW() - ($1 || ' hours')::INTERVAL)
+       GROUP BY point_id, icao24
+     )
+     SELECT a.point_id as a, b.point_id as b,
+       COUNT(*) as shared,
+       COUNT(*) FILTER (WHERE a.tracked OR b.tracked) as shared_tracked
+     FROM s a JOIN s b ON a.icao24 = b.icao24 AND a.point_id < b.point_id
+     GROUP BY a.point_id, b.point_id`,
+    [hours]
+  );
+  const shared = new Map(sharedResult.rows.map((row) => [`${row.a}:${row.b}`, row]));
+
+  const overlaps: CoverageOverlap[] = [];
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const [a, b] = [points[i], points[j]];
+      const distance = haversineDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+      const ratio = circleOverlapRatio(a.radius_nm * NM_TO_KM, b.radius_nm * NM_TO_KM, distance);
+      if (ratio === 0) continue;
+
+      const row = shared.get(`${a.id}:${b.id}`);
+      overlaps.push({
+        point_ids: [a.id, b.id],
+        labels: [a.label, b.label],
+        distance_km: Math.round(distance),
+        overlap_ratio: Math.round(ratio * 100) / 100,
+        shared_aircraft: row?.shared ?? 0,
+        shared_tracked: row?.shared_tracked ?? 0
+      });
+    }
+  }
+  overlaps.sort((x, y) => y.overlap_ratio - x.overlap_ratio);
+
+  const gapResult = await query<{ cell_lat: number; cell_lon: number; starts: number; ends: number }>(
+    `WITH edges AS (
+       SELECT first_latitude as lat, first_longitude as lon, 1 as is_start, 0 as is_end
+       FROM flights
+       WHERE start_time > NOW() - ($1 || ' hours')::INTERVAL
+         AND departure_airport IS NULL AND first_altitude > $3
+       UNION ALL
+       SELECT last_latitude, last_longitude, 0, 1
+       FROM flights
+       WHERE end_time > NOW() - ($1 || ' hours')::INTERVAL AND status = 'completed'
+         AND end_reason = 'signal_lost' AND last_altitude > $3
+     )
+     SELECT FLOOR(lat / $2) * $2 as cell_lat, FLOOR(lon / $2) * $2 as cell_lon,
+       SUM(is_start) as starts, SUM(is_end) as ends
+     FROM edges
+     WHERE lat IS NOT NULL AND lon IS NOT NULL
+     GROUP BY cell_lat, cell_lon
+     ORDER BY SUM(is_start) + SUM(is_end) DESC
+     LIMIT 50`,
+    [hours, gridDegrees, LOW_ALTITUDE_FT]
+  );
+
+  const enabled = points.filter((p) => p.enabled);
+  const gapCells: CoverageGapCell[] = gapResult.rows.map((row) => {
+    const lat = row.cell_lat;
+    const lon = row.cell_lon;
+    const centerLat = lat + gridDegrees / 2;
+    const centerLon = lon + gridDegrees / 2;
+    return {
+      latitude: lat,
+      longitude: lon,
+      abrupt_starts: row.starts,
+      abrupt_ends: row.ends,
+      inside_coverage: enabled.some((p) => isInsideCoverage(p, centerLat, centerLon))
+    };
+  });
+
+  return {
+    hours,
+    grid_degrees: gridDegrees,
+    points: pointStats,
+    overlaps,
+    gap_cells: gapCells
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Split one CSV line, honouring quoted fields
+ * @param quote quote character; some dumps (e.g. OpenSky's) quote with '
+ */
+export function parseCsvLine(line: string, quote = '"'): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === quote && line[i + 1] === quote) {
+        field += quote;
+        i++;
+      } else if (char === quote) {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === quote) {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Parse CSV with a header row into records keyed by (lower-cased, trimmed) column name
+ */
+export function parseCsvRecords(csv: string): Record<string, string>[] {
+  const lines = csv.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) return [];
+
+  const header = parseCsvLine(lines[0]).map((name) => name.trim().toLowerCase());
+  return lines.slice(1).map((line) => {
+    const fields = parseCsvLine(line);
+    const record: Record<string, string> = {};
+    header.forEach((name, i) => {
+      record[name] = (fields[i] ?? '').trim();
+    });
+    return record;
+  });
+}
@@ -0,0 +1,160 @@
+import { query, valuesList } from '../db';
+import { CoveragePoint, DarkPeriod, Position } from '../types';
+import { LOW_ALTITUDE_FT } from './airports';
+import { getCoveragePoints, isInsideCoverage } from './coverage';
+import { haversineDistance } from './geo';
+
+// Gaps shorter than this are ordinary reception dropouts
+export const DARK_PERIOD_MIN_MINUTES = parseFloat(process.env.DARK_PERIOD_MIN_MINUTES || '10');
+// An aircraft reappearing after longer than this is a new sighting, not a gap
+export const DARK_PERIOD_MAX_HOURS = parseFloat(process.env.DARK_PERIOD_MAX_HOURS || '12');
+
+// Cycles further apart than this mean ingestion itself stopped, so gaps spanning it aren't the aircraft's
+const MAX_CYCLE_INTERVAL_MS = 2 * 60 * 1000;
+// The straight line between a gap's ends is checked against the coverage circles this often
+const COVERAGE_SAMPLE_KM = 10;
+const KM_PER_NM = 1.852;
+
+let lastCycleAt: number | null = null;
+let ingestingSince = Date.now();
+
+type GapEnd = Pick<Position, 'icao24' | 'callsign' | 'latitude' | 'longitude' | 'altitude' | 'on_ground' | 'timestamp'>;
+
+const round = (value: number, digits: number): number => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Whether every point on the straight line between two positions lies inside some coverage circle
+ */
+function isLineCovered(points: CoveragePoint[], from: GapEnd, to: GapEnd, distanceKm: number): boolean {
+  const lat1 = Number(from.latitude);
+  const lon1 = Number(from.longitude);
+  const dLat = Number(to.latitude) - lat1;
+  const dLon = ((Number(to.longitude) - lon1 + 540) % 360) - 180;
+  const steps = Math.max(1, Math.ceil(distanceKm / COVERAGE_SAMPLE_KM));
+
+  for (let i = 0; i <= steps; i++) {
+    const lat = lat1 + dLat * (i / steps);
+    const lon = ((lon1 + dLon * (i / steps) + 540) % 360) - 180;
+    if (!points.some((point) => isInsideCoverage(point, lat, lon))) return false;
+  }
+  return true;
+}
+
+/**
+ * Record gaps ended by this cycle's positions: the aircraft was airborne on both
+ * sides of the gap and at least one side was above LOW_ALTITUDE_FT, so it is
+ * unlikely to have simply landed and taken off again out of coverage
+ * Runs after every ingestion cycle; errors are logged, never thrown
+ * @param positions the positions stored in this cycle
+ * @returns number of dark periods recorded
+ */
+export async function detectDarkPeriods(positions: Position[]): Promise<number> {
+  const now = Date.now();
+  if (lastCycleAt === null || now - lastCycleAt > MAX_CYCLE_INTERVAL_MS) ingestingSince = now;
+  lastCycleAt = now;
+
+  try {
+    // Each aircraft's first position of this cycle ends any gap
+    const firstPositions = new Map<string, Position>();
+    for (const pos of positions) {
+      const existing = firstPositions.get(pos.icao24);
+      if (!existing || new Date(pos.timestamp) < new Date(existing.timestamp)) firstPositions.set(pos.icao24, pos);
+    }
+    if (firstPositions.size === 0) return 0;
+
+    const previousResult = await query<GapEnd>(
+      `SELECT DISTINCT ON (icao24) icao24, callsign, latitude, longitude, altitude, on_ground, timestamp
+       FROM positions
+       WHERE icao24 = ANY($1) AND id <> ALL($2)
+         AND timestamp > NOW() - ($3 || ' hours')::INTERVAL
+         AND latitude IS NOT NULL AND longitude IS NOT NULL
+       ORDER BY icao24, timestamp DESC`,
+      [Array.from(firstPositions.keys()), positions.map((pos) => pos.id), DARK_PERIOD_MAX_HOURS]
+    );
+
+    const isLow = (altitude: number | null) => altitude != null && Number(altitude) <= LOW_ALTITUDE_FT;
+    let coveragePoints: CoveragePoint[] | null = null;
+    const params: unknown[] = [];
+    let count = 0;
+
+    for (const last of previousResult.rows) {
+      const first = firstPositions.get(last.icao24)!;
+      const startedAt = new Date(last.timestamp);
+      const endedAt = new Date(first.timestamp);
+      const gapMs = endedAt.getTime() - startedAt.getTime();
+
+      if (gapMs < DARK_PERIOD_MIN_MINUTES * 60 * 1000) continue;
+      if (startedAt.getTime() < ingestingSince) continue;
+      if (last.on_ground || first.on_ground) continue;
+      if (isLow(last.altitude) && isLow(first.altitude)) continue;
+
+      coveragePoints = coveragePoints ?? await getCoveragePoints(true);
+      const inCoverage = (pos: GapEnd) =>
+        coveragePoints!.some((point) => isInsideCoverage(point, Number(pos.latitude), Number(pos.longitude)));
+
+      const distanceKm = haversineDistance(
+        Number(last.latitude), Number(last.longitude), Number(first.latitude), Number(first.longitude)
+      );
+      const lastInCoverage = inCoverage(last);
+      const firstInCoverage = inCoverage(first);
+
+      params.push(
+        last.icao24,
+        first.callsign ?? last.callsign,
+        startedAt,
+        endedAt,
+        Math.round(gapMs / 1000),
+        last.latitude,
+        last.longitude,
+        last.altitude,
+        first.latitude,
+        first.longitude,
+        first.altitude,
+        round(distanceKm, 2),
+        round(distanceKm / KM_PER_NM / (gapMs / 3600000), 1),
+        lastInCoverage,
+        firstInCoverage,
+        lastInCoverage && firstInCoverage && isLineCovered(coveragePoints, last, first, distanceKm)
+      );
+      count++;
+    }
+
+    if (count === 0) return 0;
+    await query(
+      `INSERT INTO dark_periods (icao24, callsign, started_at, ended_at, duration_seconds, last_latitude,
+         last_longitude, last_altitude, first_latitude, first_longitude, first_altitude, distance_km,
+         implied_speed_knots, last_in_coverage, first_in_coverage, within_coverage)
+       VALUES ${valuesList(count, 16)}`,
+      params
+    );
+    console.log(`🌑 Recorded ${count} dark periods`);
+    return count;
+  } catch (error) {
+    console.error('Error detecting dark periods:', (error as Error).message);
+    return 0;
+  }
+}
+
+/**
+ * Dark periods that started in the last `hours`, most recent first
+ * @param filters.withinCoverage only gaps inside (true) or not inside (false) coverage
+ */
+export async function getDarkPeriods(
+  hours: number,
+  filters: { icao24?: string; militaryOnly?: boolean; withinCoverage?: boolean; limit: number }
+): Promise<DarkPeriod[]> {
+  const result = await query<DarkPeriod>(
+    `SELECT d.*, a.aircraft_type, a.is_military
+     FROM dark_periods d
+     JOIN aircraft a ON a.icao24 = d.icao24
+     WHERE d.started_at > NOW() - ($1 || ' hours')::INTERVAL
+       AND ($2::TEXT IS NULL OR d.icao24 = $2)
+       AND ($3 = FALSE OR a.is_military)
+       AND ($4::BOOLEAN IS NULL OR d.within_coverage = $4)
+     ORDER BY d.started_at DESC
+     LIMIT $5`,
+    [hours, filters.icao24?.toLowerCase() ?? null, filters.militaryOnly ?? false, filters.withinCoverage ?? null, filters.limit]
+  );
+
+  return result.rows;
+}
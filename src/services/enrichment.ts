@@ -0,0 +1,244 @@
+import 'dotenv/config';
+import { createReadStream } from 'fs';
+import path from 'path';
+import { createInterface } from 'readline';
+import { Readable } from 'stream';
+import { createGunzip } from 'zlib';
+import { pool, query, valuesList } from '../db';
+import { AircraftDatabaseImportResult, AircraftDatabaseRecord } from '../types';
+import { parseCsvLine } from './csv';
+
+// Rows per multi-row upsert during imports
+const IMPORT_BATCH_SIZE = 1000;
+
+// Column names used by the common community dumps (OpenSky aircraftDatabase.csv,
+// tar1090/readsb basic-ac-db.json), mapped to our fields
+const FIELD_ALIASES: Record<string, keyof AircraftDatabaseRecord> = {
+  icao24: 'icao24',
+  icao: 'icao24',
+  hex: 'icao24',
+  registration: 'registration',
+  reg: 'registration',
+  r: 'registration',
+  typecode: 'type_code',
+  type_code: 'type_code',
+  icaotype: 'type_code',
+  t: 'type_code',
+  model: 'model',
+  operator: 'operator',
+  ownop: 'operator',
+  owner: 'owner',
+  built: 'year_built',
+  year: 'year_built',
+  year_built: 'year_built'
+};
+
+// Longer values are truncated rather than dropping the whole record
+const FIELD_LIMITS: [keyof AircraftDatabaseRecord, number][] = [
+  ['registration', 20],
+  ['type_code', 10],
+  ['model', 100],
+  ['operator', 100],
+  ['owner', 100]
+];
+
+/**
+ * Map one dump record onto our fields
+ * @returns the record, or null if it has no valid ICAO address
+ */
+export function normalizeAircraftRecord(raw: Record<string, unknown>): AircraftDatabaseRecord | null {
+  const fields: Partial<Record<keyof AircraftDatabaseRecord, string>> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const field = FIELD_ALIASES[key.toLowerCase()];
+    if (!field || value == null) continue;
+    const text = String(value).trim();
+    if (text !== '') fields[field] = text;
+  }
+
+  const icao24 = fields.icao24?.toLowerCase();
+  if (!icao24 || !/^~?[0-9a-f]{6}$/.test(icao24)) return null;
+
+  const record: AircraftDatabaseRecord = {
+    icao24,
+    registration: null,
+    type_code: null,
+    model: null,
+    operator: null,
+    owner: null,
+    year_built: null
+  };
+  for (const [field, limit] of FIELD_LIMITS) {
+    const value = fields[field];
+    if (value) (record[field] as string) = value.slice(0, limit);
+  }
+
+  // "built" is a full date in OpenSky dumps, a bare year elsewhere
+  const year = parseInt(fields.year_built?.slice(0, 4) ?? '');
+  if (year >= 1900 && year <= new Date().getFullYear() + 1) record.year_built = year;
+  return record;
+}
+
+/**
+ * Read records from a CSV, JSON array or NDJSON dump, optionally gzipped
+ * Line-based formats are streamed so full dumps don't have to fit in memory
+ */
+export async function* readAircraftDatabase(file: string): AsyncGenerator<Record<string, unknown>> {
+  const gzipped = file.endsWith('.gz');
+  const format = path.extname(gzipped ? file.slice(0, -3) : file).toLowerCase();
+  let input: Readable = createReadStream(file);
+  if (gzipped) input = input.pipe(createGunzip());
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  if (format === '.csv') {
+    let header: string[] | null = null;
+    let quote = '"';
+    for await (const line of lines) {
+      if (line.trim() === '') continue;
+      if (!header) {
+        quote = line.startsWith("'") ? "'" : '"';
+        header = parseCsvLine(line, quote).map((name) => name.trim().toLowerCase());
+        continue;
+      }
+      const values = parseCsvLine(line, quote);
+      const record: Record<string, unknown> = {};
+      header.forEach((name, i) => {
+        record[name] = values[i];
+      });
+      yield record;
+    }
+    return;
+  }
+
+  if (format !== '.json' && format !== '.jsonl' && format !== '.ndjson') {
+    throw new Error(`Unsupported aircraft database format: ${file} (expected .csv, .json, .jsonl or .ndjson, optionally .gz)`);
+  }
+
+  // A JSON array has to be parsed whole; anything else is one object per line
+  let arrayText: string | null = null;
+  for await (const line of lines) {
+    if (arrayText !== null) {
+      arrayText += line + '\n';
+    } else if (line.trimStart().startsWith('[')) {
+      arrayText = line + '\n';
+    } else if (line.trim() !== '') {
+      yield JSON.parse(line);
+    }
+  }
+  if (arrayText !== null) {
+    const records = JSON.parse(arrayText);
+    if (!Array.isArray(records)) throw new Error(`${file} does not contain a JSON array`);
+    yield* records;
+  }
+}
+
+/**
+ * Upsert one batch of records into aircraft_database
+ */
+async function upsertRecords(records: AircraftDatabaseRecord[], source: string): Promise<void> {
+  await query(
+    `INSERT INTO aircraft_database (icao24, registration, type_code, model, operator, owner, year_built, source)
+     VALUES ${valuesList(records.length, 8)}
+     ON CONFLICT (icao24) DO UPDATE SET
+       registration = EXCLUDED.registration,
+       type_code = EXCLUDED.type_code,
+       model = EXCLUDED.model,
+       operator = EXCLUDED.operator,
+       owner = EXCLUDED.owner,
+       year_built = EXCLUDED.year_built,
+       source = EXCLUDED.source,
+       imported_at = CURRENT_TIMESTAMP`,
+    records.flatMap((r) => [r.icao24, r.registration, r.type_code, r.model, r.operator, r.owner, r.year_built, source])
+  );
+}
+
+/**
+ * Copy details from the aircraft database onto tracked aircraft
+ * Fields missing from the database keep their current value
+ * @param icao24s aircraft to enrich; all aircraft when omitted (bulk re-enrichment)
+ * @returns number of aircraft enriched
+ */
+export async function enrichAircraft(icao24s?: string[]): Promise<number> {
+  if (icao24s && icao24s.length === 0) return 0;
+
+  const result = await query(
+    `UPDATE aircraft a SET
+       registration = COALESCE(d.registration, a.registration),
+       type_code = COALESCE(d.type_code, a.type_code),
+       model = COALESCE(d.model, a.model),
+       operator = COALESCE(d.operator, a.operator),
+       owner = COALESCE(d.owner, a.owner),
+       year_built = COALESCE(d.year_built, a.year_built),
+       enrichment_source = d.source,
+       enriched_at = CURRENT_TIMESTAMP
+     FROM aircraft_database d
+     WHERE d.icao24 = a.icao24 AND ($1::TEXT[] IS NULL OR a.icao24 = ANY($1))`,
+    [icao24s ?? null]
+  );
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Import an offline aircraft database dump, then re-enrich every tracked aircraft
+ * @param source name recorded as the provenance of the imported rows (defaults to the file name)
+ */
+export async function importAircraftDatabase(file: string, source = path.basename(file)): Promise<AircraftDatabaseImportResult> {
+  const result: AircraftDatabaseImportResult = { source, received: 0, imported: 0, invalid: 0, aircraft_enriched: 0 };
+  let batch = new Map<string, AircraftDatabaseRecord>();
+
+  for await (const raw of readAircraftDatabase(file)) {
+    result.received++;
+    const record = normalizeAircraftRecord(raw);
+    if (!record) {
+      result.invalid++;
+      continue;
+    }
+
+    // Duplicates within one statement would make ON CONFLICT fail
+    batch.set(record.icao24, record);
+    if (batch.size >= IMPORT_BATCH_SIZE) {
+      await upsertRecords(Array.from(batch.values()), source);
+      result.imported += batch.size;
+      batch = new Map();
+    }
+  }
+  if (batch.size > 0) {
+    await upsertRecords(Array.from(batch.values()), source);
+    result.imported += batch.size;
+  }
+
+  result.aircraft_enriched = await enrichAircraft();
+  console.log(
+    `🗂️ Imported ${result.imported} aircraft database records from ${source} ` +
+    `(${result.invalid} invalid), enriched ${result.aircraft_enriched} aircraft`
+  );
+  return result;
+}
+
+/**
+ * Command line entry point
+ * Usage: npm run aircraft-db:import -- <file> [--source NAME]
+ *        npm run aircraft-db:enrich
+ */
+async function runCli(args: string[]): Promise<void> {
+  const sourceIndex = args.indexOf('--source');
+  const source = sourceIndex >= 0 ? args[sourceIndex + 1] : undefined;
+  const file = args.find((arg, i) => !arg.startsWith('--') && (sourceIndex < 0 || i !== sourceIndex + 1));
+
+  if (args.includes('--enrich-only')) {
+    console.log(`✅ Enriched ${await enrichAircraft()} aircraft`);
+    return;
+  }
+  if (!file) throw new Error('Usage: aircraft-db:import <file> [--source NAME]');
+  await importAircraftDatabase(file, source);
+}
+
+// Run the import if called directly
+if (require.main === module) {
+  runCli(process.argv.slice(2))
+    .then(() => pool.end())
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('❌ Aircraft database import error:', (error as Error).message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,217 @@
+import { Response } from 'express';
+import { AircraftTrack, Position } from '../types';
+
+export const EXPORT_FORMATS = ['geojson', 'kml', 'gpx', 'csv'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+  gpx: 'application/gpx+xml',
+  csv: 'text/csv'
+};
+
+// Track metadata shared by every export format
+export type ExportTrack = Pick<AircraftTrack, 'icao24' | 'callsign' | 'aircraft_type' | 'is_military' | 'positions'>;
+
+const FEET_TO_METERS = 0.3048;
+
+const CSV_COLUMNS = [
+  'icao24', 'callsign', 'aircraft_type', 'is_military', 'timestamp', 'latitude', 'longitude',
+  'altitude_ft', 'velocity_kt', 'heading', 'vertical_rate_fpm', 'on_ground', 'squawk', 'emergency'
+];
+
+const iso = (value: Date | string): string => new Date(value).toISOString();
+
+/**
+ * Positions that can be drawn: both coordinates present
+ */
+function located(positions: Position[]): Position[] {
+  return positions.filter((p) => p.latitude != null && p.longitude != null);
+}
+
+/**
+ * Escape text for XML element content and attribute values
+ */
+function xml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Escape one CSV field
+ */
+function csvField(value: unknown): string {
+  if (value == null) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Set the content type and a download file name for an export
+ */
+export function setExportHeaders(res: Response, format: ExportFormat, filename: string): void {
+  res.set({
+    'Content-Type': `${EXPORT_CONTENT_TYPES[format]}; charset=utf-8`,
+    'Content-Disposition': `attachment; filename="${filename}.${format}"`
+  });
+}
+
+/**
+ * A track as a GeoJSON LineString feature, with per-vertex attributes in
+ * properties.coordinateProperties (aligned with geometry.coordinates)
+ * Coordinates are [lon, lat, altitude in feet]
+ */
+export function toGeoJsonFeature(track: ExportTrack): Record<string, unknown> {
+  const points = located(track.positions);
+
+  return {
+    type: 'Feature',
+    properties: {
+      icao24: track.icao24,
+      callsign: track.callsign,
+      aircraft_type: track.aircraft_type,
+      is_military: track.is_military,
+      positions: track.positions.length,
+      coordinateProperties: {
+        times: points.map((p) => p.timestamp),
+        squawk: points.map((p) => p.squawk ?? null),
+        emergency: points.map((p) => p.emergency ?? null),
+        nic: points.map((p) => p.nic ?? null),
+        nac_p: points.map((p) => p.nac_p ?? null),
+        rssi: points.map((p) => p.rssi ?? null),
+        message_type: points.map((p) => p.message_type ?? null)
+      }
+    },
+    geometry: {
+      type: 'LineString',
+      coordinates: points.map((p) => [p.longitude, p.latitude, p.altitude ?? 0])
+    }
+  };
+}
+
+/**
+ * Several tracks as a GeoJSON FeatureCollection
+ */
+export function toGeoJsonCollection(tracks: ExportTrack[]): Record<string, unknown> {
+  return {
+    type: 'FeatureCollection',
+    features: tracks.map(toGeoJsonFeature)
+  };
+}
+
+/**
+ * Tracks as KML: one folder per aircraft holding a time-stamped gx:Track
+ * extruded to the ground, styled by the military flag
+ */
+export function toKml(tracks: ExportTrack[], name: string): string {
+  const folders = tracks.map((track) => {
+    const points = located(track.positions);
+    const label = track.callsign?.trim() || track.icao24;
+    return `
+    <Folder>
+      <name>${xml(label)}</name>
+      <description>${xml(`${track.icao24}${track.aircraft_type ? ` (${track.aircraft_type})` : ''}`)}</description>
+      <Placemark>
+        <name>${xml(label)}</name>
+        <styleUrl>#${track.is_military ? 'military' : 'civilian'}</styleUrl>
+        <gx:Track>
+          <extrude>1</extrude>
+          <altitudeMode>absolute</altitudeMode>
+${points.map((p) => `          <when>${iso(p.timestamp)}</when>`).join('\n')}
+${points.map((p) => `          <gx:coord>${p.longitude} ${p.latitude} ${Math.round((p.altitude ?? 0) * FEET_TO_METERS)}</gx:coord>`).join('\n')}
+        </gx:Track>
+      </Placemark>
+    </Folder>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+  <Document>
+    <name>${xml(name)}</name>
+    <Style id="military">
+      <LineStyle><color>ff0000ff</color><width>3</width></LineStyle>
+      <PolyStyle><color>400000ff</color></PolyStyle>
+    </Style>
+    <Style id="civilian">
+      <LineStyle><color>ffff9900</color><width>2</width></LineStyle>
+      <PolyStyle><color>40ff9900</color></PolyStyle>
+    </Style>${folders.join('')}
+  </Document>
+</kml>
+`;
+}
+
+/**
+ * Tracks as GPX: one trk per aircraft, trkpt elevation in meters
+ */
+export function toGpx(tracks: ExportTrack[]): string {
+  const trks = tracks.map((track) => {
+    const trkpts = located(track.positions).map((p) => {
+      const altitude = p.altitude;
+      return `      <trkpt lat="${p.latitude}" lon="${p.longitude}">` +
+        (altitude != null ? `<ele>${Math.round(altitude * FEET_TO_METERS)}</ele>` : '') +
+        `<time>${iso(p.timestamp)}</time></trkpt>`;
+    });
+    return `
+  <trk>
+    <name>${xml(track.callsign?.trim() || track.icao24)}</name>
+    <desc>${xml(`${track.icao24}${track.is_military ? ' (military)' : ''}`)}</desc>
+    <type>${track.is_military ? 'military' : 'civilian'}</type>
+    <trkseg>
+${trkpts.join('\n')}
+    </trkseg>
+  </trk>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Aircraft Tracker" xmlns="http://www.topografix.com/GPX/1/1">${trks.join('')}
+</gpx>
+`;
+}
+
+/**
+ * Write positions as CSV rows while they are produced, one chunk at a time
+ * Waits for the client to drain between chunks so large exports don't pile up in memory
+ */
+export async function streamCsv(res: Response, chunks: AsyncIterable<ExportTrack>): Promise<void> {
+  res.write(CSV_COLUMNS.join(',') + '\n');
+
+  for await (const track of chunks) {
+    if (res.destroyed) return;
+
+    const rows = track.positions.map((p) => [
+      track.icao24,
+      p.callsign ?? track.callsign,
+      track.aircraft_type,
+      track.is_military,
+      iso(p.timestamp),
+      p.latitude,
+      p.longitude,
+      p.altitude,
+      p.velocity,
+      p.heading,
+      p.vertical_rate,
+      p.on_ground,
+      p.squawk,
+      p.emergency
+    ].map(csvField).join(','));
+
+    if (rows.length > 0 && !res.write(rows.join('\n') + '\n')) {
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          res.off('drain', done);
+          res.off('close', done);
+          resolve();
+        };
+        res.on('drain', done);
+        res.on('close', done);
+      });
+    }
+  }
+  res.end();
+}
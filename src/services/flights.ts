@@ -0,0 +1,289 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../db';
+import { Flight, FlightEndReason, FlightRoute, Position } from '../types';
+import { describeAirport, inferFlightAirports } from './airports';
+import { haversineDistance } from './geo';
+
+// A flight ends when no position has been received for this long
+export const FLIGHT_GAP_MINUTES = parseInt(process.env.FLIGHT_GAP_MINUTES || '30');
+// At most this many unsegmented positions are read per cycle; the rest wait for the next one
+const SEGMENT_BATCH_SIZE = parseInt(process.env.FLIGHT_SEGMENT_BATCH_SIZE || '20000');
+
+type SegmentPosition = Required<Pick<Position, 'id'>> &
+  Pick<Position, 'callsign' | 'latitude' | 'longitude' | 'altitude' | 'on_ground' | 'timestamp'>;
+
+export interface FlightSegment {
+  flight: Omit<Flight, 'id'> & { id?: number };
+  positionIds: number[];
+}
+
+/**
+ * Split an aircraft's positions (sorted by time) into flights
+ * A flight ends on an on-ground transition, a signal gap longer than gapMinutes
+ * or a callsign change. Ground positions outside a flight are not assigned.
+ * @param openFlight the aircraft's currently active flight, continued if still valid
+ */
+export function segmentPositions(
+  icao24: string,
+  positions: SegmentPosition[],
+  openFlight: Flight | null,
+  gapMinutes: number = FLIGHT_GAP_MINUTES
+): FlightSegment[] {
+  const gapMs = gapMinutes * 60 * 1000;
+  const segments: FlightSegment[] = [];
+  let current: FlightSegment | null = openFlight ? { flight: { ...openFlight }, positionIds: [] } : null;
+
+  const close = (reason: FlightEndReason) => {
+    if (!current) return;
+    current.flight.status = 'completed';
+    current.flight.end_reason = reason;
+    segments.push(current);
+    current = null;
+  };
+
+  for (const pos of positions) {
+    const latitude = Number(pos.latitude);
+    const longitude = Number(pos.longitude);
+    const altitude = pos.altitude != null ? Number(pos.altitude) : null;
+    const timestamp = new Date(pos.timestamp);
+
+    if (current && timestamp.getTime() - new Date(current.flight.end_time).getTime() > gapMs) {
+      close('signal_lost');
+    }
+    if (current && pos.callsign && current.flight.callsign && pos.callsign !== current.flight.callsign) {
+      close('callsign_change');
+    }
+
+    if (!current) {
+      // Flights only start once the aircraft is airborne
+      if (pos.on_ground) continue;
+      current = {
+        flight: {
+          icao24,
+          callsign: pos.callsign,
+          status: 'active',
+          end_reason: null,
+          start_time: timestamp,
+          end_time: timestamp,
+          first_latitude: latitude,
+          first_longitude: longitude,
+          last_latitude: latitude,
+          last_longitude: longitude,
+          first_altitude: altitude,
+          last_altitude: altitude,
+          max_altitude: altitude,
+          distance_km: 0,
+          position_count: 1,
+          departure_airport: null,
+          arrival_airport: null
+        },
+        positionIds: [pos.id]
+      };
+      continue;
+    }
+
+    const flight = current.flight;
+    flight.distance_km = Number(flight.distance_km) + haversineDistance(
+      Number(flight.last_latitude), Number(flight.last_longitude), latitude, longitude
+    );
+    flight.last_latitude = latitude;
+    flight.last_longitude = longitude;
+    flight.last_altitude = altitude;
+    flight.end_time = timestamp;
+    flight.callsign = flight.callsign ?? pos.callsign;
+    flight.position_count = Number(flight.position_count) + 1;
+    if (altitude != null && (flight.max_altitude == null || altitude > Number(flight.max_altitude))) {
+      flight.max_altitude = altitude;
+    }
+    current.positionIds.push(pos.id);
+
+    // Touchdown is the last point of the flight
+    if (pos.on_ground) close('landed');
+  }
+
+  if (current) segments.push(current);
+  return segments;
+}
+
+/**
+ * Persist a flight segment and link its positions to it
+ * Runs inside the caller's transaction
+ */
+async function saveSegment(client: PoolClient, segment: FlightSegment): Promise<void> {
+  const f = segment.flight;
+  const airports = inferFlightAirports(f);
+  const values = [
+    f.callsign, f.status, f.end_reason, f.end_time, f.last_latitude, f.last_longitude, f.last_altitude,
+    f.max_altitude, f.distance_km, f.position_count, airports.arrival_airport
+  ];
+
+  let flightId = f.id;
+  if (flightId) {
+    await client.query(
+      `UPDATE flights SET
+         callsign = $2, status = $3, end_reason = $4, end_time = $5, last_latitude = $6,
+         last_longitude = $7, last_altitude = $8, max_altitude = $9, distance_km = $10,
+         position_count = $11, arrival_airport = $12
+       WHERE id = $1`,
+      [flightId, ...values]
+    );
+  } else {
+    const result = await client.query<{ id: number }>(
+      `INSERT INTO flights (callsign, status, end_reason, end_time, last_latitude, last_longitude, last_altitude,
+         max_altitude, distance_km, position_count, arrival_airport, icao24, start_time, first_latitude,
+         first_longitude, first_altitude, departure_airport)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+       RETURNING id`,
+      [...values, f.icao24, f.start_time, f.first_latitude, f.first_longitude, f.first_altitude, airports.departure_airport]
+    );
+    flightId = result.rows[0].id;
+  }
+
+  if (segment.positionIds.length > 0) {
+    await client.query(
+      `UPDATE positions SET flight_id = $1 WHERE id = ANY($2)`,
+      [flightId, segment.positionIds]
+    );
+  }
+}
+
+/**
+ * Close active flights whose aircraft has gone quiet for longer than FLIGHT_GAP_MINUTES
+ * Runs before the cycle's positions are segmented, so an aircraft reappearing after
+ * a gap has its old flight closed and starts a new one.
+ * @returns the flights closed as signal_lost
+ */
+export async function closeStaleFlights(): Promise<Flight[]> {
+  try {
+    const staleResult = await query<Flight>(
+      `UPDATE flights SET status = 'completed', end_reason = 'signal_lost'
+       WHERE status = 'active' AND end_time < NOW() - ($1 || ' minutes')::INTERVAL
+       RETURNING *`,
+      [FLIGHT_GAP_MINUTES]
+    );
+    for (const flight of staleResult.rows) {
+      const { arrival_airport } = inferFlightAirports(flight);
+      if (arrival_airport) {
+        await query('UPDATE flights SET arrival_airport = $2 WHERE id = $1', [flight.id, arrival_airport]);
+      }
+    }
+    return staleResult.rows;
+  } catch (error) {
+    console.error('Error closing stale flights:', (error as Error).message);
+    return [];
+  }
+}
+
+/**
+ * Assign newly stored positions to flights
+ * Runs after every ingestion cycle and only looks at positions not yet segmented.
+ * Each aircraft's flights are saved and its positions marked segmented in one
+ * transaction, so a failure leaves just that aircraft to be retried next cycle.
+ * @returns number of positions processed
+ */
+export async function updateFlights(): Promise<number> {
+  try {
+    const positionsResult = await query<SegmentPosition & { icao24: string }>(
+      `SELECT id, icao24, callsign, latitude, longitude, altitude, on_ground, timestamp
+       FROM positions
+       WHERE segmented = FALSE
+       ORDER BY icao24, timestamp ASC
+       LIMIT $1`,
+      [SEGMENT_BATCH_SIZE]
+    );
+    if (positionsResult.rows.length === 0) return 0;
+
+    const byAircraft = new Map<string, SegmentPosition[]>();
+    for (const row of positionsResult.rows) {
+      const list = byAircraft.get(row.icao24) ?? [];
+      list.push(row);
+      byAircraft.set(row.icao24, list);
+    }
+
+    const openResult = await query<Flight>(
+      `SELECT * FROM flights WHERE status = 'active' AND icao24 = ANY($1)`,
+      [Array.from(byAircraft.keys())]
+    );
+    const openFlights = new Map(openResult.rows.map((f: Flight) => [f.icao24, f]));
+
+    let processed = 0;
+    for (const [icao24, positions] of byAircraft) {
+      try {
+        const segments = segmentPositions(icao24, positions, openFlights.get(icao24) ?? null);
+        await withTransaction(async (client) => {
+          for (const segment of segments) {
+            await saveSegment(client, segment);
+          }
+          await client.query(
+            `UPDATE positions SET segmented = TRUE WHERE id = ANY($1)`,
+            [positions.map((pos) => pos.id)]
+          );
+        });
+        processed += positions.length;
+      } catch (error) {
+        console.error(`Error segmenting flights of ${icao24}:`, (error as Error).message);
+      }
+    }
+
+    return processed;
+  } catch (error) {
+    console.error('Error updating flights:', (error as Error).message);
+    return 0;
+  }
+}
+
+/**
+ * Get the positions belonging to a flight
+ */
+export async function getFlightPositions(flightId: number): Promise<Position[]> {
+  const result = await query<Position>(
+    `SELECT
+       icao24,
+       callsign,
+       latitude,
+       longitude,
+       altitude,
+       velocity,
+       heading,
+       vertical_rate,
+       on_ground,
+       timestamp
+     FROM positions
+     WHERE flight_id = $1
+     ORDER BY timestamp ASC`,
+    [flightId]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Get departure/arrival routes of the flights flown by a set of aircraft in the last N hours
+ * @returns routes keyed by icao24, oldest flight first
+ */
+export async function getFlightRoutes(icao24s: string[], hours: number = 24): Promise<Map<string, FlightRoute[]>> {
+  const routes = new Map<string, FlightRoute[]>();
+  if (icao24s.length === 0) return routes;
+
+  const result = await query<Pick<Flight, 'id' | 'icao24' | 'callsign' | 'start_time' | 'end_time' | 'departure_airport' | 'arrival_airport'>>(
+    `SELECT id, icao24, callsign, start_time, end_time, departure_airport, arrival_airport
+     FROM flights
+     WHERE icao24 = ANY($1) AND end_time > NOW() - ($2 || ' hours')::INTERVAL
+     ORDER BY start_time ASC`,
+    [icao24s, hours]
+  );
+
+  for (const row of result.rows) {
+    const list = routes.get(row.icao24) ?? [];
+    list.push({
+      flight_id: row.id,
+      callsign: row.callsign,
+      start_time: row.start_time,
+      end_time: row.end_time,
+      departure: describeAirport(row.departure_airport),
+      arrival: describeAirport(row.arrival_airport)
+    });
+    routes.set(row.icao24, list);
+  }
+  return routes;
+}
@@ -0,0 +1,52 @@
+/**
+ * Calculate distance between two points using Haversine formula
+ * @returns distance in kilometers
+ */
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371; // Earth's radius in km
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+/**
+ * Check if a point lies inside a polygon ring using ray casting
+ * @param ring polygon vertices as [longitude, latitude] pairs (GeoJSON order)
+ */
+export function pointInPolygon(lat: number, lon: number, ring: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const intersects = (yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+    if (intersects) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Distance from a point to a line segment, projecting onto a plane centred on the point
+ * Accurate to well under a percent for segments within a few hundred kilometers
+ * @param a segment start as [longitude, latitude]
+ * @param b segment end as [longitude, latitude]
+ * @returns distance in kilometers
+ */
+export function distanceToSegment(lat: number, lon: number, a: [number, number], b: [number, number]): number {
+  const kmPerDegLat = 111.32;
+  const kmPerDegLon = 111.32 * Math.cos(lat * Math.PI / 180);
+  // Longitudes relative to the point, taking the short way round the antimeridian
+  const dx = (value: number) => ((((value - lon) % 360) + 540) % 360 - 180) * kmPerDegLon;
+  const ax = dx(a[0]);
+  const ay = (a[1] - lat) * kmPerDegLat;
+  const bx = dx(b[0]);
+  const by = (b[1] - lat) * kmPerDegLat;
+
+  const lengthSq = (bx - ax) ** 2 + (by - ay) ** 2;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * (bx - ax) + ay * (by - ay)) / lengthSq));
+  return Math.hypot(ax + t * (bx - ax), ay + t * (by - ay));
+}
@@ -0,0 +1,173 @@
+import { query } from '../db';
+import { Flight, Geofence, GeofenceEvent, Position } from '../types';
+import { haversineDistance, pointInPolygon } from './geo';
+
+/**
+ * Check if a coordinate lies inside a geofence
+ */
+export function isInsideGeofence(fence: Geofence, lat: number, lon: number): boolean {
+  if (fence.shape === 'circle') {
+    if (fence.center_latitude == null || fence.center_longitude == null || fence.radius_km == null) return false;
+    return haversineDistance(Number(fence.center_latitude), Number(fence.center_longitude), lat, lon) <= Number(fence.radius_km);
+  }
+  return fence.coordinates != null && pointInPolygon(lat, lon, fence.coordinates);
+}
+
+/**
+ * Load enabled geofences from the database
+ */
+export async function getEnabledGeofences(): Promise<Geofence[]> {
+  const result = await query<Geofence>(
+    `SELECT * FROM geofences WHERE enabled = TRUE ORDER BY id ASC`
+  );
+  return result.rows;
+}
+
+/**
+ * Compare the positions stored in an ingestion cycle against every enabled geofence
+ * and record entry/exit transitions
+ * @returns the events recorded in this cycle
+ */
+export async function detectGeofenceEvents(positions: Position[]): Promise<GeofenceEvent[]> {
+  try {
+    if (positions.length === 0) return [];
+
+    const fences = await getEnabledGeofences();
+    if (fences.length === 0) return [];
+
+    const icao24s = positions.map((p) => p.icao24);
+    const presenceResult = await query<{ geofence_id: number; icao24: string }>(
+      `SELECT geofence_id, icao24 FROM geofence_presence WHERE icao24 = ANY($1)`,
+      [icao24s]
+    );
+    const present = new Set(presenceResult.rows.map((row) => `${row.geofence_id}:${row.icao24}`));
+
+    const events: GeofenceEvent[] = [];
+    const stillInside: { geofenceIds: number[]; icao24s: string[] } = { geofenceIds: [], icao24s: [] };
+    for (const pos of positions) {
+      if (pos.latitude == null || pos.longitude == null) continue;
+      const lat = Number(pos.latitude);
+      const lon = Number(pos.longitude);
+
+      for (const fence of fences) {
+        const key = `${fence.id}:${pos.icao24}`;
+        const inside = isInsideGeofence(fence, lat, lon);
+        const wasInside = present.has(key);
+
+        if (inside && wasInside) {
+          stillInside.geofenceIds.push(fence.id);
+          stillInside.icao24s.push(pos.icao24);
+          continue;
+        }
+        if (inside === wasInside) continue;
+
+        const event: GeofenceEvent = {
+          geofence_id: fence.id,
+          geofence_name: fence.name,
+          icao24: pos.icao24,
+          callsign: pos.callsign,
+          event_type: inside ? 'entry' : 'exit',
+          latitude: lat,
+          longitude: lon,
+          altitude: pos.altitude,
+          timestamp: pos.timestamp
+        };
+
+        const eventResult = await query<{ id: number }>(
+          `INSERT INTO geofence_events (geofence_id, icao24, callsign, event_type, latitude, longitude, altitude, timestamp)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+           RETURNING id`,
+          [fence.id, pos.icao24, pos.callsign, event.event_type, lat, lon, pos.altitude, pos.timestamp]
+        );
+        event.id = eventResult.rows[0].id;
+
+        if (inside) {
+          await query(
+            `INSERT INTO geofence_presence (geofence_id, icao24, entered_at, last_seen)
+             VALUES ($1, $2, $3, $3)
+             ON CONFLICT (geofence_id, icao24) DO UPDATE SET entered_at = EXCLUDED.entered_at, last_seen = EXCLUDED.last_seen`,
+            [fence.id, pos.icao24, pos.timestamp]
+          );
+        } else {
+          await query(
+            `DELETE FROM geofence_presence WHERE geofence_id = $1 AND icao24 = $2`,
+            [fence.id, pos.icao24]
+          );
+        }
+
+        events.push(event);
+      }
+    }
+
+    if (stillInside.geofenceIds.length > 0) {
+      await query(
+        `UPDATE geofence_presence gp SET last_seen = CURRENT_TIMESTAMP
+         FROM unnest($1::INTEGER[], $2::TEXT[]) AS u(geofence_id, icao24)
+         WHERE gp.geofence_id = u.geofence_id AND gp.icao24 = u.icao24`,
+        [stillInside.geofenceIds, stillInside.icao24s]
+      );
+    }
+
+    if (events.length > 0) {
+      console.log(`🚧 Recorded ${events.length} geofence events`);
+    }
+    return events;
+  } catch (error) {
+    console.error('Error detecting geofence events:', (error as Error).message);
+    return [];
+  }
+}
+
+/**
+ * Record an exit from every geofence an aircraft was still inside when its flight
+ * closed as signal_lost, at the flight's last known position
+ * Without this an aircraft that stops transmitting inside a geofence stays present forever.
+ * @returns the events recorded
+ */
+export async function recordSignalLostExits(flights: Flight[]): Promise<GeofenceEvent[]> {
+  try {
+    if (flights.length === 0) return [];
+
+    const presenceResult = await query<{ geofence_id: number; geofence_name: string; icao24: string }>(
+      `DELETE FROM geofence_presence gp
+       USING geofences g
+       WHERE g.id = gp.geofence_id AND gp.icao24 = ANY($1)
+       RETURNING gp.geofence_id, g.name AS geofence_name, gp.icao24`,
+      [flights.map((f) => f.icao24)]
+    );
+    const lastFlights = new Map(flights.map((f) => [f.icao24, f]));
+
+    const events: GeofenceEvent[] = [];
+    for (const row of presenceResult.rows) {
+      const flight = lastFlights.get(row.icao24)!;
+      const event: GeofenceEvent = {
+        geofence_id: row.geofence_id,
+        geofence_name: row.geofence_name,
+        icao24: row.icao24,
+        callsign: flight.callsign,
+        event_type: 'exit',
+        latitude: Number(flight.last_latitude),
+        longitude: Number(flight.last_longitude),
+        altitude: flight.last_altitude,
+        timestamp: flight.end_time
+      };
+
+      const eventResult = await query<{ id: number }>(
+        `INSERT INTO geofence_events (geofence_id, icao24, callsign, event_type, latitude, longitude, altitude, timestamp)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING id`,
+        [event.geofence_id, event.icao24, event.callsign, event.event_type, event.latitude, event.longitude, event.altitude, event.timestamp]
+      );
+      event.id = eventResult.rows[0].id;
+      events.push(event);
+    }
+
+    if (events.length > 0) {
+      console.log(`🚧 Recorded ${events.length} geofence exits for lost signals`);
+    }
+    return events;
+  } catch (error) {
+    console.error('Error recording signal-lost geofence exits:', (error as Error).message);
+    return [];
+  }
+}
@@ -0,0 +1,307 @@
+import { DecodedCountryFields, IcaoAllocation, IcaoDecodeResult } from '../types';
+
+/**
+ * ICAO 24-bit address allocations by State (ICAO Annex 10, Volume III, Chapter 9)
+ * Where a territory's block sits inside a larger one (e.g. Bermuda within the
+ * United Kingdom), the narrowest matching block wins
+ */
+const ICAO_ALLOCATIONS: IcaoAllocation[] = [
+  { from: 0x004000, to: 0x0043FF, country: 'Zimbabwe', code: 'ZW' },
+  { from: 0x006000, to: 0x006FFF, country: 'Mozambique', code: 'MZ' },
+  { from: 0x008000, to: 0x00FFFF, country: 'South Africa', code: 'ZA' },
+  { from: 0x010000, to: 0x017FFF, country: 'Egypt', code: 'EG' },
+  { from: 0x018000, to: 0x01FFFF, country: 'Libya', code: 'LY' },
+  { from: 0x020000, to: 0x027FFF, country: 'Morocco', code: 'MA' },
+  { from: 0x028000, to: 0x02FFFF, country: 'Tunisia', code: 'TN' },
+  { from: 0x030000, to: 0x0303FF, country: 'Botswana', code: 'BW' },
+  { from: 0x032000, to: 0x032FFF, country: 'Burundi', code: 'BI' },
+  { from: 0x034000, to: 0x034FFF, country: 'Cameroon', code: 'CM' },
+  { from: 0x035000, to: 0x0353FF, country: 'Comoros', code: 'KM' },
+  { from: 0x036000, to: 0x036FFF, country: 'Congo', code: 'CG' },
+  { from: 0x038000, to: 0x038FFF, country: 'Cote d\'Ivoire', code: 'CI' },
+  { from: 0x03E000, to: 0x03EFFF, country: 'Gabon', code: 'GA' },
+  { from: 0x040000, to: 0x040FFF, country: 'Ethiopia', code: 'ET' },
+  { from: 0x042000, to: 0x042FFF, country: 'Equatorial Guinea', code: 'GQ' },
+  { from: 0x044000, to: 0x044FFF, country: 'Ghana', code: 'GH' },
+  { from: 0x046000, to: 0x046FFF, country: 'Guinea', code: 'GN' },
+  { from: 0x048000, to: 0x0483FF, country: 'Guinea-Bissau', code: 'GW' },
+  { from: 0x04A000, to: 0x04A3FF, country: 'Lesotho', code: 'LS' },
+  { from: 0x04C000, to: 0x04CFFF, country: 'Kenya', code: 'KE' },
+  { from: 0x050000, to: 0x050FFF, country: 'Liberia', code: 'LR' },
+  { from: 0x054000, to: 0x054FFF, country: 'Madagascar', code: 'MG' },
+  { from: 0x058000, to: 0x058FFF, country: 'Malawi', code: 'MW' },
+  { from: 0x05A000, to: 0x05A3FF, country: 'Maldives', code: 'MV' },
+  { from: 0x05C000, to: 0x05CFFF, country: 'Mali', code: 'ML' },
+  { from: 0x05E000, to: 0x05E3FF, country: 'Mauritania', code: 'MR' },
+  { from: 0x060000, to: 0x0603FF, country: 'Mauritius', code: 'MU' },
+  { from: 0x062000, to: 0x062FFF, country: 'Niger', code: 'NE' },
+  { from: 0x064000, to: 0x064FFF, country: 'Nigeria', code: 'NG' },
+  { from: 0x068000, to: 0x068FFF, country: 'Uganda', code: 'UG' },
+  { from: 0x06A000, to: 0x06A3FF, country: 'Qatar', code: 'QA' },
+  { from: 0x06C000, to: 0x06CFFF, country: 'Central African Republic', code: 'CF' },
+  { from: 0x06E000, to: 0x06EFFF, country: 'Rwanda', code: 'RW' },
+  { from: 0x070000, to: 0x070FFF, country: 'Senegal', code: 'SN' },
+  { from: 0x074000, to: 0x0743FF, country: 'Seychelles', code: 'SC' },
+  { from: 0x076000, to: 0x0763FF, country: 'Sierra Leone', code: 'SL' },
+  { from: 0x078000, to: 0x078FFF, country: 'Somalia', code: 'SO' },
+  { from: 0x07A000, to: 0x07A3FF, country: 'Eswatini', code: 'SZ' },
+  { from: 0x07C000, to: 0x07CFFF, country: 'Sudan', code: 'SD' },
+  { from: 0x080000, to: 0x080FFF, country: 'Tanzania', code: 'TZ' },
+  { from: 0x084000, to: 0x084FFF, country: 'Chad', code: 'TD' },
+  { from: 0x088000, to: 0x088FFF, country: 'Togo', code: 'TG' },
+  { from: 0x08A000, to: 0x08AFFF, country: 'Zambia', code: 'ZM' },
+  { from: 0x08C000, to: 0x08CFFF, country: 'Democratic Republic of the Congo', code: 'CD' },
+  { from: 0x090000, to: 0x090FFF, country: 'Angola', code: 'AO' },
+  { from: 0x094000, to: 0x0943FF, country: 'Benin', code: 'BJ' },
+  { from: 0x096000, to: 0x0963FF, country: 'Cape Verde', code: 'CV' },
+  { from: 0x098000, to: 0x0983FF, country: 'Djibouti', code: 'DJ' },
+  { from: 0x09A000, to: 0x09AFFF, country: 'Gambia', code: 'GM' },
+  { from: 0x09C000, to: 0x09CFFF, country: 'Burkina Faso', code: 'BF' },
+  { from: 0x09E000, to: 0x09E3FF, country: 'Sao Tome and Principe', code: 'ST' },
+  { from: 0x0A0000, to: 0x0A7FFF, country: 'Algeria', code: 'DZ' },
+  { from: 0x0A8000, to: 0x0A8FFF, country: 'Bahamas', code: 'BS' },
+  { from: 0x0AA000, to: 0x0AA3FF, country: 'Barbados', code: 'BB' },
+  { from: 0x0AB000, to: 0x0AB3FF, country: 'Belize', code: 'BZ' },
+  { from: 0x0AC000, to: 0x0ACFFF, country: 'Colombia', code: 'CO' },
+  { from: 0x0AE000, to: 0x0AEFFF, country: 'Costa Rica', code: 'CR' },
+  { from: 0x0B0000, to: 0x0B0FFF, country: 'Cuba', code: 'CU' },
+  { from: 0x0B2000, to: 0x0B2FFF, country: 'El Salvador', code: 'SV' },
+  { from: 0x0B4000, to: 0x0B4FFF, country: 'Guatemala', code: 'GT' },
+  { from: 0x0B6000, to: 0x0B6FFF, country: 'Guyana', code: 'GY' },
+  { from: 0x0B8000, to: 0x0B8FFF, country: 'Haiti', code: 'HT' },
+  { from: 0x0BA000, to: 0x0BAFFF, country: 'Honduras', code: 'HN' },
+  { from: 0x0BC000, to: 0x0BC3FF, country: 'Saint Vincent and the Grenadines', code: 'VC' },
+  { from: 0x0BE000, to: 0x0BEFFF, country: 'Jamaica', code: 'JM' },
+  { from: 0x0C0000, to: 0x0C0FFF, country: 'Nicaragua', code: 'NI' },
+  { from: 0x0C2000, to: 0x0C2FFF, country: 'Panama', code: 'PA' },
+  { from: 0x0C4000, to: 0x0C4FFF, country: 'Dominican Republic', code: 'DO' },
+  { from: 0x0C6000, to: 0x0C6FFF, country: 'Trinidad and Tobago', code: 'TT' },
+  { from: 0x0C8000, to: 0x0C8FFF, country: 'Suriname', code: 'SR' },
+  { from: 0x0CA000, to: 0x0CA3FF, country: 'Antigua and Barbuda', code: 'AG' },
+  { from: 0x0CC000, to: 0x0CC3FF, country: 'Grenada', code: 'GD' },
+  { from: 0x0D0000, to: 0x0D7FFF, country: 'Mexico', code: 'MX' },
+  { from: 0x0D8000, to: 0x0DFFFF, country: 'Venezuela', code: 'VE' },
+  { from: 0x100000, to: 0x1FFFFF, country: 'Russia', code: 'RU' },
+  { from: 0x201000, to: 0x2013FF, country: 'Namibia', code: 'NA' },
+  { from: 0x202000, to: 0x2023FF, country: 'Eritrea', code: 'ER' },
+  { from: 0x300000, to: 0x33FFFF, country: 'Italy', code: 'IT' },
+  { from: 0x340000, to: 0x37FFFF, country: 'Spain', code: 'ES' },
+  { from: 0x380000, to: 0x3BFFFF, country: 'France', code: 'FR' },
+  { from: 0x3C0000, to: 0x3FFFFF, country: 'Germany', code: 'DE' },
+  { from: 0x400000, to: 0x4001BF, country: 'Bermuda', code: 'BM' },
+  { from: 0x4001C0, to: 0x4001FF, country: 'Cayman Islands', code: 'KY' },
+  { from: 0x400300, to: 0x4003FF, country: 'Turks and Caicos Islands', code: 'TC' },
+  { from: 0x424135, to: 0x4241F2, country: 'Cayman Islands', code: 'KY' },
+  { from: 0x424200, to: 0x4246FF, country: 'Bermuda', code: 'BM' },
+  { from: 0x424700, to: 0x424899, country: 'Cayman Islands', code: 'KY' },
+  { from: 0x424B00, to: 0x424BFF, country: 'Isle of Man', code: 'IM' },
+  { from: 0x43BE00, to: 0x43BEFF, country: 'Bermuda', code: 'BM' },
+  { from: 0x43E700, to: 0x43EAFD, country: 'Isle of Man', code: 'IM' },
+  { from: 0x43EAFE, to: 0x43EEFF, country: 'Guernsey', code: 'GG' },
+  { from: 0x400000, to: 0x43FFFF, country: 'United Kingdom', code: 'GB' },
+  { from: 0x440000, to: 0x447FFF, country: 'Austria', code: 'AT' },
+  { from: 0x448000, to: 0x44FFFF, country: 'Belgium', code: 'BE' },
+  { from: 0x450000, to: 0x457FFF, country: 'Bulgaria', code: 'BG' },
+  { from: 0x458000, to: 0x45FFFF, country: 'Denmark', code: 'DK' },
+  { from: 0x460000, to: 0x467FFF, country: 'Finland', code: 'FI' },
+  { from: 0x468000, to: 0x46FFFF, country: 'Greece', code: 'GR' },
+  { from: 0x470000, to: 0x477FFF, country: 'Hungary', code: 'HU' },
+  { from: 0x478000, to: 0x47FFFF, country: 'Norway', code: 'NO' },
+  { from: 0x480000, to: 0x487FFF, country: 'Netherlands', code: 'NL' },
+  { from: 0x488000, to: 0x48FFFF, country: 'Poland', code: 'PL' },
+  { from: 0x490000, to: 0x497FFF, country: 'Portugal', code: 'PT' },
+  { from: 0x498000, to: 0x49FFFF, country: 'Czechia', code: 'CZ' },
+  { from: 0x4A0000, to: 0x4A7FFF, country: 'Romania', code: 'RO' },
+  { from: 0x4A8000, to: 0x4AFFFF, country: 'Sweden', code: 'SE' },
+  { from: 0x4B0000, to: 0x4B7FFF, country: 'Switzerland', code: 'CH' },
+  { from: 0x4B8000, to: 0x4BFFFF, country: 'Turkey', code: 'TR' },
+  { from: 0x4C0000, to: 0x4C7FFF, country: 'Serbia', code: 'RS' },
+  { from: 0x4C8000, to: 0x4C83FF, country: 'Cyprus', code: 'CY' },
+  { from: 0x4CA000, to: 0x4CAFFF, country: 'Ireland', code: 'IE' },
+  { from: 0x4CC000, to: 0x4CCFFF, country: 'Iceland', code: 'IS' },
+  { from: 0x4D0000, to: 0x4D03FF, country: 'Luxembourg', code: 'LU' },
+  { from: 0x4D2000, to: 0x4D2FFF, country: 'Malta', code: 'MT' },
+  { from: 0x4D4000, to: 0x4D43FF, country: 'Monaco', code: 'MC' },
+  { from: 0x500000, to: 0x5003FF, country: 'San Marino', code: 'SM' },
+  { from: 0x501000, to: 0x5013FF, country: 'Albania', code: 'AL' },
+  { from: 0x501C00, to: 0x501FFF, country: 'Croatia', code: 'HR' },
+  { from: 0x502C00, to: 0x502FFF, country: 'Latvia', code: 'LV' },
+  { from: 0x503C00, to: 0x503FFF, country: 'Lithuania', code: 'LT' },
+  { from: 0x504C00, to: 0x504FFF, country: 'Moldova', code: 'MD' },
+  { from: 0x505C00, to: 0x505FFF, country: 'Slovakia', code: 'SK' },
+  { from: 0x506C00, to: 0x506FFF, country: 'Slovenia', code: 'SI' },
+  { from: 0x507C00, to: 0x507FFF, country: 'Uzbekistan', code: 'UZ' },
+  { from: 0x508000, to: 0x50FFFF, country: 'Ukraine', code: 'UA' },
+  { from: 0x510000, to: 0x5103FF, country: 'Belarus', code: 'BY' },
+  { from: 0x511000, to: 0x5113FF, country: 'Estonia', code: 'EE' },
+  { from: 0x512000, to: 0x5123FF, country: 'North Macedonia', code: 'MK' },
+  { from: 0x513000, to: 0x5133FF, country: 'Bosnia and Herzegovina', code: 'BA' },
+  { from: 0x514000, to: 0x5143FF, country: 'Georgia', code: 'GE' },
+  { from: 0x515000, to: 0x5153FF, country: 'Tajikistan', code: 'TJ' },
+  { from: 0x516000, to: 0x5163FF, country: 'Montenegro', code: 'ME' },
+  { from: 0x600000, to: 0x6003FF, country: 'Armenia', code: 'AM' },
+  { from: 0x600800, to: 0x600BFF, country: 'Azerbaijan', code: 'AZ' },
+  { from: 0x601000, to: 0x6013FF, country: 'Kyrgyzstan', code: 'KG' },
+  { from: 0x601800, to: 0x601BFF, country: 'Turkmenistan', code: 'TM' },
+  { from: 0x680000, to: 0x6803FF, country: 'Bhutan', code: 'BT' },
+  { from: 0x681000, to: 0x6813FF, country: 'Micronesia', code: 'FM' },
+  { from: 0x682000, to: 0x6823FF, country: 'Mongolia', code: 'MN' },
+  { from: 0x683000, to: 0x6833FF, country: 'Kazakhstan', code: 'KZ' },
+  { from: 0x684000, to: 0x6843FF, country: 'Palau', code: 'PW' },
+  { from: 0x700000, to: 0x700FFF, country: 'Afghanistan', code: 'AF' },
+  { from: 0x702000, to: 0x702FFF, country: 'Bangladesh', code: 'BD' },
+  { from: 0x704000, to: 0x704FFF, country: 'Myanmar', code: 'MM' },
+  { from: 0x706000, to: 0x706FFF, country: 'Kuwait', code: 'KW' },
+  { from: 0x708000, to: 0x708FFF, country: 'Laos', code: 'LA' },
+  { from: 0x70A000, to: 0x70AFFF, country: 'Nepal', code: 'NP' },
+  { from: 0x70C000, to: 0x70C3FF, country: 'Oman', code: 'OM' },
+  { from: 0x70E000, to: 0x70EFFF, country: 'Cambodia', code: 'KH' },
+  { from: 0x710000, to: 0x717FFF, country: 'Saudi Arabia', code: 'SA' },
+  { from: 0x718000, to: 0x71FFFF, country: 'South Korea', code: 'KR' },
+  { from: 0x720000, to: 0x727FFF, country: 'North Korea', code: 'KP' },
+  { from: 0x728000, to: 0x72FFFF, country: 'Iraq', code: 'IQ' },
+  { from: 0x730000, to: 0x737FFF, country: 'Iran', code: 'IR' },
+  { from: 0x738000, to: 0x73FFFF, country: 'Israel', code: 'IL' },
+  { from: 0x740000, to: 0x747FFF, country: 'Jordan', code: 'JO' },
+  { from: 0x748000, to: 0x74FFFF, country: 'Lebanon', code: 'LB' },
+  { from: 0x750000, to: 0x757FFF, country: 'Malaysia', code: 'MY' },
+  { from: 0x758000, to: 0x75FFFF, country: 'Philippines', code: 'PH' },
+  { from: 0x760000, to: 0x767FFF, country: 'Pakistan', code: 'PK' },
+  { from: 0x768000, to: 0x76FFFF, country: 'Singapore', code: 'SG' },
+  { from: 0x770000, to: 0x777FFF, country: 'Sri Lanka', code: 'LK' },
+  { from: 0x778000, to: 0x77FFFF, country: 'Syria', code: 'SY' },
+  { from: 0x789000, to: 0x789FFF, country: 'Hong Kong', code: 'HK' },
+  { from: 0x780000, to: 0x7BFFFF, country: 'China', code: 'CN' },
+  { from: 0x7C0000, to: 0x7FFFFF, country: 'Australia', code: 'AU' },
+  { from: 0x800000, to: 0x83FFFF, country: 'India', code: 'IN' },
+  { from: 0x840000, to: 0x87FFFF, country: 'Japan', code: 'JP' },
+  { from: 0x880000, to: 0x887FFF, country: 'Thailand', code: 'TH' },
+  { from: 0x888000, to: 0x88FFFF, country: 'Vietnam', code: 'VN' },
+  { from: 0x890000, to: 0x890FFF, country: 'Yemen', code: 'YE' },
+  { from: 0x894000, to: 0x894FFF, country: 'Bahrain', code: 'BH' },
+  { from: 0x895000, to: 0x8953FF, country: 'Brunei', code: 'BN' },
+  { from: 0x896000, to: 0x896FFF, country: 'United Arab Emirates', code: 'AE' },
+  { from: 0x897000, to: 0x8973FF, country: 'Solomon Islands', code: 'SB' },
+  { from: 0x898000, to: 0x898FFF, country: 'Papua New Guinea', code: 'PG' },
+  { from: 0x899000, to: 0x8993FF, country: 'Taiwan', code: 'TW' },
+  { from: 0x8A0000, to: 0x8A7FFF, country: 'Indonesia', code: 'ID' },
+  { from: 0x900000, to: 0x9003FF, country: 'Marshall Islands', code: 'MH' },
+  { from: 0x901000, to: 0x9013FF, country: 'Cook Islands', code: 'CK' },
+  { from: 0x902000, to: 0x9023FF, country: 'Samoa', code: 'WS' },
+  { from: 0xA00000, to: 0xAFFFFF, country: 'United States', code: 'US' },
+  { from: 0xC00000, to: 0xC3FFFF, country: 'Canada', code: 'CA' },
+  { from: 0xC80000, to: 0xC87FFF, country: 'New Zealand', code: 'NZ' },
+  { from: 0xC88000, to: 0xC88FFF, country: 'Fiji', code: 'FJ' },
+  { from: 0xC8A000, to: 0xC8A3FF, country: 'Nauru', code: 'NR' },
+  { from: 0xC8C000, to: 0xC8C3FF, country: 'Saint Lucia', code: 'LC' },
+  { from: 0xC8D000, to: 0xC8D3FF, country: 'Tonga', code: 'TO' },
+  { from: 0xC8E000, to: 0xC8E3FF, country: 'Kiribati', code: 'KI' },
+  { from: 0xC90000, to: 0xC903FF, country: 'Vanuatu', code: 'VU' },
+  { from: 0xE00000, to: 0xE3FFFF, country: 'Argentina', code: 'AR' },
+  { from: 0xE40000, to: 0xE7FFFF, country: 'Brazil', code: 'BR' },
+  { from: 0xE80000, to: 0xE80FFF, country: 'Chile', code: 'CL' },
+  { from: 0xE84000, to: 0xE84FFF, country: 'Ecuador', code: 'EC' },
+  { from: 0xE88000, to: 0xE88FFF, country: 'Paraguay', code: 'PY' },
+  { from: 0xE8C000, to: 0xE8CFFF, country: 'Peru', code: 'PE' },
+  { from: 0xE90000, to: 0xE90FFF, country: 'Uruguay', code: 'UY' },
+  { from: 0xE94000, to: 0xE94FFF, country: 'Bolivia', code: 'BO' },
+];
+
+// Blocks reserved by ICAO itself rather than allocated to a State
+const ICAO_RESERVED: IcaoAllocation[] = [
+  { from: 0xF00000, to: 0xF07FFF, country: 'ICAO (temporary)', code: null },
+  { from: 0xF09000, to: 0xF093FF, country: 'ICAO (special use)', code: null }
+];
+
+// readsb/ADSBone address types that carry a non-ICAO (anonymous or track file) address
+const NON_ICAO_ADDRESS_TYPES = new Set(['adsb_other', 'adsr_other', 'tisb_other', 'tisb_trackfile']);
+
+/**
+ * Find the narrowest allocation block containing an address
+ */
+function findAllocation(address: number): IcaoAllocation | null {
+  let match: IcaoAllocation | null = null;
+  for (const block of [...ICAO_ALLOCATIONS, ...ICAO_RESERVED]) {
+    if (address >= block.from && address <= block.to) {
+      if (!match || block.to - block.from < match.to - match.from) {
+        match = block;
+      }
+    }
+  }
+  return match;
+}
+
+/**
+ * Decode an icao24 address into its registering country
+ * `~`-prefixed hexes (readsb convention) and non-ICAO address types are flagged
+ * @param addressType readsb/ADSBone `type` field, if known
+ */
+export function decodeIcao24(icao24: string | null | undefined, addressType?: string | null): IcaoDecodeResult {
+  const raw = (icao24 ?? '').trim().toLowerCase();
+  const hex = raw.replace(/^~/, '');
+
+  if (!/^[0-9a-f]{6}$/.test(hex) || hex === '000000' || hex === 'ffffff') {
+    return { icao24: raw, country: null, country_code: null, non_icao: true, address_type: 'invalid' };
+  }
+
+  if (raw.startsWith('~') || (addressType && NON_ICAO_ADDRESS_TYPES.has(addressType))) {
+    return { icao24: raw, country: null, country_code: null, non_icao: true, address_type: 'non_icao' };
+  }
+
+  const block = findAllocation(parseInt(hex, 16));
+  if (!block) {
+    return { icao24: raw, country: null, country_code: null, non_icao: false, address_type: 'unallocated' };
+  }
+
+  return {
+    icao24: raw,
+    country: block.country,
+    country_code: block.code,
+    non_icao: false,
+    address_type: block.code ? 'icao' : 'reserved'
+  };
+}
+
+/**
+ * Get the registering country name for an icao24 address, or null if it cannot be decoded
+ */
+export function getIcaoCountry(icao24: string | null | undefined): string | null {
+  return decodeIcao24(icao24).country;
+}
+
+/**
+ * Resolve a country name or ISO 3166 alpha-2 code to the hex ranges it owns
+ * Narrower blocks of other countries nested inside those ranges are returned as exclusions
+ */
+export function getCountryAddressRanges(country: string): { include: IcaoAllocation[]; exclude: IcaoAllocation[] } {
+  const needle = country.trim().toLowerCase();
+  const include = ICAO_ALLOCATIONS.filter(
+    (block) => block.country.toLowerCase() === needle || block.code?.toLowerCase() === needle
+  );
+  const exclude = ICAO_ALLOCATIONS.filter(
+    (block) =>
+      !include.includes(block) &&
+      include.some((outer) => block.from >= outer.from && block.to <= outer.to)
+  );
+  return { include, exclude };
+}
+
+/**
+ * Format a numeric address as a lowercase 6-digit hex string
+ */
+export function formatIcaoAddress(address: number): string {
+  return address.toString(16).padStart(6, '0');
+}
+
+/**
+ * Attach the decoded country to an API row, overriding whatever was stored
+ */
+export function withDecodedCountry<T extends { icao24: string }>(row: T): T & DecodedCountryFields {
+  const decoded = decodeIcao24(row.icao24);
+  return {
+    ...row,
+    origin_country: decoded.country,
+    country_code: decoded.country_code,
+    non_icao: decoded.non_icao
+  };
+}
@@ -0,0 +1,318 @@
+import { query, valuesList } from '../db';
+import {
+  InterferenceBucket,
+  InterferenceCycleResult,
+  InterferenceEvent,
+  InterferenceEventType,
+  SourceAircraft
+} from '../types';
+import { haversineDistance } from './geo';
+
+// Heatmap cell size and time bucket; changing the grid leaves older cells on the old one
+export const INTERFERENCE_GRID_DEGREES = parseFloat(process.env.INTERFERENCE_GRID_DEGREES || '0.5');
+export const INTERFERENCE_BUCKET_MINUTES = parseInt(process.env.INTERFERENCE_BUCKET_MINUTES || '10');
+
+// Integrity below these counts as degraded. NIC 7 is a 0.2 NM containment radius,
+// NACp 8 a 93 m accuracy bound; healthy GNSS reports 8+ and 9+
+const MIN_NIC = parseInt(process.env.INTERFERENCE_MIN_NIC || '7');
+const MIN_NAC_P = parseInt(process.env.INTERFERENCE_MIN_NAC_P || '8');
+
+// A cell is flagged when, within one cycle, at least this many aircraft there are
+// degraded and they make up at least this share of the aircraft reporting integrity
+const MIN_DEGRADED_AIRCRAFT = parseInt(process.env.INTERFERENCE_MIN_AIRCRAFT || '3');
+const MIN_DEGRADED_RATIO = parseFloat(process.env.INTERFERENCE_MIN_RATIO || '0.5');
+
+// A flagged cell extends its open event if that was last seen within this window
+export const INTERFERENCE_EVENT_GAP_MINUTES = parseInt(process.env.INTERFERENCE_EVENT_GAP_MINUTES || '15');
+
+// Consecutive positions implying more than this speed are a jump; shorter jumps are
+// ignored as noise
+const MAX_PLAUSIBLE_KNOTS = parseInt(process.env.INTERFERENCE_MAX_KNOTS || '1200');
+const MIN_JUMP_KM = parseFloat(process.env.INTERFERENCE_MIN_JUMP_KM || '10');
+
+// Aircraft listed in the details of a new integrity_loss event
+const MAX_LISTED_AIRCRAFT = 20;
+
+const NM_TO_KM = 1.852;
+
+interface CellSummary {
+  lat: number;
+  lon: number;
+  samples: number;
+  degraded: number;
+  min_nic: number | null;
+  min_nac_p: number | null;
+  degraded_aircraft: string[];
+}
+
+interface PositionJump {
+  icao24: string;
+  callsign: string | null;
+  from: { latitude: number; longitude: number; time: Date };
+  to: { latitude: number; longitude: number; time: Date };
+  distance_km: number;
+  implied_speed_kt: number;
+}
+
+// Last ADS-B fix of every aircraft reported, tracked or not, for jump detection
+const lastFixes = new Map<string, { latitude: number; longitude: number; time: number }>();
+
+// Fixes older than this are dropped instead of compared
+const FIX_TTL_MS = 30 * 60 * 1000;
+
+const isNumber = (value: number | null): value is number => value != null && Number.isFinite(value);
+
+/**
+ * South-west corner of the grid cell containing a coordinate
+ */
+function cellOf(latitude: number, longitude: number): { lat: number; lon: number } {
+  const snap = (value: number) => Math.round(Math.floor(value / INTERFERENCE_GRID_DEGREES) * INTERFERENCE_GRID_DEGREES * 1000) / 1000;
+  return { lat: snap(latitude), lon: snap(longitude) };
+}
+
+/**
+ * Check if an aircraft reports degraded GNSS
+ */
+function isDegraded(ac: SourceAircraft): boolean {
+  return ac.gps_ok_before != null ||
+    (ac.nic != null && ac.nic < MIN_NIC) ||
+    (ac.nac_p != null && ac.nac_p < MIN_NAC_P);
+}
+
+/**
+ * Positions derived without the aircraft's own GNSS (multilateration, TIS-B)
+ * say nothing about interference
+ */
+function isOwnPosition(ac: SourceAircraft): boolean {
+  return !ac.message_type || !/^(mlat|tisb|adsc)/.test(ac.message_type);
+}
+
+/**
+ * Sum integrity per grid cell
+ * Aircraft that lost their position are placed where GNSS was last good
+ */
+function summarizeCells(aircraft: SourceAircraft[]): CellSummary[] {
+  const cells = new Map<string, CellSummary>();
+
+  for (const ac of aircraft) {
+    if ((ac.nic == null && ac.nac_p == null) || !isOwnPosition(ac)) continue;
+    const latitude = isNumber(ac.latitude) ? ac.latitude : ac.gps_ok_latitude;
+    const longitude = isNumber(ac.longitude) ? ac.longitude : ac.gps_ok_longitude;
+    if (!isNumber(latitude) || !isNumber(longitude)) continue;
+
+    const { lat, lon } = cellOf(latitude, longitude);
+    const key = `${lat},${lon}`;
+    const cell = cells.get(key) ?? { lat, lon, samples: 0, degraded: 0, min_nic: null, min_nac_p: null, degraded_aircraft: [] };
+    cell.samples++;
+    if (isDegraded(ac)) {
+      cell.degraded++;
+      cell.degraded_aircraft.push(ac.icao24);
+    }
+    if (ac.nic != null) cell.min_nic = Math.min(cell.min_nic ?? ac.nic, ac.nic);
+    if (ac.nac_p != null) cell.min_nac_p = Math.min(cell.min_nac_p ?? ac.nac_p, ac.nac_p);
+    cells.set(key, cell);
+  }
+
+  return Array.from(cells.values());
+}
+
+/**
+ * Compare each aircraft's position with its previous fix and remember the new one
+ */
+function findPositionJumps(aircraft: SourceAircraft[], now: number): PositionJump[] {
+  const jumps: PositionJump[] = [];
+
+  for (const ac of aircraft) {
+    if (!isNumber(ac.latitude) || !isNumber(ac.longitude) || !isOwnPosition(ac)) continue;
+    const time = now - (ac.seen_pos ?? 0) * 1000;
+    const previous = lastFixes.get(ac.icao24);
+    lastFixes.set(ac.icao24, { latitude: ac.latitude, longitude: ac.longitude, time });
+    if (!previous || time <= previous.time) continue;
+
+    const distanceKm = haversineDistance(previous.latitude, previous.longitude, ac.latitude, ac.longitude);
+    const speedKt = distanceKm / NM_TO_KM / ((time - previous.time) / 3600000);
+    if (distanceKm < MIN_JUMP_KM || speedKt <= MAX_PLAUSIBLE_KNOTS) continue;
+
+    jumps.push({
+      icao24: ac.icao24,
+      callsign: ac.callsign,
+      from: { latitude: previous.latitude, longitude: previous.longitude, time: new Date(previous.time) },
+      to: { latitude: ac.latitude, longitude: ac.longitude, time: new Date(time) },
+      distance_km: Math.round(distanceKm * 10) / 10,
+      implied_speed_kt: Math.round(speedKt)
+    });
+  }
+
+  for (const [icao24, fix] of lastFixes) {
+    if (now - fix.time > FIX_TTL_MS) lastFixes.delete(icao24);
+  }
+  return jumps;
+}
+
+/**
+ * Open a new integrity_loss event for a flagged cell, or extend the one still open
+ */
+async function recordFlaggedCell(cell: CellSummary): Promise<void> {
+  const updated = await query(
+    `UPDATE interference_events SET
+       last_seen_at = NOW(),
+       peak_aircraft = GREATEST(peak_aircraft, $3),
+       peak_degraded = GREATEST(peak_degraded, $4)
+     WHERE id = (
+       SELECT id FROM interference_events
+       WHERE event_type = 'integrity_loss' AND cell_lat = $1 AND cell_lon = $2
+         AND last_seen_at > NOW() - ($5 || ' minutes')::INTERVAL
+       ORDER BY last_seen_at DESC
+       LIMIT 1
+     )`,
+    [cell.lat, cell.lon, cell.samples, cell.degraded, INTERFERENCE_EVENT_GAP_MINUTES]
+  );
+  if ((updated.rowCount ?? 0) > 0) return;
+
+  await query(
+    `INSERT INTO interference_events
+       (event_type, cell_lat, cell_lon, started_at, last_seen_at, peak_aircraft, peak_degraded, details)
+     VALUES ('integrity_loss', $1, $2, NOW(), NOW(), $3, $4, $5)`,
+    [
+      cell.lat,
+      cell.lon,
+      cell.samples,
+      cell.degraded,
+      JSON.stringify({
+        min_nic: cell.min_nic,
+        min_nac_p: cell.min_nac_p,
+        aircraft: cell.degraded_aircraft.slice(0, MAX_LISTED_AIRCRAFT)
+      })
+    ]
+  );
+}
+
+/**
+ * Look for GNSS interference in one ingestion cycle, across every aircraft
+ * reported (tracked or not): records per-cell integrity for the heatmap, flags
+ * cells where many aircraft are degraded at once and aircraft whose position jumps
+ * impossibly far. Errors are logged, never thrown, so ingestion carries on.
+ */
+export async function detectInterference(aircraft: SourceAircraft[]): Promise<InterferenceCycleResult> {
+  const result: InterferenceCycleResult = { samples: 0, degraded: 0, flagged_cells: 0, position_jumps: 0 };
+
+  try {
+    const now = Date.now();
+    const cells = summarizeCells(aircraft);
+    const jumps = findPositionJumps(aircraft, now);
+
+    if (cells.length > 0) {
+      const bucketMs = INTERFERENCE_BUCKET_MINUTES * 60 * 1000;
+      await query(
+        `INSERT INTO interference_cells (bucket, cell_lat, cell_lon, samples, degraded, min_nic, min_nac_p)
+         SELECT $1::TIMESTAMP, *
+         FROM unnest($2::DECIMAL[], $3::DECIMAL[], $4::INTEGER[], $5::INTEGER[], $6::INTEGER[], $7::INTEGER[])
+         ON CONFLICT (bucket, cell_lat, cell_lon) DO UPDATE SET
+           samples = interference_cells.samples + EXCLUDED.samples,
+           degraded = interference_cells.degraded + EXCLUDED.degraded,
+           min_nic = LEAST(interference_cells.min_nic, EXCLUDED.min_nic),
+           min_nac_p = LEAST(interference_cells.min_nac_p, EXCLUDED.min_nac_p)`,
+        [
+          new Date(Math.floor(now / bucketMs) * bucketMs),
+          cells.map((c) => c.lat),
+          cells.map((c) => c.lon),
+          cells.map((c) => c.samples),
+          cells.map((c) => c.degraded),
+          cells.map((c) => c.min_nic),
+          cells.map((c) => c.min_nac_p)
+        ]
+      );
+    }
+
+    const flagged = cells.filter((c) => c.degraded >= MIN_DEGRADED_AIRCRAFT && c.degraded / c.samples >= MIN_DEGRADED_RATIO);
+    for (const cell of flagged) {
+      await recordFlaggedCell(cell);
+    }
+
+    if (jumps.length > 0) {
+      await query(
+        `INSERT INTO interference_events
+           (event_type, cell_lat, cell_lon, icao24, started_at, last_seen_at, peak_aircraft, peak_degraded, details)
+         VALUES ${valuesList(jumps.length, 9)}`,
+        jumps.flatMap((jump) => {
+          const { lat, lon } = cellOf(jump.to.latitude, jump.to.longitude);
+          const { icao24, ...details } = jump;
+          return ['position_jump', lat, lon, icao24, jump.from.time, jump.to.time, 1, 1, JSON.stringify(details)];
+        })
+      );
+    }
+
+    result.samples = cells.reduce((sum, c) => sum + c.samples, 0);
+    result.degraded = cells.reduce((sum, c) => sum + c.degraded, 0);
+    result.flagged_cells = flagged.length;
+    result.position_jumps = jumps.length;
+    if (flagged.length > 0 || jumps.length > 0) {
+      console.log(
+        `🛰️ GNSS interference: ${flagged.length} cells flagged, ${jumps.length} position jumps ` +
+        `(${result.degraded}/${result.samples} aircraft degraded)`
+      );
+    }
+  } catch (error) {
+    console.error('Error detecting GNSS interference:', (error as Error).message);
+  }
+  return result;
+}
+
+/**
+ * Heatmap of degraded integrity over the last `hours`, one entry per time bucket
+ * @param includeClear also return cells where no aircraft was degraded
+ */
+export async function getInterferenceHeatmap(hours: number, includeClear: boolean, minSamples: number): Promise<InterferenceBucket[]> {
+  const result = await query<{
+    bucket: Date; cell_lat: number; cell_lon: number; samples: number; degraded: number; min_nic: number | null; min_nac_p: number | null;
+  }>(
+    `SELECT bucket, cell_lat, cell_lon, samples, degraded, min_nic, min_nac_p
+     FROM interference_cells
+     WHERE bucket > NOW() - ($1 || ' hours')::INTERVAL
+       AND samples >= $2
+       AND ($3 OR degraded > 0)
+     ORDER BY bucket ASC, cell_lat ASC, cell_lon ASC`,
+    [hours, minSamples, includeClear]
+  );
+
+  const buckets: InterferenceBucket[] = [];
+  for (const row of result.rows) {
+    let bucket = buckets[buckets.length - 1];
+    if (!bucket || bucket.timestamp.getTime() !== new Date(row.bucket).getTime()) {
+      bucket = { timestamp: new Date(row.bucket), cells: [] };
+      buckets.push(bucket);
+    }
+    bucket.cells.push({
+      lat: row.cell_lat,
+      lon: row.cell_lon,
+      samples: row.samples,
+      degraded: row.degraded,
+      ratio: Math.round((row.degraded / row.samples) * 1000) / 1000,
+      min_nic: row.min_nic,
+      min_nac_p: row.min_nac_p
+    });
+  }
+  return buckets;
+}
+
+/**
+ * Interference events seen in the last `hours`, most recent first
+ * integrity_loss events are active while their cell keeps being flagged
+ */
+export async function getInterferenceEvents(
+  hours: number,
+  filters: { type?: InterferenceEventType; icao24?: string; limit: number }
+): Promise<InterferenceEvent[]> {
+  const result = await query<InterferenceEvent>(
+    `SELECT *,
+       event_type = 'integrity_loss' AND last_seen_at > NOW() - ($2 || ' minutes')::INTERVAL as active
+     FROM interference_events
+     WHERE last_seen_at > NOW() - ($1 || ' hours')::INTERVAL
+       AND ($3::TEXT IS NULL OR event_type = $3)
+       AND ($4::TEXT IS NULL OR icao24 = $4)
+     ORDER BY last_seen_at DESC
+     LIMIT $5`,
+    [hours, INTERFERENCE_EVENT_GAP_MINUTES, filters.type ?? null, filters.icao24?.toLowerCase() ?? null, filters.limit]
+  );
+  return result.rows.map((row) => ({ ...row, cell_lat: Number(row.cell_lat), cell_lon: Number(row.cell_lon) }));
+}
@@ -0,0 +1,134 @@
+import { NextFunction, Request, Response } from 'express';
+import { collectDefaultMetrics, Counter, Gauge, Histogram, register } from 'prom-client';
+import { query } from '../db';
+import { TrackerResult } from '../types';
+
+collectDefaultMetrics({ prefix: 'airtracker_' });
+
+const cycleDuration = new Histogram({
+  name: 'airtracker_fetch_cycle_duration_seconds',
+  help: 'Duration of ingestion cycles',
+  buckets: [0.5, 1, 2, 5, 10, 15, 20, 30, 45, 60]
+});
+
+const cycleStepDuration = new Gauge({
+  name: 'airtracker_fetch_cycle_step_seconds',
+  help: 'Duration of each step of the last ingestion cycle',
+  labelNames: ['step']
+});
+
+const cycles = new Counter({
+  name: 'airtracker_fetch_cycles_total',
+  help: 'Ingestion cycles by outcome',
+  labelNames: ['status']
+});
+
+const cycleAircraft = new Gauge({
+  name: 'airtracker_fetch_cycle_aircraft',
+  help: 'Aircraft fetched, tracked, stored and rejected in the last ingestion cycle',
+  labelNames: ['stage']
+});
+
+const aircraftTotal = new Counter({
+  name: 'airtracker_aircraft_total',
+  help: 'Aircraft fetched, tracked, stored and rejected across all ingestion cycles',
+  labelNames: ['stage']
+});
+
+const lastSuccessfulCycle = new Gauge({
+  name: 'airtracker_last_successful_cycle_timestamp_seconds',
+  help: 'Unix time of the last ingestion cycle that completed with data'
+});
+
+new Gauge({
+  name: 'airtracker_newest_position_age_seconds',
+  help: 'Age of the newest stored position; grows when tracking silently stops',
+  async collect() {
+    // A database outage must not take the whole scrape down with it
+    try {
+      const result = await query<{ age: number | null }>(
+        `SELECT EXTRACT(EPOCH FROM (NOW() - MAX(timestamp))) as age FROM positions`
+      );
+      const age = result.rows[0]?.age;
+      if (age != null) this.set(age);
+    } catch (error) {
+      console.error('Error reading newest position age:', (error as Error).message);
+    }
+  }
+});
+
+const httpRequests = new Counter({
+  name: 'airtracker_http_requests_total',
+  help: 'HTTP requests by route, method and status',
+  labelNames: ['method', 'route', 'status']
+});
+
+const httpDuration = new Histogram({
+  name: 'airtracker_http_request_duration_seconds',
+  help: 'HTTP request latency by route and method',
+  labelNames: ['method', 'route'],
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+});
+
+/**
+ * Record the outcome of a completed ingestion cycle
+ */
+export function recordFetchCycle(result: TrackerResult): void {
+  // A cycle in which no source delivered anything is not a success
+  cycles.inc({ status: result.fetched > 0 ? 'success' : 'empty' });
+  cycleDuration.observe(result.timings.total_ms / 1000);
+  if (result.fetched > 0) lastSuccessfulCycle.setToCurrentTime();
+
+  for (const [step, ms] of Object.entries(result.timings)) {
+    if (step !== 'total_ms') cycleStepDuration.set({ step: step.replace(/_ms$/, '') }, ms / 1000);
+  }
+
+  const stages: Record<string, number> = {
+    fetched: result.fetched,
+    tracked: result.tracked,
+    stored: result.stored,
+    rejected: result.rejected.length
+  };
+  for (const [stage, count] of Object.entries(stages)) {
+    cycleAircraft.set({ stage }, count);
+    aircraftTotal.inc({ stage }, count);
+  }
+}
+
+/**
+ * Record an ingestion cycle that threw
+ */
+export function recordFetchCycleFailure(durationMs: number): void {
+  cycles.inc({ status: 'error' });
+  cycleDuration.observe(durationMs / 1000);
+}
+
+/**
+ * Express middleware counting requests and their latency per matched route
+ * Long-lived event streams are left out so they don't skew the latency buckets
+ */
+export function httpMetrics(req: Request, res: Response, next: NextFunction): void {
+  const end = httpDuration.startTimer();
+  res.on('finish', () => {
+    if (String(res.getHeader('Content-Type') ?? '').startsWith('text/event-stream')) return;
+
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    const labels = { method: req.method, route };
+    end(labels);
+    httpRequests.inc({ ...labels, status: String(res.statusCode) });
+  });
+  next();
+}
+
+/**
+ * GET /metrics handler serving every registered metric in Prometheus text format
+ */
+export async function metricsHandler(_req: Request, res: Response): Promise<void> {
+  try {
+    res.set('Content-Type', register.contentType);
+    res.end(await register.metrics());
+  } catch (error) {
+    console.error('Error collecting metrics:', error);
+    res.status(500).end();
+  }
+}
@@ -0,0 +1,168 @@
+import { query, valuesList, withTransaction } from '../db';
+import { MilitaryImportResult, MilitaryRegistryEntry } from '../types';
+import { parseCsvRecords } from './csv';
+
+// Rows per multi-row upsert during imports
+const IMPORT_BATCH_SIZE = 1000;
+// Invalid entries listed in an import result; the rest are only counted
+const MAX_REPORTED_INVALID = 100;
+
+// Column names accepted in imports, mapped to registry fields. Covers the
+// tar1090/readsb military lists as well as our own export format.
+const FIELD_ALIASES: Record<string, keyof MilitaryRegistryEntry> = {
+  hex: 'hex',
+  icao24: 'hex',
+  icao: 'hex',
+  operator: 'operator',
+  ownop: 'operator',
+  branch: 'branch',
+  type: 'aircraft_type',
+  aircraft_type: 'aircraft_type',
+  icaotype: 'aircraft_type'
+};
+
+const FIELD_LIMITS: [keyof MilitaryRegistryEntry, number][] = [
+  ['operator', 100],
+  ['branch', 100],
+  ['aircraft_type', 50]
+];
+
+type MilitaryEntryInput = Pick<MilitaryRegistryEntry, 'hex' | 'operator' | 'branch' | 'aircraft_type'>;
+
+/**
+ * Normalize one import record or request body into a registry entry
+ * @returns the entry, or the reason it is invalid
+ */
+export function normalizeMilitaryEntry(raw: unknown): { entry: MilitaryEntryInput } | { error: string } {
+  if (typeof raw !== 'object' || raw === null) return { error: 'entry must be an object' };
+
+  const fields: Partial<Record<keyof MilitaryRegistryEntry, string>> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const field = FIELD_ALIASES[key.toLowerCase()];
+    if (!field || value == null || value === '') continue;
+    if (typeof value !== 'string') return { error: `${key} must be a string` };
+    fields[field] = value.trim();
+  }
+
+  const hex = fields.hex?.toLowerCase();
+  if (!hex || !/^~?[0-9a-f]{6}$/.test(hex)) return { error: 'hex must be a 6-digit hex address' };
+  for (const [field, limit] of FIELD_LIMITS) {
+    if ((fields[field]?.length ?? 0) > limit) return { error: `${field} longer than ${limit} characters` };
+  }
+
+  return {
+    entry: {
+      hex,
+      operator: fields.operator || null,
+      branch: fields.branch || null,
+      aircraft_type: fields.aircraft_type || null
+    }
+  };
+}
+
+/**
+ * Turn an import payload into records
+ * JSON may be an array of entries or { entries: [...] }; CSV needs a header row
+ */
+export function parseMilitaryImport(body: unknown, format: 'json' | 'csv'): { records: unknown[] } | { error: string } {
+  if (format === 'csv') {
+    if (typeof body !== 'string') return { error: 'CSV imports must be sent as text/csv' };
+    return { records: parseCsvRecords(body) };
+  }
+
+  const entries = Array.isArray(body) ? body : (body as { entries?: unknown } | null)?.entries;
+  if (!Array.isArray(entries)) return { error: 'JSON imports must be an array of entries or { entries: [...] }' };
+  return { records: entries };
+}
+
+/**
+ * Set aircraft.is_military from the registry for the given addresses
+ */
+async function syncAircraftFlags(hexes: string[], isMilitaryFlag: boolean): Promise<void> {
+  if (hexes.length === 0) return;
+  await query('UPDATE aircraft SET is_military = $2 WHERE icao24 = ANY($1) AND is_military <> $2', [hexes, isMilitaryFlag]);
+}
+
+/**
+ * Upsert imported records into the registry
+ * Invalid records are skipped and reported; a later duplicate of the same hex wins
+ */
+export async function importMilitaryEntries(
+  records: unknown[],
+  source: string,
+  addedBy: string | null
+): Promise<MilitaryImportResult> {
+  const result: MilitaryImportResult = { source, received: records.length, inserted: 0, updated: 0, invalid: [] };
+  const entries = new Map<string, MilitaryEntryInput>();
+
+  records.forEach((record, i) => {
+    const normalized = normalizeMilitaryEntry(record);
+    if ('error' in normalized) {
+      if (result.invalid.length < MAX_REPORTED_INVALID) result.invalid.push({ index: i + 1, reason: normalized.error });
+      return;
+    }
+    entries.set(normalized.entry.hex, normalized.entry);
+  });
+
+  const batch = Array.from(entries.values());
+  await withTransaction(async (client) => {
+    for (let i = 0; i < batch.length; i += IMPORT_BATCH_SIZE) {
+      const rows = batch.slice(i, i + IMPORT_BATCH_SIZE);
+      const upserted = await client.query<{ inserted: boolean }>(
+        `INSERT INTO military_registry (hex, operator, branch, aircraft_type, source, added_by)
+         VALUES ${valuesList(rows.length, 6)}
+         ON CONFLICT (hex) DO UPDATE SET
+           operator = COALESCE(EXCLUDED.operator, military_registry.operator),
+           branch = COALESCE(EXCLUDED.branch, military_registry.branch),
+           aircraft_type = COALESCE(EXCLUDED.aircraft_type, military_registry.aircraft_type),
+           source = EXCLUDED.source,
+           added_by = EXCLUDED.added_by,
+           updated_at = CURRENT_TIMESTAMP
+         RETURNING (xmax = 0) as inserted`,
+        rows.flatMap((e) => [e.hex, e.operator, e.branch, e.aircraft_type, source, addedBy])
+      );
+      for (const row of upserted.rows) {
+        if (row.inserted) result.inserted++;
+        else result.updated++;
+      }
+    }
+  });
+
+  const hexes = Array.from(entries.keys());
+  await syncAircraftFlags(hexes, true);
+
+  console.log(`📋 Imported ${entries.size} military hex codes from ${source} (${result.inserted} new)`);
+  return result;
+}
+
+/**
+ * Add a single registry entry
+ * Throws a unique violation if the hex is already registered
+ */
+export async function addMilitaryEntry(
+  entry: MilitaryEntryInput,
+  source: string,
+  addedBy: string | null
+): Promise<MilitaryRegistryEntry> {
+  const result = await query<MilitaryRegistryEntry>(
+    `INSERT INTO military_registry (hex, operator, branch, aircraft_type, source, added_by)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [entry.hex, entry.operator, entry.branch, entry.aircraft_type, source, addedBy]
+  );
+
+  await syncAircraftFlags([entry.hex], true);
+  return result.rows[0];
+}
+
+/**
+ * Remove a registry entry and unflag the aircraft
+ * @returns false if the hex was not registered
+ */
+export async function removeMilitaryEntry(hex: string): Promise<boolean> {
+  const result = await query('DELETE FROM military_registry WHERE hex = $1', [hex]);
+  if (result.rowCount === 0) return false;
+
+  await syncAircraftFlags([hex], false);
+  return true;
+}
@@ -0,0 +1,214 @@
+import { createHmac } from 'crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+import { query } from '../db';
+import { NotificationDelivery, NotificationSubscription, TrackerEvent } from '../types';
+
+export const NOTIFICATION_EVENT_TYPES = [
+  'aircraft.first_seen',
+  'aircraft.military',
+  'squawk.emergency',
+  'geofence.entry',
+  'geofence.exit'
+] as const;
+
+export const NOTIFICATION_TARGET_TYPES = ['webhook', 'slack', 'email'] as const;
+
+const MAX_ATTEMPTS = parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '8');
+const RETRY_BASE_SECONDS = parseInt(process.env.NOTIFICATION_RETRY_BASE_SECONDS || '30');
+const DELIVERY_TIMEOUT_MS = 10000;
+const BATCH_SIZE = 20;
+
+// A claimed delivery that is not finished within this window is retried by the next run
+const CLAIM_TIMEOUT_MINUTES = 5;
+
+let mailer: Transporter | null = null;
+
+/**
+ * Lazily create the SMTP transport from SMTP_URL
+ */
+function getMailer(): Transporter {
+  if (!process.env.SMTP_URL) {
+    throw new Error('SMTP_URL is not configured');
+  }
+  if (!mailer) {
+    mailer = nodemailer.createTransport(process.env.SMTP_URL);
+  }
+  return mailer;
+}
+
+/**
+ * Compute the HMAC-SHA256 signature of a delivery body
+ * Receivers recompute it over `${timestamp}.${body}` with the subscription secret
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * One-line human readable summary of an event (Slack and email)
+ */
+function describeEvent(event: TrackerEvent): string {
+  const who = event.callsign ? `${event.callsign} (${event.icao24})` : event.icao24;
+  const where = event.latitude != null && event.longitude != null
+    ? ` at ${Number(event.latitude).toFixed(3)}, ${Number(event.longitude).toFixed(3)}`
+    : '';
+
+  switch (event.type) {
+    case 'aircraft.first_seen':
+      return `🆕 New aircraft ${who} first seen${where}`;
+    case 'aircraft.military':
+      return `🎖️ Military aircraft ${who} appeared${where}`;
+    case 'squawk.emergency':
+      return `🚨 Emergency ${event.details.squawk ?? event.details.emergency} from ${who}${where}`;
+    case 'geofence.entry':
+      return `➡️ ${who} entered geofence "${event.details.geofence_name}"${where}`;
+    case 'geofence.exit':
+      return `⬅️ ${who} left geofence "${event.details.geofence_name}"${where}`;
+  }
+}
+
+/**
+ * POST a JSON body, signing it when the subscription has a secret
+ * @returns the HTTP status
+ */
+async function postJson(subscription: NotificationSubscription, body: string, deliveryId: number): Promise<number> {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'AircraftTracker/1.0',
+    'X-AirTracker-Delivery': String(deliveryId),
+    'X-AirTracker-Timestamp': timestamp
+  };
+  if (subscription.secret) {
+    headers['X-AirTracker-Signature'] = `sha256=${signPayload(subscription.secret, timestamp, body)}`;
+  }
+
+  const response = await fetch(subscription.target, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw Object.assign(new Error(`Target responded with ${response.status}`), { status: response.status });
+  }
+  return response.status;
+}
+
+/**
+ * Send one delivery to its target
+ * @returns the HTTP status for webhook/Slack targets, null for email
+ */
+async function send(subscription: NotificationSubscription, delivery: NotificationDelivery): Promise<number | null> {
+  const event = delivery.payload;
+
+  switch (subscription.target_type) {
+    case 'webhook':
+      return postJson(subscription, JSON.stringify({ id: delivery.id, event }), delivery.id);
+    case 'slack':
+      return postJson(subscription, JSON.stringify({ text: describeEvent(event) }), delivery.id);
+    case 'email': {
+      const summary = describeEvent(event);
+      await getMailer().sendMail({
+        from: process.env.SMTP_FROM || 'aircraft-tracker@localhost',
+        to: subscription.target,
+        subject: `[AirTracker] ${summary}`,
+        text: `${summary}\n\n${JSON.stringify(event, null, 2)}`
+      });
+      return null;
+    }
+  }
+}
+
+/**
+ * Queue a delivery for every enabled subscription matching each event
+ * @returns number of deliveries queued
+ */
+export async function enqueueNotifications(events: TrackerEvent[]): Promise<number> {
+  try {
+    if (events.length === 0) return 0;
+
+    const types = Array.from(new Set(events.map((e) => e.type)));
+    const subscriptions = await query<NotificationSubscription>(
+      `SELECT * FROM notification_subscriptions WHERE enabled = TRUE AND event_type = ANY($1)`,
+      [types]
+    );
+    if (subscriptions.rows.length === 0) return 0;
+
+    let queued = 0;
+    for (const event of events) {
+      for (const subscription of subscriptions.rows) {
+        if (subscription.event_type !== event.type) continue;
+        await query(
+          `INSERT INTO notification_deliveries (subscription_id, event_type, payload)
+           VALUES ($1, $2, $3)`,
+          [subscription.id, event.type, JSON.stringify(event)]
+        );
+        queued++;
+      }
+    }
+
+    if (queued > 0) {
+      console.log(`🔔 Queued ${queued} notifications for ${events.length} events`);
+    }
+    return queued;
+  } catch (error) {
+    console.error('Error queueing notifications:', (error as Error).message);
+    return 0;
+  }
+}
+
+/**
+ * Deliver due notifications, retrying failures with exponential backoff
+ * Rows are claimed with SKIP LOCKED so several instances can share the queue
+ * @returns number of deliveries attempted
+ */
+export async function processDeliveryQueue(): Promise<number> {
+  const claimed = await query<NotificationDelivery & { subscription: NotificationSubscription }>(
+    `UPDATE notification_deliveries d
+     SET status = 'sending', next_attempt_at = NOW() + ($2 || ' minutes')::INTERVAL
+     FROM (
+       SELECT id FROM notification_deliveries
+       WHERE status IN ('pending', 'sending') AND next_attempt_at <= NOW()
+       ORDER BY next_attempt_at ASC
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     ) due, notification_subscriptions s
+     WHERE d.id = due.id AND s.id = d.subscription_id
+     RETURNING d.*, row_to_json(s.*) as subscription`,
+    [BATCH_SIZE, CLAIM_TIMEOUT_MINUTES]
+  );
+
+  for (const delivery of claimed.rows) {
+    try {
+      const status = await send(delivery.subscription, delivery);
+      await query(
+        `UPDATE notification_deliveries
+         SET status = 'delivered', attempts = attempts + 1, response_status = $2, last_error = NULL, delivered_at = NOW()
+         WHERE id = $1`,
+        [delivery.id, status]
+      );
+    } catch (error) {
+      const attempts = delivery.attempts + 1;
+      const failed = attempts >= MAX_ATTEMPTS;
+      const delaySeconds = RETRY_BASE_SECONDS * Math.pow(2, attempts - 1);
+      await query(
+        `UPDATE notification_deliveries
+         SET status = $2, attempts = $3, last_error = $4, response_status = $5,
+             next_attempt_at = NOW() + ($6 || ' seconds')::INTERVAL
+         WHERE id = $1`,
+        [
+          delivery.id,
+          failed ? 'failed' : 'pending',
+          attempts,
+          (error as Error).message,
+          (error as { status?: number }).status ?? null,
+          delaySeconds
+        ]
+      );
+      console.error(`Notification delivery ${delivery.id} failed (attempt ${attempts}):`, (error as Error).message);
+    }
+  }
+
+  return claimed.rows.length;
+}
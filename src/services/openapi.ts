@@ -0,0 +1,333 @@
+import { Router } from 'express';
+import { JsonSchema, ParamSchema, RouteSchema } from '../types';
+import { ValidatingHandler } from './validation';
+
+interface MountedRouter {
+  path: string;
+  tag: string;
+  router: Router;
+}
+
+const nullable = (type: string, extra: JsonSchema = {}): JsonSchema => ({ type: [type, 'null'], ...extra });
+
+// Shared response schemas, referenced from route schemas as #/components/schemas/<name>
+const COMPONENT_SCHEMAS: Record<string, JsonSchema> = {
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: { error: { type: 'string' } }
+  },
+  ValidationError: {
+    type: 'object',
+    required: ['error', 'details'],
+    properties: {
+      error: { type: 'string', description: 'The first problem found' },
+      details: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['in', 'name', 'message'],
+          properties: {
+            in: { type: 'string', enum: ['path', 'query'] },
+            name: { type: 'string' },
+            message: { type: 'string' }
+          }
+        }
+      }
+    }
+  },
+  Aircraft: {
+    type: 'object',
+    required: ['icao24', 'first_seen', 'last_seen', 'total_sightings'],
+    properties: {
+      icao24: { type: 'string', description: 'ICAO 24-bit address; `~` prefix for non-ICAO addresses' },
+      callsign: nullable('string'),
+      origin_country: nullable('string'),
+      country_code: nullable('string'),
+      registration: nullable('string'),
+      aircraft_type: nullable('string'),
+      first_seen: { type: 'string', format: 'date-time' },
+      last_seen: { type: 'string', format: 'date-time' },
+      total_sightings: { type: 'integer' },
+      watchlist_ids: nullable('array', { items: { type: 'integer' } }),
+      is_military: { type: 'boolean' }
+    }
+  },
+  Position: {
+    type: 'object',
+    required: ['icao24', 'timestamp'],
+    properties: {
+      icao24: { type: 'string' },
+      callsign: nullable('string'),
+      latitude: nullable('number'),
+      longitude: nullable('number'),
+      altitude: nullable('number', { description: 'Feet' }),
+      velocity: nullable('number', { description: 'Knots' }),
+      heading: nullable('number'),
+      vertical_rate: nullable('number'),
+      on_ground: { type: 'boolean' },
+      squawk: nullable('string'),
+      emergency: nullable('string'),
+      category: nullable('string'),
+      nic: nullable('integer'),
+      nac_p: nullable('integer'),
+      rssi: nullable('number'),
+      message_type: nullable('string'),
+      seen_pos: nullable('number'),
+      sources: nullable('array', { items: { type: 'string' } }),
+      timestamp: { type: 'string', format: 'date-time' }
+    }
+  },
+  LiveAircraft: {
+    allOf: [{ $ref: '#/components/schemas/Aircraft' }, { $ref: '#/components/schemas/Position' }]
+  },
+  AirportSummary: {
+    type: 'object',
+    properties: {
+      ident: { type: 'string' },
+      name: { type: 'string' },
+      iata_code: nullable('string'),
+      municipality: nullable('string'),
+      iso_country: nullable('string'),
+      latitude: { type: 'number' },
+      longitude: { type: 'number' }
+    }
+  },
+  FlightRoute: {
+    type: 'object',
+    properties: {
+      flight_id: { type: 'integer' },
+      callsign: nullable('string'),
+      start_time: { type: 'string', format: 'date-time' },
+      end_time: { type: 'string', format: 'date-time' },
+      departure: { oneOf: [{ $ref: '#/components/schemas/AirportSummary' }, { type: 'null' }] },
+      arrival: { oneOf: [{ $ref: '#/components/schemas/AirportSummary' }, { type: 'null' }] }
+    }
+  },
+  Flight: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      icao24: { type: 'string' },
+      callsign: nullable('string'),
+      status: { type: 'string', enum: ['active', 'completed'] },
+      end_reason: nullable('string'),
+      start_time: { type: 'string', format: 'date-time' },
+      end_time: { type: 'string', format: 'date-time' },
+      first_latitude: { type: 'number' },
+      first_longitude: { type: 'number' },
+      last_latitude: { type: 'number' },
+      last_longitude: { type: 'number' },
+      first_altitude: nullable('number'),
+      last_altitude: nullable('number'),
+      max_altitude: nullable('number'),
+      distance_km: { type: 'number' },
+      position_count: { type: 'integer' },
+      departure_airport: nullable('string'),
+      arrival_airport: nullable('string'),
+      positions: { type: 'array', items: { $ref: '#/components/schemas/Position' } }
+    }
+  },
+  AircraftTrack: {
+    type: 'object',
+    properties: {
+      icao24: { type: 'string' },
+      callsign: nullable('string'),
+      origin_country: nullable('string'),
+      country_code: nullable('string'),
+      aircraft_type: nullable('string'),
+      positions: { type: 'array', items: { $ref: '#/components/schemas/Position' } },
+      routes: { type: 'array', items: { $ref: '#/components/schemas/FlightRoute' } },
+      is_military: { type: 'boolean' }
+    }
+  },
+  GeofenceEvent: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      geofence_id: { type: 'integer' },
+      geofence_name: { type: 'string' },
+      icao24: { type: 'string' },
+      callsign: nullable('string'),
+      event_type: { type: 'string', enum: ['entry', 'exit'] },
+      latitude: { type: 'number' },
+      longitude: { type: 'number' },
+      altitude: nullable('number'),
+      timestamp: { type: 'string', format: 'date-time' }
+    }
+  },
+  SnapshotAircraft: {
+    type: 'object',
+    properties: {
+      icao24: { type: 'string' },
+      callsign: nullable('string'),
+      origin_country: nullable('string'),
+      country_code: nullable('string'),
+      aircraft_type: nullable('string'),
+      is_military: { type: 'boolean' },
+      latitude: { type: 'number' },
+      longitude: { type: 'number' },
+      altitude: nullable('number', { description: 'Feet' }),
+      velocity: nullable('number', { description: 'Knots' }),
+      heading: nullable('number'),
+      vertical_rate: nullable('number'),
+      on_ground: { type: 'boolean' },
+      squawk: nullable('string'),
+      interpolated: { type: 'boolean', description: 'false when the last report is held because no later one follows' },
+      position_age_seconds: { type: 'integer', description: 'Seconds to the nearest real report' }
+    }
+  },
+  EmergencyEvent: {
+    type: 'object',
+    properties: {
+      icao24: { type: 'string' },
+      callsign: nullable('string'),
+      change: { type: 'string', enum: ['started', 'cleared'] },
+      squawk: nullable('string'),
+      previous_squawk: nullable('string'),
+      squawk_meaning: nullable('string', { description: 'Hijack, radio failure or general emergency for 7500/7600/7700' }),
+      emergency: nullable('string'),
+      previous_emergency: nullable('string'),
+      latitude: nullable('number'),
+      longitude: nullable('number'),
+      altitude: nullable('number', { description: 'Feet' }),
+      timestamp: { type: 'string', format: 'date-time' }
+    }
+  },
+  DarkPeriod: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      icao24: { type: 'string' },
+      callsign: nullable('string'),
+      started_at: { type: 'string', format: 'date-time', description: 'Last position before the gap' },
+      ended_at: { type: 'string', format: 'date-time', description: 'First position after the gap' },
+      duration_seconds: { type: 'integer' },
+      last_latitude: { type: 'number' },
+      last_longitude: { type: 'number' },
+      last_altitude: nullable('number', { description: 'Feet' }),
+      first_latitude: { type: 'number' },
+      first_longitude: { type: 'number' },
+      first_altitude: nullable('number', { description: 'Feet' }),
+      distance_km: { type: 'number' },
+      implied_speed_knots: { type: 'number', description: 'Straight-line distance over the gap duration' },
+      last_in_coverage: { type: 'boolean' },
+      first_in_coverage: { type: 'boolean' },
+      within_coverage: { type: 'boolean', description: 'The whole straight line between the ends lies inside the coverage circles' },
+      detected_at: { type: 'string', format: 'date-time' },
+      aircraft_type: nullable('string'),
+      is_military: { type: 'boolean' }
+    }
+  },
+  Pattern: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      icao24: { type: 'string' },
+      flight_id: nullable('integer', { description: 'Flight the pattern was flown on, see /api/flights/{id}' }),
+      pattern_type: { type: 'string', enum: ['racetrack', 'orbit', 'loiter'] },
+      callsign: nullable('string'),
+      started_at: { type: 'string', format: 'date-time' },
+      ended_at: { type: 'string', format: 'date-time' },
+      duration_seconds: { type: 'integer' },
+      centroid_latitude: { type: 'number' },
+      centroid_longitude: { type: 'number' },
+      radius_km: { type: 'number' },
+      laps: { type: 'integer' },
+      axis_bearing: nullable('number', { description: "Bearing of a racetrack's long axis, 0-180" }),
+      path_km: { type: 'number' },
+      min_altitude: nullable('number', { description: 'Feet' }),
+      max_altitude: nullable('number', { description: 'Feet' }),
+      position_count: { type: 'integer' },
+      detected_at: { type: 'string', format: 'date-time' },
+      aircraft_type: nullable('string'),
+      is_military: { type: 'boolean' },
+      active: { type: 'boolean', description: 'Still being flown' }
+    }
+  }
+};
+
+/**
+ * Convert a parameter schema to an OpenAPI parameter object
+ */
+function toParameter(name: string, location: 'path' | 'query', schema: ParamSchema): JsonSchema {
+  const { description, required, ...rest } = schema;
+  return {
+    name,
+    in: location,
+    required: location === 'path' || required === true,
+    ...(description ? { description } : {}),
+    schema: rest
+  };
+}
+
+/**
+ * Build the OpenAPI operation object for a route schema
+ */
+function toOperation(schema: RouteSchema, tag: string): JsonSchema {
+  const parameters = [
+    ...Object.entries(schema.params ?? {}).map(([name, param]) => toParameter(name, 'path', param)),
+    ...Object.entries(schema.query ?? {}).map(([name, param]) => toParameter(name, 'query', param))
+  ];
+  const errorContent = (ref: string) => ({ 'application/json': { schema: { $ref: `#/components/schemas/${ref}` } } });
+
+  return {
+    tags: [tag],
+    summary: schema.summary,
+    ...(schema.description ? { description: schema.description } : {}),
+    parameters,
+    responses: {
+      200: {
+        description: 'OK',
+        content: {
+          [schema.responseType ?? 'application/json']: { schema: schema.response ?? { type: 'object' } },
+          ...Object.fromEntries((schema.alternateResponseTypes ?? []).map((type) => [
+            type,
+            { schema: { type: type.endsWith('json') ? 'object' : 'string' } }
+          ]))
+        }
+      },
+      400: { description: 'Invalid parameters', content: errorContent('ValidationError') },
+      500: { description: 'Server error', content: errorContent('Error') }
+    }
+  };
+}
+
+/**
+ * Generate an OpenAPI 3.1 document from the validated routes of the given routers
+ * Routes without a validate() schema are left out
+ */
+export function buildOpenApiDocument(mounts: MountedRouter[]): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const mount of mounts) {
+    for (const layer of mount.router.stack) {
+      const route = layer.route;
+      if (!route) continue;
+
+      for (const handlerLayer of route.stack) {
+        const schema = (handlerLayer.handle as Partial<ValidatingHandler>).schema;
+        if (!schema) continue;
+
+        const path = `${mount.path}${route.path === '/' ? '' : route.path}`.replace(/:(\w+)/g, '{$1}');
+        paths[path] = { ...paths[path], [handlerLayer.method]: toOperation(schema, mount.tag) };
+      }
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Aircraft Tracker API',
+      version: '1.0.0'
+    },
+    paths,
+    components: {
+      schemas: COMPONENT_SCHEMAS,
+      securitySchemes: {
+        ApiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      }
+    },
+    security: [{}, { ApiKey: [] }]
+  };
+}
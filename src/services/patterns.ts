@@ -0,0 +1,362 @@
+import { query } from '../db';
+import { DetectedPattern, Pattern, PatternAnalysisResult, PatternType, Position } from '../types';
+import { FLIGHT_GAP_MINUTES } from './flights';
+import { haversineDistance } from './geo';
+import { getAircraftHistory } from './tracker';
+
+// Hours of each aircraft's history analysed per run; longer patterns keep the earliest start found
+export const PATTERN_WINDOW_HOURS = parseInt(process.env.PATTERN_WINDOW_HOURS || '12');
+// An aircraft must stay within this distance of a centre...
+export const PATTERN_MAX_RADIUS_KM = parseFloat(process.env.PATTERN_MAX_RADIUS_KM || '75');
+// ...for at least this long
+export const PATTERN_MIN_MINUTES = parseInt(process.env.PATTERN_MIN_MINUTES || '30');
+// Full turns needed for an orbit or racetrack rather than plain loitering
+export const PATTERN_MIN_LAPS = parseInt(process.env.PATTERN_MIN_LAPS || '2');
+// Ratio of long to short axis above which an orbit is a racetrack
+export const PATTERN_RACETRACK_ELONGATION = parseFloat(process.env.PATTERN_RACETRACK_ELONGATION || '2');
+
+// A straight pass through an area covers about twice its radius; loitering covers much more
+const MIN_PATH_TO_RADIUS = 4;
+// Moves shorter than this are position noise and don't count towards turning
+const MIN_TURN_STEP_KM = 0.1;
+
+const KM_PER_DEGREE = 111.32;
+
+interface PatternPoint {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  time: number;
+  callsign: string | null;
+  flight_id: number | null;
+}
+
+let running = false;
+
+const round = (value: number, digits: number): number => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Longitude difference b - a, taking the short way round the antimeridian
+ */
+function lonDelta(a: number, b: number): number {
+  return ((b - a + 540) % 360) - 180;
+}
+
+/**
+ * Centre of a set of points, averaging longitudes relative to the first point
+ */
+function centroidOf(points: PatternPoint[]): { latitude: number; longitude: number } {
+  const origin = points[0].longitude;
+  let sumLat = 0;
+  let sumLon = 0;
+  for (const p of points) {
+    sumLat += p.latitude;
+    sumLon += lonDelta(origin, p.longitude);
+  }
+  return {
+    latitude: sumLat / points.length,
+    longitude: lonDelta(0, origin + sumLon / points.length)
+  };
+}
+
+/**
+ * Measure and classify the points an aircraft flew within one area
+ * @returns null if the aircraft just passed through
+ */
+function classifyRun(icao24: string, points: PatternPoint[]): DetectedPattern | null {
+  const centre = centroidOf(points);
+  const kmPerDegLon = KM_PER_DEGREE * Math.cos(centre.latitude * Math.PI / 180);
+  const xy = points.map((p) => [
+    lonDelta(centre.longitude, p.longitude) * kmPerDegLon,
+    (p.latitude - centre.latitude) * KM_PER_DEGREE
+  ]);
+
+  let radius = 0;
+  let pathKm = 0;
+  let netTurn = 0;
+  let lastBearing: number | null = null;
+  let lastTurnPoint = xy[0];
+  for (let i = 0; i < points.length; i++) {
+    radius = Math.max(radius, Math.hypot(xy[i][0], xy[i][1]));
+    if (i > 0) {
+      pathKm += haversineDistance(points[i - 1].latitude, points[i - 1].longitude, points[i].latitude, points[i].longitude);
+    }
+
+    // Turning is measured between moves of a meaningful length, so jitter doesn't add laps
+    const dx = xy[i][0] - lastTurnPoint[0];
+    const dy = xy[i][1] - lastTurnPoint[1];
+    if (Math.hypot(dx, dy) < MIN_TURN_STEP_KM) continue;
+    const bearing = Math.atan2(dx, dy) * 180 / Math.PI;
+    if (lastBearing !== null) netTurn += lonDelta(lastBearing, bearing);
+    lastBearing = bearing;
+    lastTurnPoint = xy[i];
+  }
+
+  if (radius === 0 || pathKm < MIN_PATH_TO_RADIUS * radius) return null;
+
+  // Principal axes of the points' spread give a racetrack's elongation and orientation
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  for (const [x, y] of xy) {
+    sxx += x * x;
+    syy += y * y;
+    sxy += x * y;
+  }
+  const spread = Math.sqrt((sxx - syy) ** 2 + 4 * sxy ** 2);
+  const major = (sxx + syy + spread) / 2;
+  const minor = (sxx + syy - spread) / 2;
+  const elongation = minor > 0 ? Math.sqrt(major / minor) : Infinity;
+  // Angle of the long axis counterclockwise from east, as a bearing in [0, 180)
+  const axisAngle = 0.5 * Math.atan2(2 * sxy, sxx - syy) * 180 / Math.PI;
+  const axisBearing = (((90 - axisAngle) % 180) + 180) % 180;
+
+  const laps = Math.floor(Math.abs(netTurn) / 360);
+  const patternType: PatternType = laps < PATTERN_MIN_LAPS ? 'loiter'
+    : elongation >= PATTERN_RACETRACK_ELONGATION ? 'racetrack'
+    : 'orbit';
+
+  // The flight most of the points belong to
+  const flightCounts = new Map<number, number>();
+  for (const p of points) {
+    if (p.flight_id != null) flightCounts.set(p.flight_id, (flightCounts.get(p.flight_id) ?? 0) + 1);
+  }
+  const flightId = Array.from(flightCounts).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+  const altitudes = points.map((p) => p.altitude).filter((a): a is number => a != null);
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  return {
+    icao24,
+    flight_id: flightId,
+    pattern_type: patternType,
+    callsign: [...points].reverse().find((p) => p.callsign)?.callsign ?? null,
+    started_at: new Date(first.time),
+    ended_at: new Date(last.time),
+    duration_seconds: Math.round((last.time - first.time) / 1000),
+    centroid_latitude: round(centre.latitude, 6),
+    centroid_longitude: round(centre.longitude, 6),
+    radius_km: round(radius, 2),
+    laps,
+    axis_bearing: patternType === 'racetrack' ? round(axisBearing, 1) : null,
+    path_km: round(pathKm, 2),
+    min_altitude: altitudes.length > 0 ? Math.min(...altitudes) : null,
+    max_altitude: altitudes.length > 0 ? Math.max(...altitudes) : null,
+    position_count: points.length
+  };
+}
+
+/**
+ * Find stretches of an airborne segment spent within PATTERN_MAX_RADIUS_KM of one
+ * centre for at least PATTERN_MIN_MINUTES
+ */
+function findAreaRuns(icao24: string, points: PatternPoint[]): DetectedPattern[] {
+  const patterns: DetectedPattern[] = [];
+  const minMs = PATTERN_MIN_MINUTES * 60 * 1000;
+
+  let start = 0;
+  while (start < points.length) {
+    // Grow the run while each new point stays close to the run's running centre
+    const origin = points[start].longitude;
+    let sumLat = 0;
+    let sumLon = 0;
+    let end = start;
+    for (; end < points.length; end++) {
+      const p = points[end];
+      const count = end - start + 1;
+      const latitude = (sumLat + p.latitude) / count;
+      const longitude = lonDelta(0, origin + (sumLon + lonDelta(origin, p.longitude)) / count);
+      if (haversineDistance(p.latitude, p.longitude, latitude, longitude) > PATTERN_MAX_RADIUS_KM) break;
+      sumLat += p.latitude;
+      sumLon += lonDelta(origin, p.longitude);
+    }
+
+    const run = points.slice(start, end);
+    const pattern = run.length > 1 && run[run.length - 1].time - run[0].time >= minMs
+      ? classifyRun(icao24, run)
+      : null;
+    if (pattern) {
+      patterns.push(pattern);
+      start = end;
+    } else {
+      // Starting a position or two later rarely changes the outcome, so skip part of the run
+      start += Math.max(1, Math.floor(run.length / 4));
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Detect racetrack orbits, circling and loitering in an aircraft's positions (sorted by time)
+ * Positions on the ground are left out and signal gaps longer than FLIGHT_GAP_MINUTES split
+ * the history, so a pattern never spans a landing or a gap
+ */
+export function detectPatterns(icao24: string, positions: Position[]): DetectedPattern[] {
+  const gapMs = FLIGHT_GAP_MINUTES * 60 * 1000;
+  const patterns: DetectedPattern[] = [];
+
+  let segment: PatternPoint[] = [];
+  const flush = () => {
+    patterns.push(...findAreaRuns(icao24, segment));
+    segment = [];
+  };
+
+  for (const pos of positions) {
+    if (pos.latitude == null || pos.longitude == null) continue;
+    const time = new Date(pos.timestamp).getTime();
+    if (pos.on_ground || (segment.length > 0 && time - segment[segment.length - 1].time > gapMs)) flush();
+    if (pos.on_ground) continue;
+
+    segment.push({
+      latitude: Number(pos.latitude),
+      longitude: Number(pos.longitude),
+      altitude: pos.altitude != null ? Number(pos.altitude) : null,
+      time,
+      callsign: pos.callsign,
+      flight_id: pos.flight_id ?? null
+    });
+  }
+  flush();
+
+  return patterns;
+}
+
+/**
+ * Store a detected pattern, growing an earlier detection it overlaps in time
+ * @returns whether an existing pattern was updated
+ */
+async function savePattern(pattern: DetectedPattern): Promise<boolean> {
+  const values = [
+    pattern.icao24, pattern.started_at, pattern.ended_at, pattern.flight_id, pattern.pattern_type, pattern.callsign,
+    pattern.centroid_latitude, pattern.centroid_longitude, pattern.radius_km, pattern.laps, pattern.axis_bearing,
+    pattern.path_km, pattern.min_altitude, pattern.max_altitude, pattern.position_count
+  ];
+
+  const updated = await query(
+    `UPDATE patterns SET
+       started_at = LEAST(started_at, $2), ended_at = GREATEST(ended_at, $3),
+       flight_id = COALESCE($4, flight_id), pattern_type = $5, callsign = COALESCE($6, callsign),
+       centroid_latitude = $7, centroid_longitude = $8, radius_km = $9, laps = GREATEST(laps, $10),
+       axis_bearing = $11, path_km = GREATEST(path_km, $12), min_altitude = $13, max_altitude = $14,
+       position_count = GREATEST(position_count, $15)
+     WHERE id = (
+       SELECT id FROM patterns
+       WHERE icao24 = $1 AND started_at <= $3 AND ended_at >= $2
+       ORDER BY ended_at DESC
+       LIMIT 1
+     )`,
+    values
+  );
+  if ((updated.rowCount ?? 0) > 0) return true;
+
+  await query(
+    `INSERT INTO patterns (icao24, started_at, ended_at, flight_id, pattern_type, callsign, centroid_latitude,
+       centroid_longitude, radius_km, laps, axis_bearing, path_km, min_altitude, max_altitude, position_count)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+    values
+  );
+  return false;
+}
+
+/**
+ * Re-analyse the recent history of every aircraft still being tracked
+ * Runs on a schedule; skipped while a previous run is still going
+ * @returns counts, or null if a run was already in progress
+ */
+export async function analyzePatterns(): Promise<PatternAnalysisResult | null> {
+  if (running) return null;
+  running = true;
+
+  try {
+    const result: PatternAnalysisResult = { aircraft: 0, detected: 0, updated: 0 };
+    const aircraftResult = await query<{ icao24: string }>(
+      `SELECT icao24 FROM aircraft WHERE last_seen > NOW() - ($1 || ' minutes')::INTERVAL`,
+      [FLIGHT_GAP_MINUTES]
+    );
+
+    for (const { icao24 } of aircraftResult.rows) {
+      const history = await getAircraftHistory(icao24, PATTERN_WINDOW_HOURS);
+      const patterns = detectPatterns(icao24, history);
+      for (const pattern of patterns) {
+        if (await savePattern(pattern)) result.updated++;
+        else result.detected++;
+      }
+      result.aircraft++;
+    }
+
+    if (result.detected > 0) {
+      console.log(`🌀 Detected ${result.detected} new flight patterns`);
+    }
+    return result;
+  } finally {
+    running = false;
+  }
+}
+
+const PATTERN_COLUMNS = `
+  p.*,
+  EXTRACT(EPOCH FROM p.ended_at - p.started_at)::INTEGER as duration_seconds,
+  p.ended_at > NOW() - ($1 || ' minutes')::INTERVAL as active,
+  a.aircraft_type,
+  a.is_military`;
+
+/**
+ * Patterns overlapping a time range, most recent first
+ * @param filters.bbox only patterns centred inside this box
+ */
+export async function getPatterns(filters: {
+  from: Date;
+  to: Date;
+  bbox?: { minLat: number; minLon: number; maxLat: number; maxLon: number };
+  militaryOnly: boolean;
+  type?: PatternType;
+  icao24?: string;
+  limit: number;
+}): Promise<Pattern[]> {
+  const { bbox } = filters;
+  const result = await query<Pattern>(
+    `SELECT ${PATTERN_COLUMNS}
+     FROM patterns p
+     JOIN aircraft a ON a.icao24 = p.icao24
+     WHERE p.ended_at >= $2 AND p.started_at <= $3
+       AND ($4 = FALSE OR a.is_military)
+       AND ($5::TEXT IS NULL OR p.pattern_type = $5)
+       AND ($6::TEXT IS NULL OR p.icao24 = $6)
+       AND ($7::DECIMAL IS NULL OR p.centroid_latitude BETWEEN $7 AND $9)
+       AND ($8::DECIMAL IS NULL OR p.centroid_longitude BETWEEN $8 AND $10)
+     ORDER BY p.ended_at DESC
+     LIMIT $11`,
+    [
+      FLIGHT_GAP_MINUTES, filters.from, filters.to, filters.militaryOnly, filters.type ?? null,
+      filters.icao24?.toLowerCase() ?? null, bbox?.minLat ?? null, bbox?.minLon ?? null, bbox?.maxLat ?? null,
+      bbox?.maxLon ?? null, filters.limit
+    ]
+  );
+  return result.rows;
+}
+
+/**
+ * A single pattern with the positions flown during it
+ * @returns null if the pattern doesn't exist
+ */
+export async function getPatternWithTrack(id: number): Promise<(Pattern & { positions: Position[] }) | null> {
+  const result = await query<Pattern>(
+    `SELECT ${PATTERN_COLUMNS}
+     FROM patterns p
+     JOIN aircraft a ON a.icao24 = p.icao24
+     WHERE p.id = $2`,
+    [FLIGHT_GAP_MINUTES, id]
+  );
+  if (result.rows.length === 0) return null;
+
+  const pattern = result.rows[0];
+  const positions = await query<Position>(
+    `SELECT icao24, callsign, latitude, longitude, altitude, velocity, heading, vertical_rate, on_ground, timestamp
+     FROM positions
+     WHERE icao24 = $1 AND timestamp BETWEEN $2 AND $3
+     ORDER BY timestamp ASC`,
+    [pattern.icao24, pattern.started_at, pattern.ended_at]
+  );
+  return { ...pattern, positions: positions.rows };
+}
@@ -0,0 +1,183 @@
+import { mkdir, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { gzipSync } from 'zlib';
+import { query, withTransaction } from '../db';
+import { Position, RetentionResult } from '../types';
+
+// Positions are kept at full resolution for this long
+export const RETENTION_FULL_HOURS = parseFloat(process.env.RETENTION_FULL_HOURS || '24');
+// ...then reduced to one point per aircraft per bucket of this many seconds
+export const RETENTION_DOWNSAMPLE_SECONDS = parseInt(process.env.RETENTION_DOWNSAMPLE_SECONDS || '60');
+// ...and deleted after this many days, leaving only the flight summaries
+export const RETENTION_DOWNSAMPLED_DAYS = parseFloat(process.env.RETENTION_DOWNSAMPLED_DAYS || '7');
+
+const ARCHIVE_DIR = process.env.RETENTION_ARCHIVE_DIR || path.join(process.cwd(), 'archive');
+
+// Positions move between tiers one hour-window at a time, each in its own transaction
+const MAX_WINDOWS_PER_RUN = 48;
+
+type ArchiveTier = 'full' | 'downsampled';
+type Window = { start: Date; end: Date };
+
+let running = false;
+
+/**
+ * Write the positions leaving a tier in one window to a gzipped NDJSON file named
+ * after the tier and window, as `<name>.pending` until the window's transaction commits
+ * Runs inside that transaction, so a failed write rolls the delete back. A `.pending`
+ * file left behind belongs to a window whose delete didn't commit; its rows are still
+ * in the database or in a later window's file.
+ * @returns the final file name, or null if there was nothing to archive
+ */
+async function writeArchive(tier: ArchiveTier, window: Window, rows: Position[]): Promise<string | null> {
+  if (rows.length === 0) return null;
+
+  const stamp = (date: Date) => date.toISOString().slice(0, 19).replace(/:/g, '') + 'Z';
+  const file = path.join(ARCHIVE_DIR, `positions-${tier}-${stamp(window.start)}-${stamp(window.end)}.ndjson.gz`);
+  await mkdir(ARCHIVE_DIR, { recursive: true });
+  await writeFile(`${file}.pending`, gzipSync(rows.map((row) => JSON.stringify(row)).join('\n') + '\n'));
+  return file;
+}
+
+/**
+ * Mark a window's archive complete once its transaction has committed
+ */
+async function commitArchive(file: string | null): Promise<void> {
+  if (file) await rename(`${file}.pending`, file);
+}
+
+/**
+ * Find the next hour-window of positions older than the cutoff matching a condition
+ * Positions not yet split into flights are left alone until segmentation catches up
+ */
+async function nextWindow(cutoff: Date, condition: string): Promise<Window | null> {
+  const result = await query<{ start: Date | null }>(
+    `SELECT date_trunc('hour', MIN(timestamp)) as start
+     FROM positions
+     WHERE timestamp < $1 AND segmented = TRUE AND ${condition}`,
+    [cutoff]
+  );
+  const start = result.rows[0]?.start;
+  if (!start) return null;
+
+  const end = new Date(Math.min(new Date(start).getTime() + 3600 * 1000, cutoff.getTime()));
+  return { start: new Date(start), end };
+}
+
+/**
+ * Move full-resolution positions older than RETENTION_FULL_HOURS to the downsampled tier
+ * The full-resolution rows are archived, then all but the first position of each
+ * aircraft/bucket are deleted
+ * @returns number of positions removed
+ */
+async function downsamplePositions(): Promise<number> {
+  const cutoff = new Date(Date.now() - RETENTION_FULL_HOURS * 3600 * 1000);
+  let removed = 0;
+
+  for (let i = 0; i < MAX_WINDOWS_PER_RUN; i++) {
+    const window = await nextWindow(cutoff, 'downsampled = FALSE');
+    if (!window) break;
+
+    const { archive, deleted } = await withTransaction(async (client) => {
+      const rows = await client.query<Position>(
+        `SELECT * FROM positions
+         WHERE timestamp >= $1 AND timestamp < $2 AND downsampled = FALSE AND segmented = TRUE
+         ORDER BY icao24, timestamp
+         FOR UPDATE`,
+        [window.start, window.end]
+      );
+      const archive = await writeArchive('full', window, rows.rows);
+
+      const result = await client.query(
+        `DELETE FROM positions p
+         USING (
+           SELECT id, ROW_NUMBER() OVER (
+             PARTITION BY icao24, FLOOR(EXTRACT(EPOCH FROM timestamp) / $3)
+             ORDER BY timestamp ASC
+           ) as rn
+           FROM positions
+           WHERE timestamp >= $1 AND timestamp < $2 AND downsampled = FALSE AND segmented = TRUE
+         ) ranked
+         WHERE p.id = ranked.id AND ranked.rn > 1`,
+        [window.start, window.end, RETENTION_DOWNSAMPLE_SECONDS]
+      );
+
+      await client.query(
+        `UPDATE positions SET downsampled = TRUE
+         WHERE timestamp >= $1 AND timestamp < $2 AND downsampled = FALSE AND segmented = TRUE`,
+        [window.start, window.end]
+      );
+
+      return { archive, deleted: result.rowCount ?? 0 };
+    });
+    await commitArchive(archive);
+    removed += deleted;
+  }
+
+  return removed;
+}
+
+/**
+ * Archive and delete positions older than RETENTION_DOWNSAMPLED_DAYS
+ * Their flights stay in the flights table as the long-term summary
+ * @returns number of positions deleted
+ */
+async function expirePositions(): Promise<number> {
+  const cutoff = new Date(Date.now() - RETENTION_DOWNSAMPLED_DAYS * 86400 * 1000);
+  let deleted = 0;
+
+  for (let i = 0; i < MAX_WINDOWS_PER_RUN; i++) {
+    const window = await nextWindow(cutoff, 'TRUE');
+    if (!window) break;
+
+    const { archive, count } = await withTransaction(async (client) => {
+      const rows = await client.query<Position>(
+        `DELETE FROM positions
+         WHERE timestamp >= $1 AND timestamp < $2 AND segmented = TRUE
+         RETURNING *`,
+        [window.start, window.end]
+      );
+      return { archive: await writeArchive('downsampled', window, rows.rows), count: rows.rowCount ?? 0 };
+    });
+    await commitArchive(archive);
+    deleted += count;
+  }
+
+  return deleted;
+}
+
+/**
+ * Apply the tiered retention policy: full resolution, then downsampled, then flight
+ * summaries only. Runs as its own scheduled job; overlapping runs are skipped.
+ * @returns what was moved, or null if a previous run is still in progress
+ */
+export async function applyRetentionPolicy(): Promise<RetentionResult | null> {
+  if (running) return null;
+  running = true;
+
+  try {
+    const started = Date.now();
+    const downsampled = await downsamplePositions();
+    const expired = await expirePositions();
+
+    // Coverage sightings and interference cells only feed their reports and share the downsampled horizon
+    await query(
+      `DELETE FROM coverage_point_sightings WHERE hour < NOW() - ($1 || ' days')::INTERVAL`,
+      [RETENTION_DOWNSAMPLED_DAYS]
+    );
+    await query(
+      `DELETE FROM interference_cells WHERE bucket < NOW() - ($1 || ' days')::INTERVAL`,
+      [RETENTION_DOWNSAMPLED_DAYS]
+    );
+
+    if (downsampled > 0 || expired > 0) {
+      console.log(
+        `🧹 Retention: downsampled away ${downsampled} positions, expired ${expired} positions ` +
+        `(${Date.now() - started}ms, archived to ${ARCHIVE_DIR})`
+      );
+    }
+    return { downsampled, expired };
+  } finally {
+    running = false;
+  }
+}
@@ -0,0 +1,225 @@
+import { query } from '../db';
+import { ReplayFrame, SnapshotAircraft } from '../types';
+import { decodeIcao24 } from './icao';
+
+// Reports further apart than this aren't interpolated between (signal lost, or landed and left)
+export const SNAPSHOT_MAX_GAP_SECONDS = parseInt(process.env.SNAPSHOT_MAX_GAP_SECONDS || '600');
+// Without a later report the last one is shown for this long, matching the 5-minute live view
+export const SNAPSHOT_HOLD_SECONDS = parseInt(process.env.SNAPSHOT_HOLD_SECONDS || '300');
+
+// How far before a moment to look for the report preceding it
+const LOOKBACK_SECONDS = Math.max(SNAPSHOT_MAX_GAP_SECONDS, SNAPSHOT_HOLD_SECONDS);
+
+// Positions as read for interpolation
+interface SnapshotRow {
+  icao24: string;
+  callsign: string | null;
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  velocity: number | null;
+  heading: number | null;
+  vertical_rate: number | null;
+  on_ground: boolean;
+  squawk: string | null;
+  timestamp: Date;
+  aircraft_type: string | null;
+  is_military: boolean;
+}
+
+type CountryFields = Pick<SnapshotAircraft, 'origin_country' | 'country_code'>;
+
+const SNAPSHOT_COLUMNS = `
+  p.icao24,
+  p.callsign,
+  p.latitude,
+  p.longitude,
+  p.altitude,
+  p.velocity,
+  p.heading,
+  p.vertical_rate,
+  p.on_ground,
+  p.squawk,
+  p.timestamp,
+  a.aircraft_type,
+  a.is_military`;
+
+const round = (value: number, digits: number): number => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Interpolate a value, falling back to the nearer report when either side is missing
+ */
+function lerp(a: number | null, b: number | null, fraction: number): number | null {
+  if (a == null || b == null) return fraction < 0.5 ? a : b;
+  return a + (b - a) * fraction;
+}
+
+/**
+ * Interpolate an angle in degrees along the shorter way round
+ * @param offset 0 for headings in [0, 360), 180 for longitudes in [-180, 180)
+ */
+function lerpAngle(a: number, b: number, fraction: number, offset: number): number {
+  const delta = ((b - a + 540) % 360) - 180;
+  return ((a + delta * fraction + offset + 360) % 360) - offset;
+}
+
+/**
+ * Country fields decoded from the address, as on live aircraft
+ */
+function country(icao24: string): CountryFields {
+  const { country, country_code } = decodeIcao24(icao24);
+  return { origin_country: country, country_code };
+}
+
+/**
+ * Position of one aircraft at a moment, from the reports just before and after it
+ * Reports closer than SNAPSHOT_MAX_GAP_SECONDS are interpolated between; otherwise
+ * the earlier one is held for SNAPSHOT_HOLD_SECONDS
+ * @returns null if the aircraft wasn't being tracked at that moment
+ */
+function positionAt(
+  before: SnapshotRow | undefined,
+  after: SnapshotRow | undefined,
+  at: Date,
+  countryFields: CountryFields
+): SnapshotAircraft | null {
+  if (!before) return null;
+
+  const t = at.getTime();
+  const t0 = before.timestamp.getTime();
+  const t1 = after?.timestamp.getTime();
+  const base = {
+    icao24: before.icao24,
+    ...countryFields,
+    aircraft_type: before.aircraft_type,
+    is_military: before.is_military
+  };
+
+  if (after && t1 !== undefined && t > t0 && t1 > t0 && t1 - t0 <= SNAPSHOT_MAX_GAP_SECONDS * 1000) {
+    const fraction = (t - t0) / (t1 - t0);
+    const nearest = fraction < 0.5 ? before : after;
+    const altitude = lerp(before.altitude, after.altitude, fraction);
+    const velocity = lerp(before.velocity, after.velocity, fraction);
+    const verticalRate = lerp(before.vertical_rate, after.vertical_rate, fraction);
+
+    return {
+      ...base,
+      callsign: nearest.callsign,
+      latitude: round(lerp(before.latitude, after.latitude, fraction)!, 6),
+      longitude: round(lerpAngle(before.longitude, after.longitude, fraction, 180), 6),
+      altitude: altitude == null ? null : round(altitude, 0),
+      velocity: velocity == null ? null : round(velocity, 1),
+      heading: before.heading != null && after.heading != null
+        ? round(lerpAngle(before.heading, after.heading, fraction, 0), 1)
+        : lerp(before.heading, after.heading, fraction),
+      vertical_rate: verticalRate == null ? null : round(verticalRate, 0),
+      on_ground: nearest.on_ground,
+      squawk: nearest.squawk,
+      interpolated: true,
+      position_age_seconds: Math.round(Math.min(t - t0, t1 - t) / 1000)
+    };
+  }
+
+  if (t - t0 > SNAPSHOT_HOLD_SECONDS * 1000) return null;
+  return {
+    ...base,
+    callsign: before.callsign,
+    latitude: before.latitude,
+    longitude: before.longitude,
+    altitude: before.altitude,
+    velocity: before.velocity,
+    heading: before.heading,
+    vertical_rate: before.vertical_rate,
+    on_ground: before.on_ground,
+    squawk: before.squawk,
+    interpolated: false,
+    position_age_seconds: Math.round((t - t0) / 1000)
+  };
+}
+
+/**
+ * Every tracked aircraft's position at a past moment
+ * @param militaryOnly only include aircraft flagged as military
+ */
+export async function getSnapshot(at: Date, militaryOnly = false): Promise<SnapshotAircraft[]> {
+  const [beforeResult, afterResult] = await Promise.all([
+    query<SnapshotRow>(
+      `SELECT DISTINCT ON (p.icao24) ${SNAPSHOT_COLUMNS}
+       FROM positions p
+       JOIN aircraft a ON a.icao24 = p.icao24
+       WHERE p.timestamp <= $1 AND p.timestamp > $1::TIMESTAMP - ($2 || ' seconds')::INTERVAL
+         AND p.latitude IS NOT NULL AND p.longitude IS NOT NULL
+         AND ($3 = FALSE OR a.is_military)
+       ORDER BY p.icao24, p.timestamp DESC`,
+      [at, LOOKBACK_SECONDS, militaryOnly]
+    ),
+    query<SnapshotRow>(
+      `SELECT DISTINCT ON (p.icao24) ${SNAPSHOT_COLUMNS}
+       FROM positions p
+       JOIN aircraft a ON a.icao24 = p.icao24
+       WHERE p.timestamp > $1 AND p.timestamp <= $1::TIMESTAMP + ($2 || ' seconds')::INTERVAL
+         AND p.latitude IS NOT NULL AND p.longitude IS NOT NULL
+         AND ($3 = FALSE OR a.is_military)
+       ORDER BY p.icao24, p.timestamp ASC`,
+      [at, SNAPSHOT_MAX_GAP_SECONDS, militaryOnly]
+    )
+  ]);
+
+  const after = new Map(afterResult.rows.map((row) => [row.icao24, row]));
+  const aircraft: SnapshotAircraft[] = [];
+  for (const before of beforeResult.rows) {
+    const position = positionAt(before, after.get(before.icao24), at, country(before.icao24));
+    if (position) aircraft.push(position);
+  }
+  return aircraft;
+}
+
+/**
+ * Snapshots every stepSeconds from `from` to `to` (inclusive), for time sliders
+ * Loads the positions of the whole range in one query; callers bound the range
+ */
+export async function getReplayFrames(
+  from: Date,
+  to: Date,
+  stepSeconds: number,
+  militaryOnly = false
+): Promise<ReplayFrame[]> {
+  const result = await query<SnapshotRow>(
+    `SELECT ${SNAPSHOT_COLUMNS}
+     FROM positions p
+     JOIN aircraft a ON a.icao24 = p.icao24
+     WHERE p.timestamp > $1::TIMESTAMP - ($3 || ' seconds')::INTERVAL
+       AND p.timestamp <= $2::TIMESTAMP + ($4 || ' seconds')::INTERVAL
+       AND p.latitude IS NOT NULL AND p.longitude IS NOT NULL
+       AND ($5 = FALSE OR a.is_military)
+     ORDER BY p.icao24, p.timestamp ASC`,
+    [from, to, LOOKBACK_SECONDS, SNAPSHOT_MAX_GAP_SECONDS, militaryOnly]
+  );
+
+  const frames: ReplayFrame[] = [];
+  for (let t = from.getTime(); t <= to.getTime(); t += stepSeconds * 1000) {
+    frames.push({ timestamp: new Date(t), count: 0, aircraft: [] });
+  }
+
+  // Rows are ordered by aircraft, so each aircraft's reports form one run
+  let start = 0;
+  while (start < result.rows.length) {
+    let end = start;
+    while (end < result.rows.length && result.rows[end].icao24 === result.rows[start].icao24) end++;
+    const reports = result.rows.slice(start, end);
+    const countryFields = country(reports[0].icao24);
+
+    // Frames are in time order, so the first report after each frame only moves forward
+    let next = 0;
+    for (const frame of frames) {
+      const t = frame.timestamp.getTime();
+      while (next < reports.length && reports[next].timestamp.getTime() <= t) next++;
+      const position = positionAt(reports[next - 1], reports[next], frame.timestamp, countryFields);
+      if (position) frame.aircraft.push(position);
+    }
+    start = end;
+  }
+
+  for (const frame of frames) frame.count = frame.aircraft.length;
+  return frames;
+}
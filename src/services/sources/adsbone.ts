@@ -0,0 +1,110 @@
+import { ADSBoneResponse, CoveragePoint, DataSource, SourceAircraft } from '../../types';
+import { getCoveragePoints } from '../coverage';
+import { getHealth, recordFailure, recordSuccess } from './health';
+import { FetchRetryOptions, fetchJsonWithRetry, isRateLimitError } from './http';
+import { fromReadsbAircraft } from './readsb';
+
+const CONCURRENCY = parseInt(process.env.ADSBONE_CONCURRENCY || '3');
+
+const RETRY_OPTIONS: FetchRetryOptions = {
+  timeoutMs: parseInt(process.env.ADSBONE_TIMEOUT_MS || '10000'),
+  maxRetries: parseInt(process.env.ADSBONE_MAX_RETRIES || '3'),
+  backoffBaseMs: parseInt(process.env.ADSBONE_BACKOFF_BASE_MS || '1000'),
+  maxRetryAfterMs: parseInt(process.env.ADSBONE_MAX_RETRY_AFTER_MS || '10000')
+};
+
+/**
+ * Health key of a coverage point
+ */
+export function coveragePointKey(point: CoveragePoint): string {
+  return `adsbone:${point.id}`;
+}
+
+/**
+ * Run an async function over items with at most `limit` in flight
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Fetch one coverage point and record its health
+ * @returns the point's aircraft, empty if the request failed
+ */
+async function fetchCoveragePoint(point: CoveragePoint): Promise<SourceAircraft[]> {
+  const headers: Record<string, string> = {
+    'User-Agent': 'AircraftTracker/1.0',
+    'Accept': 'application/json'
+  };
+  const url = `https://api.adsb.one/v2/point/${point.latitude}/${point.longitude}/${point.radius_nm}`;
+  const started = Date.now();
+
+  try {
+    const data = await fetchJsonWithRetry<ADSBoneResponse>(url, { headers }, RETRY_OPTIONS);
+    const records = (data.ac ?? [])
+      .map((ac) => fromReadsbAircraft(ac, 'adsbone'))
+      .filter((record): record is SourceAircraft => record !== null)
+      .map((record) => ({ ...record, coverage_point_ids: [point.id] }));
+    recordSuccess(coveragePointKey(point), Date.now() - started, records.length);
+    return records;
+  } catch (error) {
+    recordFailure(coveragePointKey(point), error as Error, isRateLimitError(error));
+    console.error(`Error fetching from point ${point.label} (${point.latitude},${point.longitude}):`, (error as Error).message);
+    return [];
+  }
+}
+
+/**
+ * Fetch aircraft data from ADSBone API using multiple coverage points
+ * ADSB.one doesn't have a global endpoint, so we use strategic points, managed
+ * in the coverage_points table (see /api/admin/coverage)
+ * Points are fetched concurrently (ADSBONE_CONCURRENCY); a point that keeps
+ * failing only costs its own coverage
+ */
+export async function fetchFromADSBone(): Promise<SourceAircraft[]> {
+  const points = await getCoveragePoints(true);
+  if (points.length === 0) {
+    console.log('⚠️ No enabled coverage points');
+    return [];
+  }
+
+  const batches = await mapWithConcurrency(points, CONCURRENCY, fetchCoveragePoint);
+
+  // Avoid duplicates, remembering every point that reported the aircraft
+  const byHex = new Map<string, SourceAircraft>();
+  for (const batch of batches) {
+    for (const record of batch) {
+      const existing = byHex.get(record.icao24);
+      if (existing) {
+        existing.coverage_point_ids!.push(...record.coverage_point_ids!);
+      } else {
+        byHex.set(record.icao24, record);
+      }
+    }
+  }
+  const allAircraft = Array.from(byHex.values());
+
+  const failed = points.filter((point) => getHealth(coveragePointKey(point))?.error_streak);
+  console.log(
+    `📡 Fetched ${allAircraft.length} total aircraft from ${points.length} coverage points` +
+    (failed.length > 0 ? ` (${failed.length} failing)` : '')
+  );
+  if (failed.length === points.length) {
+    throw new Error('All coverage points failed');
+  }
+  return allAircraft;
+}
+
+export const adsboneSource: DataSource = {
+  name: 'adsbone',
+  fetch: fetchFromADSBone
+};
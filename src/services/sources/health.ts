@@ -0,0 +1,96 @@
+import { Counter, Gauge } from 'prom-client';
+import { SourceHealth } from '../../types';
+
+const health = new Map<string, SourceHealth>();
+
+const sourceErrors = new Counter({
+  name: 'airtracker_source_errors_total',
+  help: 'Failed fetches per data source and coverage point (adsbone:<point id>)',
+  labelNames: ['source', 'rate_limited']
+});
+
+new Gauge({
+  name: 'airtracker_source_error_streak',
+  help: 'Consecutive failed fetches per data source and coverage point',
+  labelNames: ['source'],
+  collect() {
+    for (const entry of health.values()) {
+      this.set({ source: entry.key }, entry.error_streak);
+    }
+  }
+});
+
+new Gauge({
+  name: 'airtracker_source_aircraft',
+  help: 'Aircraft yielded by the last successful fetch per data source and coverage point',
+  labelNames: ['source'],
+  collect() {
+    for (const entry of health.values()) {
+      if (entry.aircraft != null) this.set({ source: entry.key }, entry.aircraft);
+    }
+  }
+});
+
+/**
+ * Get or create the health record for a source or coverage point
+ */
+function getEntry(key: string): SourceHealth {
+  let entry = health.get(key);
+  if (!entry) {
+    entry = {
+      key,
+      last_attempt: null,
+      last_success: null,
+      last_error: null,
+      last_error_at: null,
+      failing_since: null,
+      error_streak: 0,
+      latency_ms: null,
+      aircraft: null,
+      requests: 0,
+      errors: 0,
+      rate_limited: 0
+    };
+    health.set(key, entry);
+  }
+  return entry;
+}
+
+/**
+ * Record a successful fetch
+ */
+export function recordSuccess(key: string, latencyMs: number, aircraft: number): void {
+  const entry = getEntry(key);
+  const now = new Date();
+  entry.last_attempt = now;
+  entry.last_success = now;
+  entry.failing_since = null;
+  entry.error_streak = 0;
+  entry.latency_ms = latencyMs;
+  entry.aircraft = aircraft;
+  entry.requests++;
+}
+
+/**
+ * Record a failed fetch; the error streak and failing_since survive until the next success
+ */
+export function recordFailure(key: string, error: Error, rateLimited = false): void {
+  const entry = getEntry(key);
+  const now = new Date();
+  entry.last_attempt = now;
+  entry.last_error = error.message;
+  entry.last_error_at = now;
+  entry.failing_since = entry.failing_since ?? now;
+  entry.error_streak++;
+  entry.requests++;
+  entry.errors++;
+  if (rateLimited) entry.rate_limited++;
+  sourceErrors.inc({ source: key, rate_limited: String(rateLimited) });
+}
+
+/**
+ * Health of a single source or coverage point, null if it has never been fetched
+ */
+export function getHealth(key: string): SourceHealth | null {
+  return health.get(key) ?? null;
+}
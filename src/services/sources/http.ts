@@ -0,0 +1,88 @@
+export interface FetchRetryOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  backoffBaseMs: number;
+  // Longest Retry-After we are prepared to sleep through; anything longer fails the request
+  maxRetryAfterMs: number;
+}
+
+// Rate limit windows announced by each host, shared by every request to it
+const rateLimitedUntil = new Map<string, number>();
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Error for a request refused or skipped because of a rate limit
+ */
+function rateLimitError(retryAt: number): Error {
+  return Object.assign(new Error(`Rate limited until ${new Date(retryAt).toISOString()}`), { status: 429, rateLimited: true });
+}
+
+/**
+ * Check whether an error came from a rate limit
+ */
+export function isRateLimitError(error: unknown): boolean {
+  return (error as { rateLimited?: boolean }).rateLimited === true;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ * @returns the delay in milliseconds, or null if missing or unparseable
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Fetch JSON with a per-request timeout and exponential backoff
+ * Timeouts, network errors and 5xx responses are retried. A 429 pauses every
+ * request to the same host for the announced Retry-After; if that is longer than
+ * maxRetryAfterMs the request fails with a rate limit error instead of waiting.
+ */
+export async function fetchJsonWithRetry<T>(url: string, init: RequestInit, options: FetchRetryOptions): Promise<T> {
+  const host = new URL(url).host;
+
+  for (let attempt = 0; ; attempt++) {
+    const pausedUntil = rateLimitedUntil.get(host) ?? 0;
+    const wait = pausedUntil - Date.now();
+    if (wait > options.maxRetryAfterMs) {
+      throw rateLimitError(pausedUntil);
+    }
+    if (wait > 0) await sleep(wait);
+
+    let retryable: Error;
+    try {
+      const response = await fetch(url, { ...init, signal: AbortSignal.timeout(options.timeoutMs) });
+
+      if (response.ok) {
+        return await response.json() as T;
+      }
+
+      if (response.status === 429) {
+        // The next attempt waits for the host's pause before sending
+        const delay = parseRetryAfter(response.headers.get('Retry-After'))
+          ?? options.backoffBaseMs * Math.pow(2, attempt);
+        rateLimitedUntil.set(host, Math.max(rateLimitedUntil.get(host) ?? 0, Date.now() + delay));
+        retryable = rateLimitError(Date.now() + delay);
+      } else if (response.status >= 500) {
+        retryable = new Error(`HTTP ${response.status}`);
+      } else {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    } catch (error) {
+      const name = (error as Error).name;
+      if (name !== 'TimeoutError' && name !== 'TypeError') throw error;
+      retryable = name === 'TimeoutError' ? new Error(`Timed out after ${options.timeoutMs}ms`) : error as Error;
+    }
+
+    if (attempt >= options.maxRetries) throw retryable;
+    if (!isRateLimitError(retryable)) {
+      // Full jitter keeps concurrent workers from retrying in lockstep
+      await sleep(Math.random() * options.backoffBaseMs * Math.pow(2, attempt));
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { DataSource, SourceAircraft } from '../../types';
+import { adsboneSource } from './adsbone';
+import { recordFailure, recordSuccess } from './health';
+import { openskySource } from './opensky';
+import { readsbSource } from './readsb';
+
+const availableSources: Record<string, DataSource> = {
+  [adsboneSource.name]: adsboneSource,
+  [openskySource.name]: openskySource,
+  [readsbSource.name]: readsbSource
+};
+
+/**
+ * Resolve the active data sources from DATA_SOURCES (comma-separated, in priority order)
+ * Defaults to ADSBone only
+ */
+export function getConfiguredSources(): DataSource[] {
+  const names = (process.env.DATA_SOURCES || 'adsbone')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const sources: DataSource[] = [];
+  for (const name of names) {
+    const source = availableSources[name];
+    if (!source) {
+      console.error(`Unknown data source "${name}", ignoring`);
+      continue;
+    }
+    if (!sources.includes(source)) sources.push(source);
+  }
+  return sources;
+}
+
+/**
+ * Merge records from several sources, deduplicated by hex
+ * Earlier (higher priority) sources win, later ones only fill in missing fields
+ */
+export function mergeSourceAircraft(batches: SourceAircraft[][]): SourceAircraft[] {
+  const merged = new Map<string, SourceAircraft>();
+
+  for (const batch of batches) {
+    for (const ac of batch) {
+      const existing = merged.get(ac.icao24);
+      if (!existing) {
+        merged.set(ac.icao24, { ...ac, sources: [...ac.sources] });
+        continue;
+      }
+
+      // Coordinates are taken as a pair so lat/lon never come from different sources
+      if (existing.latitude == null || existing.longitude == null) {
+        existing.latitude = ac.latitude;
+        existing.longitude = ac.longitude;
+      }
+      for (const key of Object.keys(ac) as (keyof SourceAircraft)[]) {
+        if (key === 'latitude' || key === 'longitude' || key === 'sources') continue;
+        if (existing[key] == null && ac[key] != null) {
+          (existing as unknown as Record<string, unknown>)[key] = ac[key];
+        }
+      }
+      for (const source of ac.sources) {
+        if (!existing.sources.includes(source)) existing.sources.push(source);
+      }
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Fetch from every configured source in parallel and merge the results
+ * A failing source is logged and skipped so the others still deliver data
+ */
+export async function fetchFromSources(sources: DataSource[] = getConfiguredSources()): Promise<SourceAircraft[]> {
+  const results = await Promise.allSettled(sources.map(async (source) => {
+    const started = Date.now();
+    try {
+      const aircraft = await source.fetch();
+      recordSuccess(source.name, Date.now() - started, aircraft.length);
+      return aircraft;
+    } catch (error) {
+      recordFailure(source.name, error as Error);
+      throw error;
+    }
+  }));
+
+  const batches: SourceAircraft[][] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      batches.push(result.value);
+    } else {
+      console.error(`Error fetching from source ${sources[i].name}:`, (result.reason as Error).message);
+    }
+  });
+
+  const aircraft = mergeSourceAircraft(batches);
+  console.log(`📡 Merged ${aircraft.length} aircraft from ${sources.map((s) => s.name).join(', ')}`);
+  return aircraft;
+}
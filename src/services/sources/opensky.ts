@@ -0,0 +1,93 @@
+import { DataSource, OpenSkyResponse, OpenSkyStateVector, SourceAircraft } from '../../types';
+
+// Keep a hung OpenSky request from stalling the ingestion cycle
+const TIMEOUT_MS = parseInt(process.env.OPENSKY_TIMEOUT_MS || '10000');
+
+const METERS_TO_FEET = 3.28084;
+const MPS_TO_KNOTS = 1.943844;
+const MPS_TO_FPM = 196.850394;
+
+/**
+ * Convert an OpenSky state vector into the internal record
+ * OpenSky reports metric units, so values are converted to feet/knots/ft-min
+ */
+export function fromOpenSkyState(state: OpenSkyStateVector): SourceAircraft | null {
+  const [
+    hex, callsign, , , , longitude, latitude, baroAltitude, onGround,
+    velocity, track, verticalRate, , geoAltitude, squawk
+  ] = state;
+
+  const icao24 = hex?.trim().toLowerCase();
+  if (!icao24) return null;
+
+  const altitudeMeters = baroAltitude ?? geoAltitude;
+
+  return {
+    icao24,
+    callsign: callsign?.trim() || null,
+    latitude,
+    longitude,
+    altitude: altitudeMeters != null ? Math.round(altitudeMeters * METERS_TO_FEET) : null,
+    velocity: velocity != null ? velocity * MPS_TO_KNOTS : null,
+    heading: track,
+    vertical_rate: verticalRate != null ? Math.round(verticalRate * MPS_TO_FPM) : null,
+    on_ground: onGround,
+    aircraft_type: null,
+    registration: null,
+    squawk: squawk || null,
+    emergency: null,
+    category: state[17] != null ? String(state[17]) : null,
+    message_type: null,
+    nic: null,
+    nac_p: null,
+    gps_ok_before: null,
+    gps_ok_latitude: null,
+    gps_ok_longitude: null,
+    rssi: null,
+    seen_pos: null,
+    sources: ['opensky']
+  };
+}
+
+/**
+ * Fetch state vectors from the OpenSky Network /states/all endpoint
+ * OPENSKY_BBOX (lamin,lomin,lamax,lomax) limits the area, credentials are optional
+ */
+async function fetchFromOpenSky(): Promise<SourceAircraft[]> {
+  const url = new URL(process.env.OPENSKY_URL || 'https://opensky-network.org/api/states/all');
+
+  if (process.env.OPENSKY_BBOX) {
+    const [lamin, lomin, lamax, lomax] = process.env.OPENSKY_BBOX.split(',').map((v) => v.trim());
+    url.searchParams.set('lamin', lamin);
+    url.searchParams.set('lomin', lomin);
+    url.searchParams.set('lamax', lamax);
+    url.searchParams.set('lomax', lomax);
+  }
+
+  const headers: Record<string, string> = {
+    'User-Agent': 'AircraftTracker/1.0',
+    'Accept': 'application/json'
+  };
+  if (process.env.OPENSKY_USERNAME && process.env.OPENSKY_PASSWORD) {
+    const credentials = `${process.env.OPENSKY_USERNAME}:${process.env.OPENSKY_PASSWORD}`;
+    headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const response = await fetch(url, { headers, signal: AbortSignal.timeout(TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`OpenSky responded with ${response.status}`);
+  }
+
+  const data = await response.json() as OpenSkyResponse;
+  const aircraft: SourceAircraft[] = [];
+  for (const state of data.states ?? []) {
+    const record = fromOpenSkyState(state);
+    if (record) aircraft.push(record);
+  }
+  return aircraft;
+}
+
+export const openskySource: DataSource = {
+  name: 'opensky',
+  fetch: fetchFromOpenSky
+};
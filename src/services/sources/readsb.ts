@@ -0,0 +1,77 @@
+import { promises as fs } from 'fs';
+import { ADSBoneAircraft, DataSource, ReadsbResponse, SourceAircraft } from '../../types';
+
+// Keep a hung readsb request from stalling the ingestion cycle
+const TIMEOUT_MS = parseInt(process.env.READSB_TIMEOUT_MS || '10000');
+
+/**
+ * Convert an aircraft in readsb/ADSBone JSON format into the internal record
+ * ADSBone serves the same per-aircraft fields as a local readsb instance
+ */
+export function fromReadsbAircraft(ac: ADSBoneAircraft, source: string): SourceAircraft | null {
+  const icao24 = ac.hex?.trim().toLowerCase();
+  if (!icao24) return null;
+
+  const altitude = ac.alt_baro === 'ground' ? null : ac.alt_baro ?? ac.alt_geom ?? null;
+
+  return {
+    icao24,
+    callsign: ac.flight?.trim() || null,
+    latitude: ac.lat ?? null,
+    longitude: ac.lon ?? null,
+    altitude,
+    velocity: ac.gs ?? null,
+    heading: ac.track ?? null,
+    vertical_rate: ac.baro_rate ?? ac.geom_rate ?? null,
+    on_ground: ac.alt_baro === 'ground' || altitude === 0,
+    aircraft_type: ac.t || ac.desc || null,
+    registration: ac.r || null,
+    squawk: ac.squawk || null,
+    emergency: ac.emergency && ac.emergency !== 'none' ? ac.emergency : null,
+    category: ac.category || null,
+    message_type: ac.type || null,
+    nic: ac.nic ?? null,
+    nac_p: ac.nac_p ?? null,
+    gps_ok_before: ac.gps_ok_before ?? ac.gpsOkBefore ?? null,
+    gps_ok_latitude: ac.gpsOkLat ?? null,
+    gps_ok_longitude: ac.gpsOkLon ?? null,
+    rssi: ac.rssi ?? null,
+    seen_pos: ac.seen_pos ?? null,
+    sources: [source]
+  };
+}
+
+/**
+ * Read aircraft.json from a local readsb/dump1090 receiver
+ * READSB_URL may be an http(s) URL or a path on disk
+ */
+async function fetchFromReadsb(): Promise<SourceAircraft[]> {
+  const location = process.env.READSB_URL;
+  if (!location) {
+    console.error('READSB_URL is not set, skipping readsb source');
+    return [];
+  }
+
+  let data: ReadsbResponse;
+  if (/^https?:\/\//i.test(location)) {
+    const response = await fetch(location, { headers: { 'Accept': 'application/json' }, signal: AbortSignal.timeout(TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`readsb responded with ${response.status}`);
+    }
+    data = await response.json() as ReadsbResponse;
+  } else {
+    data = JSON.parse(await fs.readFile(location, 'utf8')) as ReadsbResponse;
+  }
+
+  const aircraft: SourceAircraft[] = [];
+  for (const ac of data.aircraft ?? []) {
+    const record = fromReadsbAircraft(ac, 'readsb');
+    if (record) aircraft.push(record);
+  }
+  return aircraft;
+}
+
+export const readsbSource: DataSource = {
+  name: 'readsb',
+  fetch: fetchFromReadsb
+};
@@ -0,0 +1,159 @@
+import { Response } from 'express';
+import { LiveAircraft, StreamFilter } from '../types';
+import { getLiveAircraft } from './tracker';
+
+// Ingestion is reported stale when nothing new has arrived for this long
+const STREAM_STALE_SECONDS = parseInt(process.env.STREAM_STALE_SECONDS || '120');
+const HEARTBEAT_MS = 15000;
+
+interface StreamClient {
+  id: number;
+  res: Response;
+  filter: StreamFilter;
+  known: Set<string>;
+}
+
+const clients = new Map<number, StreamClient>();
+let nextClientId = 1;
+let heartbeat: NodeJS.Timeout | null = null;
+
+let snapshot = new Map<string, LiveAircraft>();
+let lastIngestion: Date | null = null;
+
+/**
+ * Check whether an aircraft passes a client's filter
+ */
+function matchesFilter(ac: LiveAircraft, filter: StreamFilter): boolean {
+  if (filter.militaryOnly && !ac.is_military) return false;
+  if (filter.bbox) {
+    if (ac.latitude == null || ac.longitude == null) return false;
+    const lat = Number(ac.latitude);
+    const lon = Number(ac.longitude);
+    const { minLat, minLon, maxLat, maxLon } = filter.bbox;
+    if (lat < minLat || lat > maxLat || lon < minLon || lon > maxLon) return false;
+  }
+  return true;
+}
+
+/**
+ * Write one SSE event to a client
+ */
+function send(client: StreamClient, event: string, data: unknown): void {
+  client.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Current ingestion status shown to clients
+ * Ingestion is stale when no cycle has completed recently, or when cycles complete
+ * but the newest stored position is old (e.g. every source returning nothing)
+ */
+function ingestionStatus(): { last_ingestion: string | null; newest_position: string | null; stale: boolean } {
+  const limit = Date.now() - STREAM_STALE_SECONDS * 1000;
+  let newest: number | null = null;
+  for (const ac of snapshot.values()) {
+    const time = new Date(ac.timestamp).getTime();
+    if (newest === null || time > newest) newest = time;
+  }
+
+  const stale = !lastIngestion || lastIngestion.getTime() < limit || (newest !== null && newest < limit);
+  return {
+    last_ingestion: lastIngestion?.toISOString() ?? null,
+    newest_position: newest !== null ? new Date(newest).toISOString() : null,
+    stale
+  };
+}
+
+/**
+ * Send a status event to every client, used as keep-alive
+ */
+function broadcastStatus(): void {
+  const status = ingestionStatus();
+  for (const client of clients.values()) {
+    send(client, 'status', status);
+  }
+}
+
+/**
+ * Register an SSE client and send it the current snapshot
+ */
+export async function addStreamClient(res: Response, filter: StreamFilter): Promise<void> {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  if (snapshot.size === 0) {
+    const aircraft = await getLiveAircraft();
+    snapshot = new Map(aircraft.map((ac) => [ac.icao24, ac]));
+  }
+
+  const client: StreamClient = { id: nextClientId++, res, filter, known: new Set() };
+  const visible = Array.from(snapshot.values()).filter((ac) => matchesFilter(ac, filter));
+  visible.forEach((ac) => client.known.add(ac.icao24));
+
+  send(client, 'snapshot', { timestamp: new Date().toISOString(), ...ingestionStatus(), aircraft: visible });
+  clients.set(client.id, client);
+
+  res.on('close', () => {
+    clients.delete(client.id);
+    if (clients.size === 0 && heartbeat) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
+  });
+
+  if (!heartbeat) {
+    heartbeat = setInterval(broadcastStatus, HEARTBEAT_MS);
+  }
+}
+
+/**
+ * Diff the live aircraft against the previous cycle and push added/updated/removed
+ * aircraft to every client. Called after each successful ingestion cycle.
+ */
+export async function publishLiveUpdate(): Promise<void> {
+  lastIngestion = new Date();
+
+  const aircraft = await getLiveAircraft();
+  const next = new Map(aircraft.map((ac) => [ac.icao24, ac]));
+
+  const changed = new Set<string>();
+  for (const [icao24, ac] of next) {
+    const previous = snapshot.get(icao24);
+    if (!previous || new Date(previous.timestamp).getTime() !== new Date(ac.timestamp).getTime()) {
+      changed.add(icao24);
+    }
+  }
+  snapshot = next;
+
+  const status = ingestionStatus();
+  for (const client of clients.values()) {
+    const added: LiveAircraft[] = [];
+    const updated: LiveAircraft[] = [];
+    const visible = new Set<string>();
+
+    for (const ac of next.values()) {
+      if (!matchesFilter(ac, client.filter)) continue;
+      visible.add(ac.icao24);
+      if (!client.known.has(ac.icao24)) {
+        added.push(ac);
+      } else if (changed.has(ac.icao24)) {
+        updated.push(ac);
+      }
+    }
+    const removed = Array.from(client.known).filter((icao24) => !visible.has(icao24));
+    client.known = visible;
+
+    send(client, 'diff', { timestamp: lastIngestion.toISOString(), ...status, added, updated, removed });
+  }
+}
+
+/**
+ * Number of connected stream clients
+ */
+export function getStreamClientCount(): number {
+  return clients.size;
+}
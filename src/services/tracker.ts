@@ -1,239 +1,428 @@
-import { query } from '../db';
-import { ADSBoneAircraft, ADSBoneResponse, AircraftTrack, LiveAircraft, Position, TrackerResult } from '../types';
-
-// Russian ICAO 24-bit address ranges (hex prefixes 140-157)
-// These correspond to aircraft registered in Russia
-const RUSSIAN_ICAO_PREFIXES: string[] = [
-  '140', '141', '142', '143', '144', '145', '146', '147',
-  '148', '149', '14a', '14b', '14c', '14d', '14e', '14f',
-  '150', '151', '152', '153', '154', '155', '156', '157'
-];
-
-// Military aircraft hex codes
-const militaryHexCodes: Set<string> = new Set();
-
-// Load military hex codes if available
-try {
-  // eslint-disable-next-line @typescript-eslint/no-var-requires
-  const militaryData = require('../../../assets/military_hex.json');
-  if (Array.isArray(militaryData)) {
-    militaryData.forEach((item: { hex?: string }) => {
-      if (item.hex) militaryHexCodes.add(item.hex.toLowerCase());
-    });
-  }
-  console.log(`📋 Loaded ${militaryHexCodes.size} military hex codes`);
-} catch {
-  console.log('ℹ️ No military hex database found, continuing without military classification');
-}
+import { PoolClient, QueryResult } from 'pg';
+import { query, valuesList, withTransaction } from '../db';
+import {
+  AircraftTrack,
+  LiveAircraft,
+  Position,
+  SourceAircraft,
+  TrackerEvent,
+  TrackerResult,
+  TrackerTimings
+} from '../types';
+import { airspaceAt } from './airspace';
+import { detectDarkPeriods } from './darkPeriods';
+import { closeStaleFlights, FLIGHT_GAP_MINUTES, getFlightRoutes, updateFlights } from './flights';
+import { haversineDistance } from './geo';
+import { detectGeofenceEvents, recordSignalLostExits } from './geofences';
+import { recordCoverageSightings } from './coverage';
+import { enrichAircraft } from './enrichment';
+import { decodeIcao24, withDecodedCountry } from './icao';
+import { detectInterference } from './interference';
+import { recordFetchCycle, recordFetchCycleFailure } from './metrics';
+import { enqueueNotifications } from './notifications';
+import { fetchFromSources } from './sources';
+import { getEnabledWatchlists, matchWatchlists } from './watchlists';
+
+// Transponder codes reserved for emergencies
+export const EMERGENCY_SQUAWKS: Record<string, string> = {
+  '7500': 'hijack',
+  '7600': 'radio failure',
+  '7700': 'general emergency'
+};
 
 /**
- * Check if an ICAO24 address belongs to a Russian aircraft
+ * The emergency an aircraft reports: an emergency squawk, else the emergency field
  */
-export function isRussianAircraft(icao24: string | null): boolean {
-  if (!icao24) return false;
-  const prefix = icao24.toLowerCase().substring(0, 3);
-  return RUSSIAN_ICAO_PREFIXES.includes(prefix);
+function emergencyOf(squawk: string | null | undefined, emergency: string | null | undefined): string | null {
+  return (squawk && EMERGENCY_SQUAWKS[squawk] ? squawk : null) ?? emergency ?? null;
 }
 
 /**
- * Check if aircraft is military
+ * Derive notification events from a freshly stored aircraft
+ * @param previousSighting when the aircraft was last seen before this cycle, null if never
+ * @param military the aircraft's stored is_military flag
+ * @param previousEmergency emergency of its last stored position within FLIGHT_GAP_MINUTES,
+ * so an emergency is only notified when it starts, across restarts too
  */
-export function isMilitary(icao24: string | null | undefined): boolean {
-  return militaryHexCodes.has(icao24?.toLowerCase() ?? '');
+function detectAircraftEvents(
+  ac: SourceAircraft,
+  previousSighting: Date | null,
+  military: boolean,
+  previousEmergency: string | null
+): TrackerEvent[] {
+  const events: TrackerEvent[] = [];
+  const base = {
+    icao24: ac.icao24,
+    callsign: ac.callsign,
+    timestamp: new Date(),
+    latitude: ac.latitude,
+    longitude: ac.longitude,
+    altitude: ac.altitude
+  };
+
+  if (!previousSighting) {
+    events.push({ ...base, type: 'aircraft.first_seen', details: { aircraft_type: ac.aircraft_type } });
+  }
+
+  const reappeared = !previousSighting || Date.now() - previousSighting.getTime() > FLIGHT_GAP_MINUTES * 60 * 1000;
+  if (reappeared && military) {
+    events.push({ ...base, type: 'aircraft.military', details: { aircraft_type: ac.aircraft_type } });
+  }
+
+  const squawkEmergency = ac.squawk && EMERGENCY_SQUAWKS[ac.squawk] ? ac.squawk : null;
+  const emergency = emergencyOf(ac.squawk, ac.emergency);
+  if (emergency && emergency !== previousEmergency) {
+    events.push({
+      ...base,
+      type: 'squawk.emergency',
+      details: {
+        squawk: ac.squawk,
+        emergency: ac.emergency ?? (squawkEmergency ? EMERGENCY_SQUAWKS[squawkEmergency] : null)
+      }
+    });
+  }
+  return events;
 }
 
+// Rows per multi-row INSERT, kept well below PostgreSQL's 65535 bind parameter limit
+const INSERT_BATCH_SIZE = 1000;
+
+const STRING_LIMITS: [keyof SourceAircraft, number][] = [
+  ['callsign', 20],
+  ['aircraft_type', 50],
+  ['squawk', 4],
+  ['emergency', 20],
+  ['category', 4],
+  ['message_type', 20]
+];
+
+const NUMERIC_FIELDS: (keyof SourceAircraft)[] = [
+  'latitude', 'longitude', 'altitude', 'velocity', 'heading', 'vertical_rate', 'nic', 'nac_p', 'rssi', 'seen_pos'
+];
+
 /**
- * Fetch aircraft data from ADSBone API using multiple coverage points
- * ADSB.one doesn't have a global endpoint, so we use strategic points
+ * Check a source aircraft before it is written
+ * @returns the reason it is rejected, or null if it can be stored
  */
-async function fetchFromADSBone(): Promise<ADSBoneResponse> {
-  // Strategic points to cover areas where Russian aircraft are commonly seen
-  // Each point covers up to 250 nautical miles radius (~463 km)
-  // Optimized for tracking Russia → Gulf of Finland → Kaliningrad corridor
-  const coveragePoints = [
-    // Gulf of Finland & Baltic corridor (key area for Kaliningrad flights)
-    { lat: 60.17, lon: 24.94, radius: 250 },   // Helsinki/Gulf of Finland
-    { lat: 59.45, lon: 24.75, radius: 250 },   // Tallinn/Northern Estonia
-    { lat: 57.50, lon: 21.00, radius: 250 },   // Baltic Sea (Latvia coast)
-    { lat: 54.70, lon: 20.50, radius: 250 },   // Kaliningrad Oblast
-    { lat: 55.20, lon: 23.50, radius: 250 },   // Lithuania (covers Kaliningrad corridor)
-    { lat: 54.35, lon: 18.65, radius: 250 },   // Gdansk/Polish coast (Kaliningrad approach)
-    
-    // Russia mainland
-    { lat: 59.93, lon: 30.31, radius: 250 },   // St. Petersburg (departure point)
-    { lat: 55.75, lon: 37.62, radius: 250 },   // Moscow area
-    { lat: 56.0, lon: 44.0, radius: 250 },     // Nizhny Novgorod
-    { lat: 64.0, lon: 40.0, radius: 250 },     // Northern Russia (Arkhangelsk)
-    { lat: 68.0, lon: 33.0, radius: 250 },     // Murmansk/Arctic
-    
-    // Extended coverage
-    { lat: 55.0, lon: 82.0, radius: 250 },     // Novosibirsk/Siberia
-    { lat: 48.0, lon: 135.0, radius: 250 },    // Far East Russia
-  ];
-
-  const headers: Record<string, string> = {
-    'User-Agent': 'AircraftTracker/1.0',
-    'Accept': 'application/json'
-  };
+function validateSourceAircraft(ac: SourceAircraft): string | null {
+  if (!/^~?[0-9a-f]{6}$/.test(ac.icao24)) return 'invalid icao24';
 
-  const allAircraft: ADSBoneAircraft[] = [];
-  const seenHex = new Set<string>();
-
-  for (const point of coveragePoints) {
-    try {
-      const url = `https://api.adsb.one/v2/point/${point.lat}/${point.lon}/${point.radius}`;
-      const response = await fetch(url, { headers });
-
-      if (response.ok) {
-        const data = await response.json() as ADSBoneResponse;
-        if (data.ac) {
-          for (const ac of data.ac) {
-            // Avoid duplicates
-            if (ac.hex && !seenHex.has(ac.hex)) {
-              seenHex.add(ac.hex);
-              allAircraft.push(ac);
-            }
-          }
-        }
-      }
-    } catch (error) {
-      console.error(`Error fetching from point ${point.lat},${point.lon}:`, (error as Error).message);
-    }
+  for (const field of NUMERIC_FIELDS) {
+    const value = ac[field];
+    if (value != null && !Number.isFinite(value)) return `${field} is not a number`;
+  }
+  for (const [field, limit] of STRING_LIMITS) {
+    const value = ac[field];
+    if (typeof value === 'string' && value.length > limit) return `${field} longer than ${limit} characters`;
   }
 
-  console.log(`📡 Fetched ${allAircraft.length} total aircraft from ${coveragePoints.length} coverage points`);
-  return { ac: allAircraft, total: allAircraft.length, ctime: Date.now(), ptime: 0 };
+  if ((ac.latitude == null) !== (ac.longitude == null)) return 'incomplete coordinates';
+  if (ac.latitude != null && Math.abs(ac.latitude) > 90) return 'latitude out of range';
+  if (ac.longitude != null && Math.abs(ac.longitude) > 180) return 'longitude out of range';
+  if (ac.altitude != null && (ac.altitude < -2000 || ac.altitude > 100000)) return 'implausible altitude';
+  if (ac.velocity != null && (ac.velocity < 0 || ac.velocity > 2500)) return 'implausible velocity';
+  return null;
 }
 
 /**
- * Cleanup old position data (older than 24 hours)
+ * Write one cycle's aircraft and positions with multi-row inserts
+ * Runs inside the caller's transaction
  */
-export async function cleanupOldData(): Promise<number> {
-  try {
-    const result = await query(
-      `DELETE FROM positions WHERE timestamp < NOW() - INTERVAL '24 hours' RETURNING id`
+async function writeCycle(
+  client: PoolClient,
+  tracked: { ac: SourceAircraft; watchlistIds: number[] }[]
+): Promise<{ inserted: number; updated: number; positions: Position[]; military: Set<string> }> {
+  let inserted = 0;
+  let updated = 0;
+  const positions: Position[] = [];
+  const military = new Set<string>();
+
+  for (let i = 0; i < tracked.length; i += INSERT_BATCH_SIZE) {
+    const batch = tracked.slice(i, i + INSERT_BATCH_SIZE);
+
+    // Upsert aircraft records, keeping every watchlist each has ever matched
+    const aircraftParams = batch.flatMap(({ ac, watchlistIds }) => [
+      ac.icao24,
+      ac.callsign,
+      decodeIcao24(ac.icao24, ac.message_type).country,
+      ac.aircraft_type,
+      ac.registration,
+      watchlistIds
+    ]);
+    // A registration from the aircraft database (see enrichment) wins over the feed's.
+    // is_military is read from the registry table, not this replica's in-memory copy,
+    // so registry changes made through another replica aren't undone here.
+    const aircraftResult = await client.query<{ icao24: string; is_military: boolean; inserted: boolean }>(
+      `INSERT INTO aircraft (icao24, callsign, origin_country, aircraft_type, registration, watchlist_ids, is_military)
+       SELECT v.icao24, v.callsign, v.origin_country, v.aircraft_type, v.registration, v.watchlist_ids::INTEGER[],
+         EXISTS (SELECT 1 FROM military_registry m WHERE m.hex = v.icao24)
+       FROM (VALUES ${valuesList(batch.length, 6)}) AS v(icao24, callsign, origin_country, aircraft_type, registration, watchlist_ids)
+       ON CONFLICT (icao24) DO UPDATE SET
+         callsign = COALESCE(EXCLUDED.callsign, aircraft.callsign),
+         origin_country = EXCLUDED.origin_country,
+         aircraft_type = COALESCE(EXCLUDED.aircraft_type, aircraft.aircraft_type),
+         registration = COALESCE(aircraft.registration, EXCLUDED.registration),
+         is_military = EXCLUDED.is_military,
+         last_seen = CURRENT_TIMESTAMP,
+         total_sightings = aircraft.total_sightings + 1,
+         watchlist_ids = ARRAY(
+           SELECT DISTINCT unnest(COALESCE(aircraft.watchlist_ids, '{}') || EXCLUDED.watchlist_ids)
+         )
+       RETURNING icao24, is_military, (xmax = 0) as inserted`,
+      aircraftParams
     );
-    const deletedCount = result.rowCount ?? 0;
-    if (deletedCount > 0) {
-      console.log(`🧹 Cleaned up ${deletedCount} old position records`);
+    for (const row of aircraftResult.rows) {
+      if (row.is_military) military.add(row.icao24);
+      if (row.inserted) inserted++;
+      else updated++;
     }
-    return deletedCount;
-  } catch (error) {
-    console.error('Error cleaning up old data:', (error as Error).message);
-    return 0;
+
+    // Store positions for aircraft that reported coordinates
+    const withPosition = batch.filter(({ ac }) => ac.latitude != null && ac.longitude != null);
+    if (withPosition.length === 0) continue;
+
+    const positionParams = withPosition.flatMap(({ ac, watchlistIds }) => [
+      ac.icao24,
+      ac.callsign,
+      ac.latitude,
+      ac.longitude,
+      ac.altitude,
+      ac.velocity,
+      ac.heading,
+      ac.vertical_rate,
+      ac.on_ground,
+      ac.squawk,
+      ac.emergency,
+      ac.category,
+      ac.nic,
+      ac.nac_p,
+      ac.rssi,
+      ac.message_type,
+      ac.seen_pos,
+      ac.sources,
+      watchlistIds,
+      airspaceAt(ac.latitude!, ac.longitude!)
+    ]);
+    const positionResult = await client.query<Position>(
+      `INSERT INTO positions (icao24, callsign, latitude, longitude, altitude, velocity, heading, vertical_rate, on_ground,
+         squawk, emergency, category, nic, nac_p, rssi, message_type, seen_pos, sources, watchlist_ids, airspace)
+       VALUES ${valuesList(withPosition.length, 20)}
+       RETURNING id, icao24, callsign, latitude, longitude, altitude, velocity, heading, vertical_rate, on_ground,
+         squawk, emergency, timestamp`,
+      positionParams
+    );
+    positions.push(...positionResult.rows);
   }
+
+  return { inserted, updated, positions, military };
 }
 
 /**
- * Fetch and store Russian aircraft positions from ADSBone
+ * Fetch aircraft from the configured data sources and store those matching a watchlist
+ * Aircraft and positions of a cycle are written in a single transaction; flights,
+ * geofences, notifications and stats are derived afterwards and pick up anything
+ * a failed step missed on the next cycle.
  */
 export async function fetchAndStoreRussianAircraft(): Promise<TrackerResult> {
+  const started = Date.now();
+  const timings: TrackerTimings = {
+    fetch_ms: 0,
+    write_ms: 0,
+    flights_ms: 0,
+    geofences_ms: 0,
+    notifications_ms: 0,
+    stats_ms: 0,
+    total_ms: 0
+  };
+  const result: TrackerResult = {
+    fetched: 0,
+    tracked: 0,
+    stored: 0,
+    aircraft_inserted: 0,
+    aircraft_updated: 0,
+    rejected: [],
+    timings
+  };
+  let stepStarted = started;
+  const lap = (): number => {
+    const now = Date.now();
+    const elapsed = now - stepStarted;
+    stepStarted = now;
+    return elapsed;
+  };
+
   try {
-    // First, cleanup old data (older than 24 hours)
-    await cleanupOldData();
+    const allAircraft = await fetchFromSources();
+    timings.fetch_ms = lap();
+    result.fetched = allAircraft.length;
+
+    if (allAircraft.length === 0) {
+      console.log('⚠️ No aircraft data received from data sources');
+      timings.total_ms = Date.now() - started;
+      recordFetchCycle(result);
+      return result;
+    }
 
-    const data = await fetchFromADSBone();
+    // Keep only aircraft matched by at least one watchlist
+    const watchlists = await getEnabledWatchlists();
+    const trackedAircraft: { ac: SourceAircraft; watchlistIds: number[] }[] = [];
+    for (const ac of allAircraft) {
+      const watchlistIds = matchWatchlists(ac, watchlists);
+      if (watchlistIds.length === 0) continue;
+
+      const reason = validateSourceAircraft(ac);
+      if (reason) {
+        result.rejected.push({ icao24: ac.icao24, callsign: ac.callsign, sources: ac.sources, reason });
+        continue;
+      }
+      trackedAircraft.push({ ac, watchlistIds });
+    }
+    result.tracked = trackedAircraft.length;
 
-    if (!data || !data.ac || data.ac.length === 0) {
-      console.log('⚠️ No aircraft data received from ADSBone');
-      return { tracked: 0, stored: 0 };
+    console.log(`📡 Found ${trackedAircraft.length} watchlisted aircraft out of ${allAircraft.length} total`);
+    if (result.rejected.length > 0) {
+      console.warn(`⚠️ Rejected ${result.rejected.length} aircraft:`, result.rejected.map((r) => `${r.icao24} (${r.reason})`).join(', '));
     }
 
-    // Filter for Russian aircraft only
-    const russianAircraft = data.ac.filter((ac: ADSBoneAircraft) => 
-      isRussianAircraft(ac.hex)
+    // Previous sightings tell first-seen and reappearing aircraft apart, and the last
+    // stored position tells a new emergency from one already notified
+    const previousResult = await query<{ icao24: string; last_seen: Date; squawk: string | null; emergency: string | null }>(
+      `SELECT a.icao24, a.last_seen, p.squawk, p.emergency
+       FROM aircraft a
+       LEFT JOIN LATERAL (
+         SELECT squawk, emergency FROM positions
+         WHERE icao24 = a.icao24 AND timestamp > NOW() - ($2 || ' minutes')::INTERVAL
+         ORDER BY timestamp DESC
+         LIMIT 1
+       ) p ON TRUE
+       WHERE a.icao24 = ANY($1)`,
+      [trackedAircraft.map(({ ac }) => ac.icao24), FLIGHT_GAP_MINUTES]
     );
+    const previousSightings = new Map(previousResult.rows.map((row) => [row.icao24, new Date(row.last_seen)]));
+    const previousEmergencies = new Map(previousResult.rows.map((row) => [row.icao24, emergencyOf(row.squawk, row.emergency)]));
 
-    console.log(`📡 Found ${russianAircraft.length} Russian aircraft out of ${data.ac.length} total`);
-
-    let storedCount = 0;
-
-    for (const ac of russianAircraft) {
-      try {
-        const icao24 = ac.hex?.toLowerCase();
-        if (!icao24) continue;
-
-        const callsign = ac.flight?.trim() || null;
-        const latitude = ac.lat;
-        const longitude = ac.lon;
-        const altitude = ac.alt_baro ?? ac.alt_geom ?? null;
-        const velocity = ac.gs ?? null;
-        const heading = ac.track ?? null;
-        const verticalRate = ac.baro_rate ?? ac.geom_rate ?? null;
-        const onGround = ac.alt_baro === 'ground' || altitude === 0;
-
-        // Upsert aircraft record
-        await query(
-          `INSERT INTO aircraft (icao24, callsign, origin_country, aircraft_type, last_seen, total_sightings)
-           VALUES ($1, $2, 'Russia', $3, CURRENT_TIMESTAMP, 1)
-           ON CONFLICT (icao24) DO UPDATE SET
-             callsign = COALESCE(EXCLUDED.callsign, aircraft.callsign),
-             aircraft_type = COALESCE(EXCLUDED.aircraft_type, aircraft.aircraft_type),
-             last_seen = CURRENT_TIMESTAMP,
-             total_sightings = aircraft.total_sightings + 1`,
-          [icao24, callsign, ac.t || ac.desc || null]
-        );
-
-        // Store position if we have coordinates
-        if (latitude != null && longitude != null) {
-          await query(
-            `INSERT INTO positions (icao24, callsign, latitude, longitude, altitude, velocity, heading, vertical_rate, on_ground)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-            [
-              icao24,
-              callsign,
-              latitude,
-              longitude,
-              typeof altitude === 'number' ? altitude : null,
-              velocity,
-              heading,
-              verticalRate,
-              onGround
-            ]
-          );
-          storedCount++;
-        }
-      } catch (error) {
-        console.error(`Error storing aircraft ${ac.hex}:`, (error as Error).message);
-      }
+    lap();
+    const written = await withTransaction((client) => writeCycle(client, trackedAircraft));
+    timings.write_ms = lap();
+
+    result.stored = written.positions.length;
+    result.aircraft_inserted = written.inserted;
+    result.aircraft_updated = written.updated;
+
+    // Fill in registration, type and owner details for aircraft seen for the first time.
+    // The cycle is already committed, so a failure here mustn't skip the steps below.
+    try {
+      await enrichAircraft(trackedAircraft.map(({ ac }) => ac.icao24).filter((icao24) => !previousSightings.has(icao24)));
+    } catch (error) {
+      console.error('Error enriching new aircraft:', (error as Error).message);
     }
 
+    // Remember which coverage point saw which aircraft for the coverage report
+    await recordCoverageSightings(allAircraft, new Set(trackedAircraft.map(({ ac }) => ac.icao24)));
+
+    // Integrity data from every reported aircraft feeds the GNSS interference heatmap
+    await detectInterference(allAircraft);
+
+    // Airborne gaps closed by this cycle's positions
+    await detectDarkPeriods(written.positions);
+
+    // Only derive events once the cycle is committed
+    const events: TrackerEvent[] = [];
+    for (const { ac } of trackedAircraft) {
+      events.push(...detectAircraftEvents(
+        ac,
+        previousSightings.get(ac.icao24) ?? null,
+        written.military.has(ac.icao24),
+        previousEmergencies.get(ac.icao24) ?? null
+      ));
+    }
+
+    // Close flights that went quiet, then split the new positions into flights
+    const lostFlights = await closeStaleFlights();
+    await updateFlights();
+    timings.flights_ms = lap();
+
+    // Record geofence entries and exits; lost aircraft leave their geofences first,
+    // so one reappearing inside a geofence enters it again
+    const geofenceEvents = [
+      ...await recordSignalLostExits(lostFlights),
+      ...await detectGeofenceEvents(written.positions)
+    ];
+    for (const e of geofenceEvents) {
+      events.push({
+        type: e.event_type === 'entry' ? 'geofence.entry' : 'geofence.exit',
+        icao24: e.icao24,
+        callsign: e.callsign,
+        timestamp: e.timestamp,
+        latitude: e.latitude,
+        longitude: e.longitude,
+        altitude: e.altitude,
+        details: { geofence_id: e.geofence_id, geofence_name: e.geofence_name }
+      });
+    }
+    timings.geofences_ms = lap();
+
+    // Notify subscribers
+    await enqueueNotifications(events);
+    timings.notifications_ms = lap();
+
     // Update daily stats
     await updateDailyStats();
+    timings.stats_ms = lap();
 
-    console.log(`✅ Stored ${storedCount} positions from ${russianAircraft.length} Russian aircraft`);
-    return { tracked: russianAircraft.length, stored: storedCount };
+    timings.total_ms = Date.now() - started;
+    console.log(
+      `✅ Stored ${result.stored} positions from ${result.tracked} watchlisted aircraft ` +
+      `(${result.aircraft_inserted} new, ${result.aircraft_updated} updated) in ${timings.total_ms}ms`
+    );
+    recordFetchCycle(result);
+    return result;
   } catch (error) {
     console.error('❌ Error fetching aircraft:', (error as Error).message);
+    recordFetchCycleFailure(Date.now() - started);
     throw error;
   }
 }
 
 /**
- * Update daily statistics
+ * Update daily statistics, including the military/civilian split of today's aircraft
  */
 async function updateDailyStats(): Promise<void> {
   try {
     const today = new Date().toISOString().split('T')[0];
 
-    const statsResult = await query<{ unique_aircraft: string; total_positions: string }>(
-      `SELECT 
-         COUNT(DISTINCT icao24) as unique_aircraft,
-         COUNT(*) as total_positions
-       FROM positions
-       WHERE DATE(timestamp) = $1`,
+    const statsResult = await query<{
+      unique_aircraft: number;
+      total_positions: number;
+      military_count: number;
+      civilian_count: number;
+    }>(
+      `SELECT
+         COUNT(*) as unique_aircraft,
+         COALESCE(SUM(positions), 0) as total_positions,
+         COUNT(*) FILTER (WHERE is_military) as military_count,
+         COUNT(*) FILTER (WHERE NOT is_military) as civilian_count
+       FROM (
+         SELECT p.icao24, COUNT(*) as positions, COALESCE(BOOL_OR(a.is_military), FALSE) as is_military
+         FROM positions p
+         LEFT JOIN aircraft a ON a.icao24 = p.icao24
+         WHERE DATE(p.timestamp) = $1
+         GROUP BY p.icao24
+       ) today`,
       [today]
     );
 
-    const { unique_aircraft, total_positions } = statsResult.rows[0];
+    const { unique_aircraft, total_positions, military_count, civilian_count } = statsResult.rows[0];
 
     await query(
-      `INSERT INTO daily_stats (date, unique_aircraft, total_positions)
-       VALUES ($1, $2, $3)
+      `INSERT INTO daily_stats (date, unique_aircraft, total_positions, military_count, civilian_count)
+       VALUES ($1, $2, $3, $4, $5)
        ON CONFLICT (date) DO UPDATE SET
          unique_aircraft = EXCLUDED.unique_aircraft,
-         total_positions = EXCLUDED.total_positions`,
-      [today, parseInt(unique_aircraft), parseInt(total_positions)]
+         total_positions = EXCLUDED.total_positions,
+         military_count = EXCLUDED.military_count,
+         civilian_count = EXCLUDED.civilian_count`,
+      [today, unique_aircraft, total_positions, military_count, civilian_count]
     );
   } catch (error) {
     console.error('Error updating daily stats:', (error as Error).message);
@@ -256,20 +445,28 @@ export async function getLiveAircraft(): Promise<LiveAircraft[]> {
        p.heading,
        p.vertical_rate,
        p.on_ground,
+       p.squawk,
+       p.emergency,
+       p.category,
+       p.nic,
+       p.nac_p,
+       p.rssi,
+       p.message_type,
+       p.seen_pos,
+       p.sources,
+       p.watchlist_ids,
        p.timestamp,
        a.total_sightings,
        a.first_seen,
-       a.last_seen
+       a.last_seen,
+       a.is_military
      FROM positions p
      JOIN aircraft a ON p.icao24 = a.icao24
      WHERE p.timestamp > NOW() - INTERVAL '5 minutes'
      ORDER BY p.icao24, p.timestamp DESC`
   );
 
-  return result.rows.map((row: LiveAircraft) => ({
-    ...row,
-    is_military: isMilitary(row.icao24)
-  }));
+  return result.rows.map((row: LiveAircraft) => withDecodedCountry(row));
 }
 
 /**
@@ -287,6 +484,17 @@ export async function getAircraftHistory(icao24: string, hours: number = 24): Pr
        heading,
        vertical_rate,
        on_ground,
+       squawk,
+       emergency,
+       category,
+       nic,
+       nac_p,
+       rssi,
+       message_type,
+       seen_pos,
+       sources,
+       watchlist_ids,
+       flight_id,
        timestamp
      FROM positions
      WHERE icao24 = $1 AND timestamp > NOW() - ($2 || ' hours')::INTERVAL
@@ -297,20 +505,51 @@ export async function getAircraftHistory(icao24: string, hours: number = 24): Pr
   return result.rows;
 }
 
+// Positions fetched per query when streaming a long history
+const HISTORY_PAGE_SIZE = 5000;
+
 /**
- * Calculate distance between two points using Haversine formula
- * @returns distance in kilometers
+ * Stream aircraft history page by page, oldest first
+ * Yields batches so exports of long histories don't load every position at once
  */
-function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Earth's radius in km
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
+export async function* iterateAircraftHistory(
+  icao24: string,
+  hours: number = 24,
+  pageSize: number = HISTORY_PAGE_SIZE
+): AsyncGenerator<Position[]> {
+  // Keyset on (timestamp, id); timestamps are compared at the millisecond precision a Date keeps
+  let after: { timestamp: Date; id: number } | null = null;
+
+  while (true) {
+    const result: QueryResult<Position> = await query<Position>(
+      `SELECT 
+         id,
+         icao24,
+         callsign,
+         latitude,
+         longitude,
+         altitude,
+         velocity,
+         heading,
+         vertical_rate,
+         on_ground,
+         squawk,
+         emergency,
+         timestamp
+       FROM positions
+       WHERE icao24 = $1 AND timestamp > NOW() - ($2 || ' hours')::INTERVAL
+         AND ($3::TIMESTAMP IS NULL OR (date_trunc('milliseconds', timestamp), id) > ($3, $4::INTEGER))
+       ORDER BY date_trunc('milliseconds', timestamp) ASC, id ASC
+       LIMIT $5`,
+      [icao24.toLowerCase(), hours, after?.timestamp ?? null, after?.id ?? null, pageSize]
+    );
+
+    if (result.rows.length > 0) yield result.rows;
+    if (result.rows.length < pageSize) return;
+
+    const last: Position = result.rows[result.rows.length - 1];
+    after = { timestamp: last.timestamp, id: last.id! };
+  }
 }
 
 /**
@@ -323,19 +562,40 @@ export async function getAllTracksLast24h(
   centerLon?: number,
   radiusKm?: number
 ): Promise<AircraftTrack[]> {
+  const tracks: AircraftTrack[] = [];
+  for await (const track of iterateTracksLast24h(centerLat, centerLon, radiusKm)) {
+    tracks.push(track);
+  }
+  return tracks;
+}
+
+/**
+ * Yield the tracks of getAllTracksLast24h one aircraft at a time
+ */
+export async function* iterateTracksLast24h(
+  centerLat?: number,
+  centerLon?: number,
+  radiusKm?: number
+): AsyncGenerator<AircraftTrack> {
   // Get all unique aircraft with positions in last 24 hours
-  const aircraftResult = await query<{ icao24: string; callsign: string | null; aircraft_type: string | null }>(
+  const aircraftResult = await query<{
+    icao24: string;
+    callsign: string | null;
+    aircraft_type: string | null;
+    is_military: boolean;
+  }>(
     `SELECT DISTINCT ON (p.icao24)
        p.icao24,
        p.callsign,
-       a.aircraft_type
+       a.aircraft_type,
+       COALESCE(a.is_military, FALSE) as is_military
      FROM positions p
      LEFT JOIN aircraft a ON p.icao24 = a.icao24
      WHERE p.timestamp > NOW() - INTERVAL '24 hours'
      ORDER BY p.icao24, p.timestamp DESC`
   );
 
-  const tracks: AircraftTrack[] = [];
+  const routes = await getFlightRoutes(aircraftResult.rows.map((ac) => ac.icao24));
   const shouldFilter = centerLat !== undefined && centerLon !== undefined && radiusKm !== undefined;
 
   for (const ac of aircraftResult.rows) {
@@ -346,6 +606,14 @@ export async function getAllTracksLast24h(
          altitude,
          velocity,
          heading,
+         vertical_rate,
+         on_ground,
+         squawk,
+         emergency,
+         nic,
+         nac_p,
+         rssi,
+         message_type,
          timestamp
        FROM positions
        WHERE icao24 = $1 AND timestamp > NOW() - INTERVAL '24 hours'
@@ -365,15 +633,17 @@ export async function getAllTracksLast24h(
 
     // Only include aircraft with at least 2 positions (to draw a line)
     if (positions.length >= 2) {
-      tracks.push({
+      const { country, country_code } = decodeIcao24(ac.icao24);
+      yield {
         icao24: ac.icao24,
         callsign: ac.callsign,
+        origin_country: country,
+        country_code,
         aircraft_type: ac.aircraft_type,
         positions,
-        is_military: isMilitary(ac.icao24)
-      });
+        routes: routes.get(ac.icao24) ?? [],
+        is_military: ac.is_military
+      };
     }
   }
-
-  return tracks;
 }
@@ -0,0 +1,133 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { ParamSchema, RouteSchema, ValidationIssue } from '../types';
+
+type ParamValue<P extends ParamSchema> =
+  P extends { type: 'integer' | 'number' } ? number :
+  P extends { type: 'boolean' } ? boolean :
+  P extends { enum: readonly (infer E)[] } ? E :
+  string;
+
+type ParamValues<T extends Record<string, ParamSchema> | undefined> = T extends Record<string, ParamSchema>
+  ? { [K in keyof T]: T[K] extends { default: unknown } | { required: true } ? ParamValue<T[K]> : ParamValue<T[K]> | undefined }
+  : Record<string, never>;
+
+export interface Validated<S extends RouteSchema> {
+  params: { [K in keyof S['params']]: string };
+  query: ParamValues<S['query']>;
+}
+
+// The validating middleware carries its schema so the OpenAPI document can be
+// generated from the mounted routers
+export type ValidatingHandler = RequestHandler & { schema: RouteSchema };
+
+/**
+ * Declare a route schema, keeping its literal types for the typed accessor
+ */
+export function defineRoute<const S extends RouteSchema>(schema: S): S {
+  return schema;
+}
+
+/**
+ * Describe a numeric range for error messages
+ */
+function describeRange(kind: string, schema: { minimum?: number; maximum?: number }): string {
+  if (schema.minimum !== undefined && schema.maximum !== undefined) {
+    return `${kind} between ${schema.minimum} and ${schema.maximum}`;
+  }
+  if (schema.minimum !== undefined) return `${kind} of at least ${schema.minimum}`;
+  if (schema.maximum !== undefined) return `${kind} of at most ${schema.maximum}`;
+  return kind;
+}
+
+/**
+ * Coerce and check a single raw value against its schema
+ * @returns the coerced value, or an error message
+ */
+function parseValue(schema: ParamSchema, raw: string): { value: unknown } | { error: string } {
+  switch (schema.type) {
+    case 'integer':
+    case 'number': {
+      const value = Number(raw);
+      const valid = raw.trim() !== '' && Number.isFinite(value) &&
+        (schema.type === 'number' || Number.isInteger(value)) &&
+        (schema.minimum === undefined || value >= schema.minimum) &&
+        (schema.maximum === undefined || value <= schema.maximum);
+      return valid ? { value } : { error: `must be ${describeRange(schema.type === 'integer' ? 'an integer' : 'a number', schema)}` };
+    }
+    case 'boolean':
+      if (raw === 'true' || raw === 'false') return { value: raw === 'true' };
+      return { error: 'must be true or false' };
+    case 'string':
+      if (schema.enum && !schema.enum.includes(raw)) return { error: `must be one of: ${schema.enum.join(', ')}` };
+      if (schema.pattern && !new RegExp(schema.pattern).test(raw)) return { error: 'has an invalid format' };
+      if (schema.format === 'date-time' && isNaN(Date.parse(raw))) return { error: 'must be a date-time, e.g. 2024-01-31T12:00:00Z' };
+      return { value: raw };
+  }
+}
+
+/**
+ * Validate one group of parameters (path or query)
+ */
+function validateGroup(
+  location: ValidationIssue['in'],
+  schemas: Record<string, ParamSchema>,
+  input: Record<string, unknown>,
+  issues: ValidationIssue[]
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+
+  for (const [name, schema] of Object.entries(schemas)) {
+    const raw = input[name];
+    if (raw === undefined || raw === '') {
+      if (schema.default !== undefined) values[name] = schema.default;
+      else if (schema.required || location === 'path') issues.push({ in: location, name, message: `${name} is required` });
+      continue;
+    }
+    if (typeof raw !== 'string') {
+      issues.push({ in: location, name, message: `${name} must be a single value` });
+      continue;
+    }
+
+    const parsed = parseValue(schema, raw);
+    if ('error' in parsed) issues.push({ in: location, name, message: `${name} ${parsed.error}` });
+    else values[name] = parsed.value;
+  }
+
+  return values;
+}
+
+/**
+ * Respond with the standard 400 body: the first problem as `error` (as every
+ * other route does) and all of them in `details`
+ */
+export function sendValidationError(res: Response, issues: ValidationIssue[]): void {
+  res.status(400).json({ error: issues[0].message, details: issues });
+}
+
+/**
+ * Route middleware validating path and query parameters against a schema
+ * Coerced values (with defaults applied) are read back with getValidated()
+ */
+export function validate(schema: RouteSchema): ValidatingHandler {
+  const handler = (req: Request, res: Response, next: NextFunction): void => {
+    const issues: ValidationIssue[] = [];
+    const params = validateGroup('path', schema.params ?? {}, req.params, issues);
+    const query = validateGroup('query', schema.query ?? {}, req.query as Record<string, unknown>, issues);
+
+    if (issues.length > 0) {
+      sendValidationError(res, issues);
+      return;
+    }
+
+    res.locals.validated = { params, query };
+    next();
+  };
+  return Object.assign(handler, { schema });
+}
+
+/**
+ * Read the values validated by validate(schema) for this request
+ */
+export function getValidated<S extends RouteSchema>(res: Response, _schema: S): Validated<S> {
+  return res.locals.validated as Validated<S>;
+}
@@ -0,0 +1,73 @@
+import { query } from '../db';
+import { SourceAircraft, Watchlist } from '../types';
+
+const HEX_PATTERN = /^[0-9a-f]{6}$/;
+
+/**
+ * Check whether a string is a plain 24-bit ICAO hex address
+ */
+export function isValidHex(hex: string): boolean {
+  return HEX_PATTERN.test(hex.toLowerCase());
+}
+
+/**
+ * Convert a callsign wildcard pattern (`*` and `?`) to a case-insensitive RegExp
+ */
+function callsignPatternToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .trim()
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Check if an aircraft satisfies any of the criteria of a watchlist
+ */
+export function matchesWatchlist(ac: Pick<SourceAircraft, 'icao24' | 'callsign' | 'aircraft_type' | 'registration'>, watchlist: Watchlist): boolean {
+  const hex = ac.icao24.toLowerCase();
+
+  if (watchlist.hex_codes.some((code) => code.toLowerCase() === hex)) return true;
+
+  if (isValidHex(hex)) {
+    const address = parseInt(hex, 16);
+    const inRange = watchlist.hex_ranges.some(
+      (range) => address >= parseInt(range.from, 16) && address <= parseInt(range.to, 16)
+    );
+    if (inRange) return true;
+  }
+
+  if (ac.callsign && watchlist.callsign_patterns.some((p) => callsignPatternToRegExp(p).test(ac.callsign!))) {
+    return true;
+  }
+
+  if (ac.aircraft_type) {
+    const type = ac.aircraft_type.toUpperCase();
+    if (watchlist.aircraft_types.some((t) => t.toUpperCase() === type)) return true;
+  }
+
+  if (ac.registration) {
+    const registration = ac.registration.toUpperCase();
+    if (watchlist.registration_prefixes.some((p) => registration.startsWith(p.toUpperCase()))) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Get the ids of every watchlist an aircraft matches
+ */
+export function matchWatchlists(ac: SourceAircraft, watchlists: Watchlist[]): number[] {
+  return watchlists.filter((w) => matchesWatchlist(ac, w)).map((w) => w.id);
+}
+
+/**
+ * Load enabled watchlists from the database
+ */
+export async function getEnabledWatchlists(): Promise<Watchlist[]> {
+  const result = await query<Watchlist>(
+    `SELECT * FROM watchlists WHERE enabled = TRUE ORDER BY id ASC`
+  );
+  return result.rows;
+}
@@ -7,7 +7,16 @@ export interface Aircraft {
   first_seen: Date;
   last_seen: Date;
   total_sightings: number;
+  watchlist_ids?: number[] | null;
   is_military?: boolean;
+  // Filled in from the offline aircraft database
+  type_code?: string | null;
+  model?: string | null;
+  operator?: string | null;
+  owner?: string | null;
+  year_built?: number | null;
+  enrichment_source?: string | null;
+  enriched_at?: Date | null;
 }
 
 export interface Position {
@@ -21,6 +30,18 @@ export interface Position {
   heading: number | null;
   vertical_rate: number | null;
   on_ground: boolean;
+  squawk?: string | null;
+  emergency?: string | null;
+  category?: string | null;
+  nic?: number | null;
+  nac_p?: number | null;
+  rssi?: number | null;
+  message_type?: string | null;
+  seen_pos?: number | null;
+  sources?: string[] | null;
+  watchlist_ids?: number[] | null;
+  flight_id?: number | null;
+  airspace?: string | null;
   timestamp: Date;
 }
 
@@ -51,6 +72,17 @@ export interface ADSBoneAircraft {
   desc?: string;
   squawk?: string;
   emergency?: string;
+  nic?: number;
+  nac_p?: number;
+  // Time (unix seconds) and place GNSS was last good, only sent while it is degraded.
+  // readsb spells these gpsOkBefore/gpsOkLat/gpsOkLon
+  gps_ok_before?: number;
+  gpsOkBefore?: number;
+  gpsOkLat?: number;
+  gpsOkLon?: number;
+  rssi?: number;
+  type?: string;  // address/message type: adsb_icao, mlat, tisb_icao, ...
+  seen_pos?: number;
   [key: string]: unknown;
 }
 
@@ -61,9 +93,490 @@ export interface ADSBoneResponse {
   ptime: number;
 }
 
+// OpenSky Network /states/all response
+// Each state vector is a positional array, see https://openskynetwork.github.io/opensky-api/rest.html
+export type OpenSkyStateVector = [
+  string,          // 0 icao24
+  string | null,   // 1 callsign
+  string,          // 2 origin_country
+  number | null,   // 3 time_position
+  number,          // 4 last_contact
+  number | null,   // 5 longitude
+  number | null,   // 6 latitude
+  number | null,   // 7 baro_altitude (m)
+  boolean,         // 8 on_ground
+  number | null,   // 9 velocity (m/s)
+  number | null,   // 10 true_track
+  number | null,   // 11 vertical_rate (m/s)
+  number[] | null, // 12 sensors
+  number | null,   // 13 geo_altitude (m)
+  string | null,   // 14 squawk
+  boolean,         // 15 spi
+  number,          // 16 position_source
+  number?          // 17 category
+];
+
+export interface OpenSkyResponse {
+  time: number;
+  states: OpenSkyStateVector[] | null;
+}
+
+// readsb / dump1090 aircraft.json (same per-aircraft fields as ADSBone)
+export interface ReadsbResponse {
+  now: number;
+  messages?: number;
+  aircraft: ADSBoneAircraft[];
+}
+
+/**
+ * Provider-independent aircraft record produced by every data source.
+ * Units follow the ADS-B convention used by ADSBone/readsb:
+ * altitude in feet, velocity in knots, vertical rate in ft/min.
+ */
+export interface SourceAircraft {
+  icao24: string;
+  callsign: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  altitude: number | null;
+  velocity: number | null;
+  heading: number | null;
+  vertical_rate: number | null;
+  on_ground: boolean;
+  aircraft_type: string | null;
+  registration: string | null;
+  squawk: string | null;
+  emergency: string | null;
+  category: string | null;
+  message_type: string | null;
+  nic: number | null;
+  nac_p: number | null;
+  // Unix time GNSS was last good and where, set while the aircraft reports it degraded
+  gps_ok_before: number | null;
+  gps_ok_latitude: number | null;
+  gps_ok_longitude: number | null;
+  rssi: number | null;
+  seen_pos: number | null;
+  sources: string[];
+  // ADSBone coverage points that reported the aircraft
+  coverage_point_ids?: number[];
+}
+
+// ADSBone coverage point, radius in nautical miles
+export interface CoveragePoint {
+  id: number;
+  label: string;
+  latitude: number;
+  longitude: number;
+  radius_nm: number;
+  enabled: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface CoveragePointStats {
+  point_id: number;
+  label: string;
+  enabled: boolean;
+  aircraft: number;
+  tracked: number;
+  exclusive: number;
+  exclusive_tracked: number;
+  redundant: boolean;
+}
+
+export interface CoverageOverlap {
+  point_ids: [number, number];
+  labels: [string, string];
+  distance_km: number;
+  overlap_ratio: number;
+  shared_aircraft: number;
+  shared_tracked: number;
+}
+
+export interface CoverageGapCell {
+  latitude: number;
+  longitude: number;
+  abrupt_starts: number;
+  abrupt_ends: number;
+  inside_coverage: boolean;
+}
+
+export interface CoverageReport {
+  hours: number;
+  grid_degrees: number;
+  points: CoveragePointStats[];
+  overlaps: CoverageOverlap[];
+  gap_cells: CoverageGapCell[];
+}
+
+export interface SourceHealth {
+  key: string;
+  last_attempt: Date | null;
+  last_success: Date | null;
+  last_error: string | null;
+  last_error_at: Date | null;
+  failing_since: Date | null;
+  error_streak: number;
+  latency_ms: number | null;
+  aircraft: number | null;
+  requests: number;
+  errors: number;
+  rate_limited: number;
+}
+
+export interface DataSource {
+  name: string;
+  fetch(): Promise<SourceAircraft[]>;
+}
+
+export interface IcaoAllocation {
+  from: number;
+  to: number;
+  country: string;
+  code: string | null;  // ISO 3166 alpha-2, null for ICAO-reserved blocks
+}
+
+export interface IcaoDecodeResult {
+  icao24: string;
+  country: string | null;
+  country_code: string | null;
+  non_icao: boolean;
+  address_type: 'icao' | 'reserved' | 'unallocated' | 'non_icao' | 'invalid';
+}
+
+export interface DecodedCountryFields {
+  origin_country: string | null;
+  country_code: string | null;
+  non_icao: boolean;
+}
+
+export interface HexRange {
+  from: string;
+  to: string;
+}
+
+export interface Watchlist {
+  id: number;
+  name: string;
+  description: string | null;
+  enabled: boolean;
+  hex_ranges: HexRange[];
+  hex_codes: string[];
+  callsign_patterns: string[];
+  aircraft_types: string[];
+  registration_prefixes: string[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type FlightEndReason = 'landed' | 'signal_lost' | 'callsign_change';
+
+export interface Flight {
+  id: number;
+  icao24: string;
+  callsign: string | null;
+  status: 'active' | 'completed';
+  end_reason: FlightEndReason | null;
+  start_time: Date;
+  end_time: Date;
+  first_latitude: number;
+  first_longitude: number;
+  last_latitude: number;
+  last_longitude: number;
+  first_altitude: number | null;
+  last_altitude: number | null;
+  max_altitude: number | null;
+  distance_km: number;
+  position_count: number;
+  departure_airport: string | null;
+  arrival_airport: string | null;
+}
+
+// OurAirports airport record
+export interface Airport {
+  ident: string;
+  type: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  elevation_ft: number | null;
+  iso_country: string | null;
+  municipality: string | null;
+  iata_code: string | null;
+  gps_code: string | null;
+}
+
+export type AirportSummary = Pick<Airport, 'ident' | 'name' | 'iata_code' | 'municipality' | 'iso_country' | 'latitude' | 'longitude'>;
+
+// National airspace or FIR boundary loaded from AIRSPACES_GEOJSON
+export interface Airspace {
+  code: string;
+  name: string | null;
+  type: string | null;  // e.g. country, fir
+  // Each polygon is a list of [lon, lat] rings: the outer boundary, then any holes
+  polygons: [number, number][][][];
+  bbox: { minLat: number; minLon: number; maxLat: number; maxLon: number };
+}
+
+// One stay of an aircraft inside an airspace
+export interface AirspaceIncursion {
+  icao24: string;
+  callsign: string | null;
+  aircraft_type: string | null;
+  is_military: boolean;
+  // Airspace of the report before entering / after leaving, null if outside every
+  // loaded airspace or not seen within the gap
+  entered_from: string | null;
+  exited_to: string | null;
+  entered_at: Date;
+  exited_at: Date;
+  duration_seconds: number;
+  positions: number;
+  entry: { latitude: number; longitude: number; altitude: number | null };
+  exit: { latitude: number; longitude: number; altitude: number | null };
+  active: boolean;
+}
+
+// One pass of an aircraft within a distance of an airspace border
+export interface BorderProximityPass {
+  icao24: string;
+  callsign: string | null;
+  aircraft_type: string | null;
+  is_military: boolean;
+  started_at: Date;
+  ended_at: Date;
+  duration_seconds: number;
+  positions: number;
+  // Whether the pass had positions on both sides of the border
+  crossed: boolean;
+  closest: {
+    distance_km: number;
+    side: 'inside' | 'outside';
+    latitude: number;
+    longitude: number;
+    altitude: number | null;
+    timestamp: Date;
+  };
+}
+
+export interface FlightRoute {
+  flight_id: number;
+  callsign: string | null;
+  start_time: Date;
+  end_time: Date;
+  departure: AirportSummary | null;
+  arrival: AirportSummary | null;
+}
+
+export interface Geofence {
+  id: number;
+  name: string;
+  description: string | null;
+  enabled: boolean;
+  shape: 'polygon' | 'circle';
+  coordinates: [number, number][] | null;  // polygon ring as [lon, lat] pairs
+  center_latitude: number | null;
+  center_longitude: number | null;
+  radius_km: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface GeofenceEvent {
+  id?: number;
+  geofence_id: number;
+  geofence_name?: string;
+  icao24: string;
+  callsign: string | null;
+  event_type: 'entry' | 'exit';
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  timestamp: Date;
+}
+
+export type NotificationEventType =
+  | 'aircraft.first_seen'
+  | 'aircraft.military'
+  | 'squawk.emergency'
+  | 'geofence.entry'
+  | 'geofence.exit';
+
+export type NotificationTargetType = 'webhook' | 'slack' | 'email';
+
+export interface TrackerEvent {
+  type: NotificationEventType;
+  icao24: string;
+  callsign: string | null;
+  timestamp: Date;
+  latitude: number | null;
+  longitude: number | null;
+  altitude: number | null;
+  details: Record<string, unknown>;
+}
+
+export interface NotificationSubscription {
+  id: number;
+  name: string;
+  event_type: NotificationEventType;
+  target_type: NotificationTargetType;
+  target: string;  // URL for webhook/slack, address for email
+  secret: string | null;
+  enabled: boolean;
+  created_at: Date;
+}
+
+export interface NotificationDelivery {
+  id: number;
+  subscription_id: number;
+  event_type: NotificationEventType;
+  payload: TrackerEvent;
+  status: 'pending' | 'sending' | 'delivered' | 'failed';
+  attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+  response_status: number | null;
+  created_at: Date;
+  delivered_at: Date | null;
+}
+
+// One row of an offline aircraft database dump
+export interface AircraftDatabaseRecord {
+  icao24: string;
+  registration: string | null;
+  type_code: string | null;
+  model: string | null;
+  operator: string | null;
+  owner: string | null;
+  year_built: number | null;
+}
+
+export interface AircraftDatabaseImportResult {
+  source: string;
+  received: number;
+  imported: number;
+  invalid: number;
+  aircraft_enriched: number;
+}
+
+export interface MilitaryRegistryEntry {
+  hex: string;
+  operator: string | null;
+  branch: string | null;
+  aircraft_type: string | null;
+  source: string;
+  added_by: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface MilitaryImportResult {
+  source: string;
+  received: number;
+  inserted: number;
+  updated: number;
+  // Entries skipped, by position in the import (CSV rows count from 1 after the header)
+  invalid: { index: number; reason: string }[];
+}
+
+export type ApiKeyRole = 'read_only' | 'analyst' | 'admin';
+
+// API key as exposed by the API; the hash never leaves the database
+export interface ApiKey {
+  id: number;
+  name: string;
+  key_prefix: string;
+  role: ApiKeyRole;
+  rate_limit_per_minute: number | null;
+  enabled: boolean;
+  created_at: Date;
+  last_used_at: Date | null;
+}
+
+export interface AuditLogEntry {
+  id: number;
+  api_key_id: number | null;
+  key_name: string | null;
+  role: ApiKeyRole | null;
+  method: string;
+  path: string;
+  status: number;
+  ip: string | null;
+  created_at: Date;
+}
+
+export interface EmergencyEvent {
+  icao24: string;
+  callsign: string | null;
+  change: 'started' | 'cleared';
+  squawk: string | null;
+  previous_squawk: string | null;
+  emergency: string | null;
+  previous_emergency: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  altitude: number | null;
+  timestamp: Date;
+}
+
+// A gap in an aircraft's position stream while it was airborne
+export interface DarkPeriod {
+  id: number;
+  icao24: string;
+  callsign: string | null;
+  // Time of the last position before the gap and the first one after it
+  started_at: Date;
+  ended_at: Date;
+  duration_seconds: number;
+  last_latitude: number;
+  last_longitude: number;
+  last_altitude: number | null;
+  first_latitude: number;
+  first_longitude: number;
+  first_altitude: number | null;
+  distance_km: number;
+  implied_speed_knots: number;
+  // Whether the gap's ends, and the straight line between them, lie inside the
+  // coverage point circles: going dark rather than leaving coverage
+  last_in_coverage: boolean;
+  first_in_coverage: boolean;
+  within_coverage: boolean;
+  detected_at: Date;
+  aircraft_type?: string | null;
+  is_military?: boolean;
+}
+
+export interface RejectedRecord {
+  icao24: string;
+  callsign: string | null;
+  sources: string[];
+  reason: string;
+}
+
+export interface TrackerTimings {
+  fetch_ms: number;
+  write_ms: number;
+  flights_ms: number;
+  geofences_ms: number;
+  notifications_ms: number;
+  stats_ms: number;
+  total_ms: number;
+}
+
 export interface TrackerResult {
+  fetched: number;
   tracked: number;
   stored: number;
+  aircraft_inserted: number;
+  aircraft_updated: number;
+  rejected: RejectedRecord[];
+  timings: TrackerTimings;
+}
+
+export interface RetentionResult {
+  downsampled: number;
+  expired: number;
 }
 
 export interface LiveAircraft extends Aircraft {
@@ -74,13 +587,191 @@ export interface LiveAircraft extends Aircraft {
   heading: number | null;
   vertical_rate: number | null;
   on_ground: boolean;
+  squawk?: string | null;
+  emergency?: string | null;
+  category?: string | null;
+  nic?: number | null;
+  nac_p?: number | null;
+  rssi?: number | null;
+  message_type?: string | null;
+  seen_pos?: number | null;
+  sources?: string[] | null;
   timestamp: Date;
 }
 
+export interface StreamFilter {
+  bbox?: { minLat: number; minLon: number; maxLat: number; maxLon: number };
+  militaryOnly?: boolean;
+}
+
 export interface AircraftTrack {
   icao24: string;
   callsign: string | null;
+  origin_country?: string | null;
+  country_code?: string | null;
   aircraft_type: string | null;
   positions: Position[];
+  routes?: FlightRoute[];
   is_military: boolean;
 }
+
+export type InterferenceEventType = 'integrity_loss' | 'position_jump';
+
+export interface InterferenceEvent {
+  id: number;
+  event_type: InterferenceEventType;
+  // South-west corner of the grid cell
+  cell_lat: number;
+  cell_lon: number;
+  // Set for position jumps only
+  icao24: string | null;
+  started_at: Date;
+  last_seen_at: Date;
+  peak_aircraft: number;
+  peak_degraded: number;
+  details: Record<string, unknown> | null;
+  active?: boolean;
+}
+
+export interface InterferenceCell {
+  lat: number;
+  lon: number;
+  samples: number;
+  degraded: number;
+  ratio: number;
+  min_nic: number | null;
+  min_nac_p: number | null;
+}
+
+export interface InterferenceBucket {
+  timestamp: Date;
+  cells: InterferenceCell[];
+}
+
+export interface InterferenceCycleResult {
+  samples: number;
+  degraded: number;
+  flagged_cells: number;
+  position_jumps: number;
+}
+
+// An aircraft's position at a past moment, interpolated between the reports around it
+export interface SnapshotAircraft {
+  icao24: string;
+  callsign: string | null;
+  origin_country: string | null;
+  country_code: string | null;
+  aircraft_type: string | null;
+  is_military: boolean;
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  velocity: number | null;
+  heading: number | null;
+  vertical_rate: number | null;
+  on_ground: boolean;
+  squawk: string | null;
+  // false when the last report is held because there is no later one to interpolate towards
+  interpolated: boolean;
+  // Seconds to the nearest real report
+  position_age_seconds: number;
+}
+
+export interface ReplayFrame {
+  timestamp: Date;
+  count: number;
+  aircraft: SnapshotAircraft[];
+}
+
+export type PatternType = 'racetrack' | 'orbit' | 'loiter';
+
+// Loitering or orbiting found in an aircraft's position history
+export interface Pattern {
+  id: number;
+  icao24: string;
+  // Flight the pattern was flown on, if the positions were segmented into one
+  flight_id: number | null;
+  pattern_type: PatternType;
+  callsign: string | null;
+  started_at: Date;
+  ended_at: Date;
+  duration_seconds: number;
+  centroid_latitude: number;
+  centroid_longitude: number;
+  radius_km: number;
+  laps: number;
+  axis_bearing: number | null;  // racetracks only
+  path_km: number;
+  min_altitude: number | null;
+  max_altitude: number | null;
+  position_count: number;
+  detected_at: Date;
+  aircraft_type?: string | null;
+  is_military?: boolean;
+  active?: boolean;
+}
+
+export type DetectedPattern = Omit<Pattern, 'id' | 'detected_at' | 'aircraft_type' | 'is_military' | 'active'>;
+
+export interface PatternAnalysisResult {
+  aircraft: number;
+  detected: number;
+  updated: number;
+}
+
+// Request parameter schemas: validated at runtime and published in the OpenAPI document
+interface ParamSchemaBase {
+  description?: string;
+  required?: boolean;
+}
+
+export interface IntegerParamSchema extends ParamSchemaBase {
+  type: 'integer';
+  minimum?: number;
+  maximum?: number;
+  default?: number;
+}
+
+export interface NumberParamSchema extends ParamSchemaBase {
+  type: 'number';
+  minimum?: number;
+  maximum?: number;
+  default?: number;
+}
+
+export interface BooleanParamSchema extends ParamSchemaBase {
+  type: 'boolean';
+  default?: boolean;
+}
+
+export interface StringParamSchema extends ParamSchemaBase {
+  type: 'string';
+  enum?: readonly string[];
+  pattern?: string;
+  // date-time accepts anything Date.parse understands; the value stays a string
+  format?: 'date-time';
+  default?: string;
+}
+
+export type ParamSchema = IntegerParamSchema | NumberParamSchema | BooleanParamSchema | StringParamSchema;
+
+// OpenAPI schema object describing a response body
+export type JsonSchema = Record<string, unknown>;
+
+export interface RouteSchema {
+  summary: string;
+  description?: string;
+  params?: Record<string, ParamSchema>;
+  query?: Record<string, ParamSchema>;
+  response?: JsonSchema;
+  // Defaults to application/json
+  responseType?: string;
+  // Other content types selectable with ?format=, e.g. KML or CSV exports
+  alternateResponseTypes?: string[];
+}
+
+export interface ValidationIssue {
+  in: 'path' | 'query';
+  name: string;
+  message: string;
+}